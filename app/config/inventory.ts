@@ -9,10 +9,132 @@ export const MIN_RECOMMENDED_QTY = 5;
 export const DEFAULT_LEAD_TIME_DAYS = 14;
 export const DEFAULT_SAFETY_DAYS = 7;
 export const CACHE_MAX_MINUTES = 30;
+/** Full order refetch interval; the order webhooks keep the ledger current in between. */
+export const SALES_RECONCILE_HOURS = 24;
+export const WEBHOOK_RECEIPT_RETENTION_DAYS = 7;
+/** Data webhooks subscribed in shopify.app.toml; keep the two in step. */
+export const SUBSCRIBED_WEBHOOK_TOPICS = [
+  "orders/paid",
+  "orders/cancelled",
+  "refunds/create",
+  "inventory_levels/update",
+];
+export const BULK_OPERATION_POLL_MS = 3000;
+export const BULK_OPERATION_TIMEOUT_MINUTES = 20;
+/** Rows per write when saving variants, inventory levels and order lines. */
+export const SYNC_WRITE_BATCH_SIZE = 500;
+export const SYNC_JOB_MAX_ATTEMPTS = 3;
+/** First retry delay; doubles with every further attempt. */
+export const SYNC_JOB_RETRY_BASE_SECONDS = 60;
+/** A running job without a heartbeat for this long is treated as abandoned by its worker. */
+export const SYNC_JOB_STALE_MINUTES = 30;
+export const SYNC_JOB_RETENTION_DAYS = 30;
+export const SYNC_WORKER_IDLE_MS = 5000;
+export const SYNC_JOB_POLL_MS = 2000;
+export const SYNC_JOB_STATUS_LABELS = {
+  queued: "排队中",
+  running: "同步中",
+  succeeded: "同步完成",
+  failed: "同步失败",
+  retrying: "等待重试",
+} as const;
+export const SYNC_JOB_TRIGGER_LABELS = {
+  manual: "手动",
+  nightly: "夜间任务",
+  scheduled: "定时任务",
+  stale: "缓存过期",
+} as const;
+export const SYNC_JOB_SCOPE_LABELS: Record<string, string> = {
+  inventory: "库存同步",
+  orders: "订单对账",
+  "digest-daily": "每日 Digest",
+  "digest-weekly": "每周 Digest",
+};
+/** Local hour (shop timezone) from which the nightly full sync is queued. */
+export const DEFAULT_NIGHTLY_SYNC_HOUR = 2;
+/** How often the worker checks for due nightly syncs and digests. */
+export const SCHEDULER_INTERVAL_MS = 60000;
+export const SYNC_JOB_HISTORY_LIMIT = 10;
+export const VARIANT_HISTORY_DAYS = 14;
+export const UNASSIGNED_SUPPLIER_LABEL = "未分配供应商";
+export const MIN_TARGET_COVERAGE_DAYS = 30;
 export const DEFAULT_TARGET_COVERAGE = Math.max(
   DEFAULT_LEAD_TIME_DAYS + DEFAULT_SAFETY_DAYS,
-  30,
+  MIN_TARGET_COVERAGE_DAYS,
 );
+export const DEFAULT_SAFETY_STOCK_METHOD = "days";
+/** Days between replenishment reviews; statistical stock targets cover them beyond the lead time. */
+export const REVIEW_PERIOD_DAYS = 7;
+export const SAFETY_STOCK_METHOD_LABELS = {
+  days: "固定安全天数",
+  statistical: "按需求波动与服务水平计算",
+} as const;
+export const DEFAULT_SERVICE_LEVEL = 95;
+export const MIN_SERVICE_LEVEL = 50;
+export const MAX_SERVICE_LEVEL = 99.9;
+export const DEFAULT_LEAD_TIME_STD_DAYS = 0;
+/** Received purchase orders needed before a supplier's own lead-time spread is used. */
+export const MIN_LEAD_TIME_SAMPLES = 3;
+/** Tries at creating purchase order drafts when a concurrent request takes the same PO number. */
+export const PURCHASE_ORDER_CREATE_ATTEMPTS = 3;
+/** Cumulative contribution share closing classes A and B; the rest is C. */
+export const ABC_CLASS_CUTOFFS = { A: 0.8, B: 0.95 } as const;
+/** Coefficient of variation of weekly demand closing classes X and Y; the rest is Z. */
+export const XYZ_CLASS_CUTOFFS = { X: 0.5, Y: 1 } as const;
+export const DEFAULT_ABC_BASIS = "revenue";
+export const ABC_BASIS_LABELS = {
+  revenue: "销售额",
+  margin: "毛利（缺成本时按销售额）",
+} as const;
+export const XYZ_CLASS_LABELS = {
+  X: "需求稳定",
+  Y: "需求波动",
+  Z: "需求零散",
+} as const;
+export const DEMAND_EVENT_SCOPE_LABELS = {
+  all: "全店",
+  sku: "指定 SKU",
+  category: "商品类型",
+} as const;
+export const MIN_EVENT_MULTIPLIER = 0.1;
+export const MAX_EVENT_MULTIPLIER = 10;
+export const DEFAULT_PURCHASE_BUDGET = 18000;
+export const DEFAULT_BUDGET_PERIOD = "month";
+export const BUDGET_PERIOD_LABELS = {
+  none: "不分周期",
+  month: "每月",
+  quarter: "每季度",
+} as const;
+export const DEFAULT_FORECAST_MODEL = "auto";
+export const FORECAST_MODEL_LABELS = {
+  auto: "自动（按回测误差选择）",
+  "moving-average": "移动平均",
+  holt: "Holt 趋势平滑",
+  "holt-winters": "Holt-Winters（周季节性）",
+  croston: "Croston（间歇性需求）",
+} as const;
+export const FORECAST_EVALUATION_DAYS = 14;
+export const FORECAST_SNAPSHOT_RETENTION_DAYS = 180;
 export const DEFAULT_DIGEST_SEND_HOUR = 9;
 export const DEFAULT_DIGEST_DAILY_ENABLED = false;
 export const DEFAULT_DIGEST_WEEKLY_ENABLED = true;
+/** Monday; weekdays count from 0 = Sunday like `Date.getDay()`. */
+export const DEFAULT_DIGEST_WEEKDAY = 1;
+export const DIGEST_WEEKDAY_LABELS = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"] as const;
+export const DIGEST_LOST_SALES_LIMIT = 5;
+/** Rows per list in the digest email. */
+export const DIGEST_TOP_ROWS = 5;
+export const SMTP_TIMEOUT_MS = 15000;
+export const SLACK_WEBHOOK_PREFIX = "https://hooks.slack.com/";
+export const SLACK_MAX_ATTEMPTS = 3;
+/** First retry delay for Slack posts; doubles per attempt unless Slack sends Retry-After. */
+export const SLACK_RETRY_BASE_MS = 1000;
+export const SLACK_TIMEOUT_MS = 10000;
+export const NOTIFICATION_LOG_RETENTION_DAYS = 90;
+export const PURCHASE_ORDER_STATUS_LABELS = {
+  draft: "草稿",
+  sent: "已发送",
+  partially_received: "部分到货",
+  received: "已到货",
+  cancelled: "已取消",
+} as const;
@@ -4,23 +4,30 @@ import type {
   HeadersFunction,
   LoaderFunctionArgs,
 } from "react-router";
-import { json, useFetcher, useLoaderData } from "react-router";
+import { json, useFetcher, useLoaderData, useSearchParams } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 
-import { DEFAULT_SHORTAGE_THRESHOLD_DAYS } from "../config/inventory";
+import { BUDGET_PERIOD_LABELS } from "../config/inventory";
 import { authenticate } from "../shopify.server";
+import { buildAllocationPlan } from "../services/inventory.allocation";
+import { savePurchaseBudget } from "../services/inventory.budget.server";
 import { getDashboardData } from "../services/inventory.digest.server";
+import { enqueueSyncIfStale, enqueueSyncJob } from "../services/inventory.jobs.server";
+import { deliverDigest } from "../services/inventory.notifications.server";
 import { logSyncEvent } from "../services/inventory.sync.server";
 import type {
   DashboardPayload,
-  DashboardRow,
   TimeframeKey,
 } from "../services/inventory.types";
+import { useSyncJob } from "../utils/sync-job";
+import { parsePurchaseBudget } from "../validation/settings";
 import styles from "./app._index.module.css";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
-  const data = await getDashboardData(admin, session.shop);
+  const locationId = new URL(request.url).searchParams.get("location");
+  await enqueueSyncIfStale(session.shop);
+  const data = await getDashboardData(admin, session.shop, { locationId });
   return data;
 };
 
@@ -30,15 +37,24 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const intent = formData.get("intent");
 
   if (intent === "sync") {
-    await getDashboardData(admin, session.shop);
-    await logSyncEvent(session.shop, "inventory", "success", "Dashboard sync trigger");
-    return json({ ok: true, message: "同步完成" });
+    const job = await enqueueSyncJob(session.shop);
+    await logSyncEvent(session.shop, "inventory", "success", `Dashboard sync queued: job ${job.id}`);
+    return json({ ok: true, message: "已加入同步队列", job });
   }
 
   if (intent === "digest") {
-    // 在真实场景下这里触发后台任务发送 digest 邮件/Slack
-    await logSyncEvent(session.shop, "digest", "success", "手动触发 digest");
-    return json({ ok: true, message: "已触发 Digest 发送" });
+    const result = await deliverDigest(admin, session.shop);
+    return json(result, { status: result.ok ? 200 : 502 });
+  }
+
+  if (intent === "save-budget") {
+    const parsed = parsePurchaseBudget(formData);
+    if (!parsed.success) {
+      return json({ ok: false, message: parsed.message }, { status: 400 });
+    }
+    await savePurchaseBudget(session.shop, parsed.data);
+    await logSyncEvent(session.shop, "budget-plan", "success", `保存采购预算 ${parsed.data}`);
+    return json({ ok: true, message: "预算已保存" });
   }
 
   return json({ ok: true });
@@ -48,23 +64,31 @@ export default function Dashboard() {
   const data = useLoaderData<typeof loader>();
   const [timeframe, setTimeframe] = useState<TimeframeKey>("30d");
   const [budget, setBudget] = useState<number>(data.budgetPlan.budget);
-  const [locationFilter, setLocationFilter] = useState(
-    data.locations.find((location) => location.selected)?.id ?? "all",
-  );
+  const [, setSearchParams] = useSearchParams();
   const [targetCoverage, setTargetCoverage] = useState<number>(data.targetCoverages[0]);
   const [safetyDays, setSafetyDays] = useState<number>(data.safetyDays);
   const snapshot = data.timeframes[timeframe];
   const syncFetcher = useFetcher<typeof action>();
+  const syncJob = useSyncJob(
+    syncFetcher.data && "job" in syncFetcher.data ? syncFetcher.data.job : undefined,
+  );
+  const isSyncing = syncFetcher.state !== "idle" || syncJob.active;
+  const syncMessage = syncJob.message ?? syncFetcher.data?.message;
   const digestFetcher = useFetcher<typeof action>();
+  const budgetFetcher = useFetcher<typeof action>();
   const liveBudgetPlan = useMemo(
-    () => buildBudgetPlanFromRows(data.recommendationPool, budget, targetCoverage),
-    [budget, data.recommendationPool, targetCoverage],
+    () =>
+      buildAllocationPlan(data.recommendationPool, { ...data.budgetPlan, budget }, targetCoverage),
+    [budget, data.budgetPlan, data.recommendationPool, targetCoverage],
   );
   const hasRows =
     Object.values(data.timeframes ?? {}).find((tf) => tf.rows.length > 0) !== undefined;
 
   const coveragePct = Math.round((liveBudgetPlan.coverageShare ?? 0) * 100);
-  const budgetGap = budget - liveBudgetPlan.usedAmount;
+  const budgetGap = liveBudgetPlan.availableBudget - liveBudgetPlan.usedAmount;
+  const excludedDecisions = liveBudgetPlan.decisions.filter(
+    (decision) => decision.status === "excluded",
+  );
 
   return (
     <s-page className={styles.page}>
@@ -92,14 +116,13 @@ export default function Dashboard() {
                 onClick={() =>
                   syncFetcher.submit({ intent: "sync" }, { method: "post" })
                 }
-                {...(syncFetcher.state !== "idle" ? { loading: true } : {})}
+                {...(isSyncing ? { loading: true } : {})}
               >
                 立即同步 Shopify 数据
               </s-button>
               <span className={styles.heroHint}>
                 单店 · 只读 Shopify 数据（不会改库存或创建采购单） · 数据更新于：{data.lastCalculated} · 90 天历史 + 30 天预测窗口
-                {syncFetcher.state !== "idle" ? " · 同步中..." : ""}
-                {syncFetcher.data?.message ? ` · ${syncFetcher.data.message}` : ""}
+                {syncMessage ? ` · ${syncMessage}` : isSyncing ? " · 同步中..." : ""}
               </span>
             </div>
           </div>
@@ -153,6 +176,7 @@ export default function Dashboard() {
               </s-button>
             </div>
             <div className={styles.sideMeta}>
+              {digestFetcher.data?.message && <div>{digestFetcher.data.message}</div>}
               <div>最近成功：{data.digest.lastSuccess}</div>
               <div className={styles.sideWarning}>
                 最近失败：{data.digest.lastFailure || "无"}
@@ -175,13 +199,11 @@ export default function Dashboard() {
             <s-button
               variant="primary"
               onClick={() => syncFetcher.submit({ intent: "sync" }, { method: "post" })}
-              {...(syncFetcher.state !== "idle" ? { loading: true } : {})}
+              {...(isSyncing ? { loading: true } : {})}
             >
               立即同步数据
             </s-button>
-            {syncFetcher.data?.message && (
-              <div className={styles.heroHint}>{syncFetcher.data.message}</div>
-            )}
+            {syncMessage && <div className={styles.heroHint}>{syncMessage}</div>}
           </div>
         )}
 
@@ -205,8 +227,14 @@ export default function Dashboard() {
               Location
               <select
                 className={styles.select}
-                value={locationFilter}
-                onChange={(event) => setLocationFilter(event.target.value)}
+                value={data.locationScope}
+                onChange={(event) => {
+                  const value = event.target.value;
+                  setSearchParams((params) => {
+                    params.set("location", value);
+                    return params;
+                  });
+                }}
               >
                 <option value="all">All included locations</option>
                 {data.locations.map((location) => (
@@ -369,11 +397,13 @@ export default function Dashboard() {
               </span>
             </div>
             <p className={styles.cardSubtitle}>
-              输入预算后，按缺货风险 × 重要度自动排序；使用补货页可进一步微调。
+              输入预算后，按每 $1 能挽回的销售额分配数量（遵守 MOQ 与箱规，可部分采购）；使用补货页可进一步微调。
             </p>
             <div className={styles.budgetRow}>
               <div>
-                <div className={styles.budgetLabel}>预算</div>
+                <div className={styles.budgetLabel}>
+                  {data.budgetPlan.period === "none" ? "预算" : `${BUDGET_PERIOD_LABELS[data.budgetPlan.period]}预算`}
+                </div>
                 <div className={styles.budgetValue}>
                   $
                   <input
@@ -398,13 +428,31 @@ export default function Dashboard() {
                 </div>
               </div>
             </div>
+            <div className={styles.budgetMeta}>
+              <div>
+                {data.budgetPlan.period === "none"
+                  ? "预算不分周期，每次按全额计算"
+                  : `本期已下单 ${formatCurrency(data.budgetPlan.spentAmount)} · 可用 ${formatCurrency(liveBudgetPlan.availableBudget)}`}
+                {budgetFetcher.data?.message ? ` · ${budgetFetcher.data.message}` : ""}
+              </div>
+              <s-button
+                size="slim"
+                variant="tertiary"
+                onClick={() =>
+                  budgetFetcher.submit({ intent: "save-budget", budget: String(budget) }, { method: "post" })
+                }
+                {...(budgetFetcher.state !== "idle" ? { loading: true } : {})}
+              >
+                保存为默认预算
+              </s-button>
+            </div>
             <div className={styles.budgetMeta}>
               <div>最新计算：{data.lastCalculated}</div>
               <s-button
                 size="slim"
                 variant="tertiary"
                 onClick={() => syncFetcher.submit({ intent: "sync" }, { method: "post" })}
-                {...(syncFetcher.state !== "idle" ? { loading: true } : {})}
+                {...(isSyncing ? { loading: true } : {})}
               >
                 立即同步 Shopify
               </s-button>
@@ -417,6 +465,7 @@ export default function Dashboard() {
                     <div className={styles.planMeta}>
                       {pick.sku}
                       {pick.supplier ? ` · ${pick.supplier}` : ""}
+                      {pick.reason ? ` · ${pick.reason}` : ""}
                     </div>
                   </div>
                   <div className={styles.planQty}>{pick.qty} 件</div>
@@ -425,6 +474,23 @@ export default function Dashboard() {
                 </li>
               ))}
             </ul>
+            {excludedDecisions.length > 0 && (
+              <details className={styles.excludedDetails}>
+                <summary>
+                  未入选原因（预计挽回销售额 {formatCurrency(liveBudgetPlan.preventedRevenue)}）
+                </summary>
+                <ul className={styles.excludedList}>
+                  {excludedDecisions.map((decision) => (
+                    <li key={decision.sku}>
+                      <span className={styles.planName}>{decision.name}</span>
+                      <span className={styles.planMeta}>
+                        {decision.sku} · 建议 {decision.recommendedQty} 件 · {decision.reason}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
             <div className={styles.planFooter}>
               <div>
                 被排除的 SKU：{liveBudgetPlan.excludedCount} 个（合计金额 {liveBudgetPlan.excludedValue}，可手动加入）
@@ -534,64 +600,3 @@ function formatCurrency(value?: number): string {
     maximumFractionDigits: 0,
   });
 }
-
-function buildBudgetPlanFromRows(
-  rows: DashboardRow[],
-  budget: number,
-  targetCoverage: number,
-): DashboardPayload["budgetPlan"] {
-  const candidates = rows
-    .filter((row) => row.recommendedQty > 0)
-    .map((row) => {
-      const unitCost =
-        row.unitCost ??
-        (row.stockValue && row.available > 0 ? row.stockValue / row.available : undefined) ??
-        0;
-      const spend = row.recommendedQty * unitCost;
-      const riskScore = row.daysOfStock > 0 ? 1 / row.daysOfStock : 2;
-      const importance =
-        row.salesValue ??
-        (row.sales
-          ? row.sales * Math.max(unitCost, 1)
-          : row.avgDailySales * 30 * Math.max(unitCost, 1));
-      const score = riskScore * (importance || 1);
-      return { row, unitCost, spend, score };
-    })
-    .sort((a, b) => b.score - a.score);
-
-  let used = 0;
-  const picks: DashboardPayload["budgetPlan"]["picks"] = [];
-
-  candidates.forEach(({ row, spend }) => {
-    if (spend <= 0) return;
-    if (used + spend <= budget || picks.length === 0) {
-      used += spend;
-      picks.push({
-        sku: row.sku,
-        name: row.name,
-        qty: row.recommendedQty,
-        amount: formatCurrency(spend),
-        risk: row.daysOfStock <= DEFAULT_SHORTAGE_THRESHOLD_DAYS ? "爆款防断货" : "库存紧张",
-      });
-    }
-  });
-
-  const pickedSkus = new Set(picks.map((pick) => pick.sku));
-  const excludedAmount = candidates
-    .filter(({ row }) => !pickedSkus.has(row.sku))
-    .reduce((total, item) => total + item.spend, 0);
-  const excludedCount = Math.max(candidates.length - picks.length, 0);
-  const totalPool = used + excludedAmount || budget;
-  const coverageShare = totalPool > 0 ? Math.min(1, used / totalPool) : 0;
-
-  return {
-    budget,
-    coverageDays: targetCoverage,
-    usedAmount: used,
-    excludedAmount,
-    coverageShare,
-    picks,
-    excludedValue: formatCurrency(Math.abs(excludedAmount)),
-    excludedCount,
-  };
-}
@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { data, useFetcher, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import {
+  deleteBundleComponent,
+  getBundlesData,
+  saveBundleComponent,
+} from "../services/inventory.bundles.server";
+import { logSyncEvent } from "../services/inventory.sync.server";
+import { parseBundleComponent } from "../validation/bundles";
+import styles from "./app.bundles.module.css";
+
+type BundlesActionResponse = {
+  ok: boolean;
+  intent?: string;
+  message?: string;
+};
+
+type ComponentDraft = {
+  bundleSku: string;
+  componentSku: string;
+  quantity: string;
+};
+
+const emptyDraft: ComponentDraft = { bundleSku: "", componentSku: "", quantity: "1" };
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  return getBundlesData(session.shop);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string | null;
+
+  if (intent === "save-component") {
+    const parsed = parseBundleComponent(formData);
+    if (!parsed.success) {
+      return data<BundlesActionResponse>({ ok: false, intent, message: parsed.message }, { status: 400 });
+    }
+    const saved = await saveBundleComponent(session.shop, parsed.data);
+    if (!saved) {
+      return data<BundlesActionResponse>(
+        { ok: false, intent, message: "套装不能嵌套：组件本身是套装，或该套装已是其他套装的组件" },
+        { status: 400 },
+      );
+    }
+    await logSyncEvent(
+      session.shop,
+      "bundles",
+      "success",
+      `${parsed.data.bundleSku} 组件 ${parsed.data.componentSku} × ${parsed.data.quantity}`,
+    );
+    return data<BundlesActionResponse>({
+      ok: true,
+      intent,
+      message: `${parsed.data.bundleSku} 的组件已保存，下次同步后计入需求`,
+    });
+  }
+
+  if (intent === "delete-component") {
+    const bundleSku = (formData.get("bundleSku") as string) ?? "";
+    const componentSku = (formData.get("componentSku") as string) ?? "";
+    await deleteBundleComponent(session.shop, bundleSku, componentSku);
+    await logSyncEvent(session.shop, "bundles", "success", `${bundleSku} 移除组件 ${componentSku}`);
+    return data<BundlesActionResponse>({ ok: true, intent, message: `已从 ${bundleSku} 移除 ${componentSku}` });
+  }
+
+  return data<BundlesActionResponse>({ ok: false, message: "未知操作" }, { status: 400 });
+};
+
+export default function Bundles() {
+  const { bundles, skus } = useLoaderData<typeof loader>();
+  const saveFetcher = useFetcher<typeof action>();
+  const lineFetcher = useFetcher<typeof action>();
+
+  const [draft, setDraft] = useState<ComponentDraft>(emptyDraft);
+  const [message, setMessage] = useState<string | null>(null);
+  const isSaving = saveFetcher.state !== "idle";
+
+  useEffect(() => {
+    const data = saveFetcher.data;
+    if (data?.message) setMessage(data.message);
+    if (data?.ok) {
+      setDraft((current) => ({ ...emptyDraft, bundleSku: current.bundleSku }));
+    }
+  }, [saveFetcher.data]);
+
+  useEffect(() => {
+    if (lineFetcher.data?.message) setMessage(lineFetcher.data.message);
+  }, [lineFetcher.data]);
+
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(() => setMessage(null), 5000);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  const handleSave = () => {
+    saveFetcher.submit({ intent: "save-component", ...draft }, { method: "post" });
+  };
+
+  const handleQuantity = (bundleSku: string, componentSku: string, current: number, value: string) => {
+    if (value.trim() === String(current)) return;
+    lineFetcher.submit(
+      { intent: "save-component", bundleSku, componentSku, quantity: value.trim() },
+      { method: "post" },
+    );
+  };
+
+  const handleDelete = (bundleSku: string, componentSku: string) => {
+    lineFetcher.submit({ intent: "delete-component", bundleSku, componentSku }, { method: "post" });
+  };
+
+  const failed = saveFetcher.data?.ok === false || lineFetcher.data?.ok === false;
+
+  return (
+    <s-page className={styles.page}>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <div>
+            <h1 className={styles.heading}>套装 / 组合商品</h1>
+            <p className={styles.subheading}>
+              为礼盒等组合商品维护物料清单（BOM）。售出一件套装会按用量计入各组件的销量与需求预测，补货清单按组件补货；套装的可售库存由组件库存推算，不再单独补货或计入滞销。
+            </p>
+            {message && (
+              <div className={failed ? styles.errorMessage : styles.saveMessage}>{message}</div>
+            )}
+          </div>
+        </div>
+
+        <section className={styles.card}>
+          <div className={styles.cardHeader}>
+            <div>
+              <div className={styles.cardTitle}>添加组件</div>
+              <div className={styles.cardSubtitle}>同一套装再次添加同一组件会覆盖用量；套装不能嵌套</div>
+            </div>
+          </div>
+          <div className={styles.formGrid}>
+            <label className={styles.field}>
+              套装 SKU
+              <input
+                className={styles.input}
+                list="bundle-skus"
+                value={draft.bundleSku}
+                onChange={(event) => setDraft((current) => ({ ...current, bundleSku: event.target.value }))}
+              />
+            </label>
+            <label className={styles.field}>
+              组件 SKU
+              <input
+                className={styles.input}
+                list="bundle-skus"
+                value={draft.componentSku}
+                onChange={(event) => setDraft((current) => ({ ...current, componentSku: event.target.value }))}
+              />
+            </label>
+            <label className={styles.field}>
+              每套用量
+              <input
+                className={styles.input}
+                type="number"
+                min={1}
+                value={draft.quantity}
+                onChange={(event) => setDraft((current) => ({ ...current, quantity: event.target.value }))}
+              />
+            </label>
+          </div>
+          <datalist id="bundle-skus">
+            {skus.map((row) => (
+              <option key={row.sku} value={row.sku}>
+                {row.name} · {row.variant}
+              </option>
+            ))}
+          </datalist>
+          <div className={styles.actions}>
+            <s-button
+              variant="primary"
+              onClick={handleSave}
+              {...(draft.bundleSku.trim() && draft.componentSku.trim() ? {} : { disabled: true })}
+              {...(isSaving ? { loading: true } : {})}
+            >
+              保存组件
+            </s-button>
+          </div>
+        </section>
+
+        {bundles.length === 0 && (
+          <section className={styles.card}>
+            <div className={styles.muted}>尚未配置套装</div>
+          </section>
+        )}
+
+        {bundles.map((bundle) => (
+          <section key={bundle.sku} className={styles.card}>
+            <div className={styles.cardHeader}>
+              <div>
+                <div className={styles.cardTitle}>
+                  {bundle.sku} · {bundle.name}
+                </div>
+                <div className={styles.cardSubtitle}>{bundle.variant}</div>
+              </div>
+              <span className={`${styles.chip} ${bundle.available === 0 ? styles.chipWarning : ""}`}>
+                可组装 {bundle.available} 套
+                {bundle.limitingSku && bundle.components.length > 1 && ` · 受 ${bundle.limitingSku} 限制`}
+              </span>
+            </div>
+            <div className={styles.tableWrapper}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>组件 SKU</th>
+                    <th>商品</th>
+                    <th>每套用量</th>
+                    <th>组件库存</th>
+                    <th>可支持套数</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {bundle.components.map((component) => (
+                    <tr key={component.sku}>
+                      <td>{component.sku}</td>
+                      <td>
+                        {component.name}
+                        <div className={styles.muted}>{component.variant}</div>
+                      </td>
+                      <td>
+                        <input
+                          className={styles.input}
+                          type="number"
+                          min={1}
+                          defaultValue={component.quantity}
+                          onBlur={(event) =>
+                            handleQuantity(bundle.sku, component.sku, component.quantity, event.target.value)
+                          }
+                        />
+                      </td>
+                      <td>{component.available}</td>
+                      <td>{Math.max(0, Math.floor(component.available / component.quantity))}</td>
+                      <td>
+                        <s-button
+                          size="slim"
+                          variant="tertiary"
+                          tone="critical"
+                          onClick={() => handleDelete(bundle.sku, component.sku)}
+                        >
+                          移除
+                        </s-button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ))}
+      </div>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,342 @@
+import { useEffect, useState, type ChangeEvent } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { data, useFetcher, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import {
+  DEMAND_EVENT_SCOPE_LABELS,
+  MAX_EVENT_MULTIPLIER,
+  MIN_EVENT_MULTIPLIER,
+} from "../config/inventory";
+import {
+  deleteDemandEvent,
+  getDemandEventsData,
+  saveDemandEvent,
+} from "../services/inventory.events.server";
+import { logSyncEvent } from "../services/inventory.sync.server";
+import type { DemandEventRecord, DemandEventScope } from "../services/inventory.types";
+import type { FieldErrors } from "../types/errors";
+import { parseDemandEvent, type DemandEventField } from "../validation/demand-events";
+import styles from "./app.demand-events.module.css";
+
+type DemandEventsActionResponse = {
+  ok: boolean;
+  intent?: string;
+  message?: string;
+  errors?: FieldErrors<DemandEventField>;
+};
+
+type EventDraft = {
+  id?: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  multiplier: string;
+  scope: DemandEventScope;
+  scopeValues: string;
+};
+
+const emptyDraft: EventDraft = {
+  name: "",
+  startDate: "",
+  endDate: "",
+  multiplier: "1.5",
+  scope: "all",
+  scopeValues: "",
+};
+
+const toDraft = (event: DemandEventRecord): EventDraft => ({
+  id: event.id,
+  name: event.name,
+  startDate: event.startDate,
+  endDate: event.endDate,
+  multiplier: String(event.multiplier),
+  scope: event.scope,
+  scopeValues: event.scopeValues.join(", "),
+});
+
+const STATUS_LABELS: Record<DemandEventRecord["status"], string> = {
+  active: "进行中",
+  upcoming: "即将开始",
+  past: "已结束",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  return getDemandEventsData(session.shop);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string | null;
+
+  if (intent === "save-event") {
+    const parsed = parseDemandEvent(formData);
+    if (!parsed.success) {
+      return data<DemandEventsActionResponse>({ ok: false, intent, errors: parsed.errors }, { status: 400 });
+    }
+    await saveDemandEvent(session.shop, parsed.data);
+    await logSyncEvent(
+      session.shop,
+      "demand-events",
+      "success",
+      `保存需求事件：${parsed.data.name} ×${parsed.data.multiplier}`,
+    );
+    return data<DemandEventsActionResponse>({ ok: true, intent, message: "需求事件已保存" });
+  }
+
+  if (intent === "delete-event") {
+    const id = (formData.get("id") as string) ?? "";
+    await deleteDemandEvent(session.shop, id);
+    await logSyncEvent(session.shop, "demand-events", "success", `删除需求事件 ${id}`);
+    return data<DemandEventsActionResponse>({ ok: true, intent, message: "需求事件已删除" });
+  }
+
+  return data<DemandEventsActionResponse>({ ok: false, message: "未知操作" }, { status: 400 });
+};
+
+export default function DemandEvents() {
+  const { events, categories } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+
+  const [draft, setDraft] = useState<EventDraft>(emptyDraft);
+  const [message, setMessage] = useState<string | null>(null);
+  const errors = fetcher.data?.errors ?? {};
+  const isSaving = fetcher.state !== "idle";
+
+  useEffect(() => {
+    const data = fetcher.data;
+    if (data?.message) setMessage(data.message);
+    if (data?.ok && data.intent === "save-event") {
+      setDraft(emptyDraft);
+    }
+  }, [fetcher.data]);
+
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(() => setMessage(null), 5000);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  const updateDraft =
+    (field: keyof EventDraft) => (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setDraft((current) => ({ ...current, [field]: event.target.value }));
+
+  const handleSave = () => {
+    fetcher.submit({ intent: "save-event", ...draft, id: draft.id ?? "" }, { method: "post" });
+  };
+
+  const handleDelete = (event: DemandEventRecord) => {
+    if (!window.confirm(`删除需求事件「${event.name}」？`)) return;
+    fetcher.submit({ intent: "delete-event", id: event.id }, { method: "post" });
+  };
+
+  return (
+    <s-page className={styles.page}>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <div>
+            <h1 className={styles.heading}>需求日历</h1>
+            <p className={styles.subheading}>
+              登记大促、节假日、新品上市等时间段，并设置需求倍数（如黑五 ×3）。补货计算会按覆盖期内的平均倍数放大预测需求，提前备货；历史销量中已结束活动的日期会先按倍数还原，避免促销拉高日常基线。
+            </p>
+            {message && <div className={styles.saveMessage}>{message}</div>}
+          </div>
+        </div>
+
+        <section className={styles.card}>
+          <div className={styles.cardHeader}>
+            <div>
+              <div className={styles.cardTitle}>{draft.id ? "编辑需求事件" : "新增需求事件"}</div>
+              <div className={styles.cardSubtitle}>
+                日期按 UTC 自然日计算，含首尾两天；同一天的多个事件倍数相乘
+              </div>
+            </div>
+          </div>
+          <div className={styles.formGrid}>
+            <label className={styles.field}>
+              名称
+              <input
+                className={styles.input}
+                value={draft.name}
+                placeholder="Black Friday"
+                aria-invalid={Boolean(errors.name)}
+                onChange={updateDraft("name")}
+              />
+              {errors.name && <span className={styles.fieldError}>{errors.name}</span>}
+            </label>
+            <label className={styles.field}>
+              开始日期
+              <input
+                className={styles.input}
+                type="date"
+                value={draft.startDate}
+                aria-invalid={Boolean(errors.startDate)}
+                onChange={updateDraft("startDate")}
+              />
+              {errors.startDate && <span className={styles.fieldError}>{errors.startDate}</span>}
+            </label>
+            <label className={styles.field}>
+              结束日期
+              <input
+                className={styles.input}
+                type="date"
+                value={draft.endDate}
+                aria-invalid={Boolean(errors.endDate)}
+                onChange={updateDraft("endDate")}
+              />
+              {errors.endDate && <span className={styles.fieldError}>{errors.endDate}</span>}
+            </label>
+            <label className={styles.field}>
+              需求倍数
+              <input
+                className={styles.input}
+                type="number"
+                min={MIN_EVENT_MULTIPLIER}
+                max={MAX_EVENT_MULTIPLIER}
+                step={0.1}
+                value={draft.multiplier}
+                aria-invalid={Boolean(errors.multiplier)}
+                onChange={updateDraft("multiplier")}
+              />
+              {errors.multiplier && <span className={styles.fieldError}>{errors.multiplier}</span>}
+            </label>
+            <label className={styles.field}>
+              适用范围
+              <select
+                className={styles.select}
+                value={draft.scope}
+                onChange={(event) =>
+                  setDraft((current) => ({
+                    ...current,
+                    scope: event.target.value as DemandEventScope,
+                    scopeValues: "",
+                  }))
+                }
+              >
+                {Object.entries(DEMAND_EVENT_SCOPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {draft.scope === "sku" && (
+              <label className={styles.field}>
+                SKU（逗号分隔）
+                <input
+                  className={styles.input}
+                  value={draft.scopeValues}
+                  aria-invalid={Boolean(errors.scopeValues)}
+                  onChange={updateDraft("scopeValues")}
+                />
+                {errors.scopeValues && <span className={styles.fieldError}>{errors.scopeValues}</span>}
+              </label>
+            )}
+            {draft.scope === "category" && (
+              <label className={styles.field}>
+                商品类型
+                <select
+                  className={styles.select}
+                  value={draft.scopeValues}
+                  aria-invalid={Boolean(errors.scopeValues)}
+                  onChange={updateDraft("scopeValues")}
+                >
+                  <option value="">请选择</option>
+                  {categories.map((category) => (
+                    <option key={category} value={category}>
+                      {category}
+                    </option>
+                  ))}
+                </select>
+                {errors.scopeValues && <span className={styles.fieldError}>{errors.scopeValues}</span>}
+              </label>
+            )}
+          </div>
+          <div className={styles.actions}>
+            <s-button variant="primary" onClick={handleSave} {...(isSaving ? { loading: true } : {})}>
+              {draft.id ? "保存修改" : "新增事件"}
+            </s-button>
+            {draft.id && (
+              <s-button variant="tertiary" onClick={() => setDraft(emptyDraft)}>
+                取消编辑
+              </s-button>
+            )}
+          </div>
+        </section>
+
+        <section className={styles.card}>
+          <div className={styles.cardHeader}>
+            <div>
+              <div className={styles.cardTitle}>事件列表</div>
+              <div className={styles.cardSubtitle}>共 {events.length} 个事件；已结束的事件在 90 天内仍用于还原历史销量</div>
+            </div>
+          </div>
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>名称</th>
+                  <th>日期</th>
+                  <th>需求倍数</th>
+                  <th>适用范围</th>
+                  <th>状态</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {events.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className={styles.muted}>
+                      尚未登记需求事件
+                    </td>
+                  </tr>
+                )}
+                {events.map((event) => (
+                  <tr key={event.id}>
+                    <td>{event.name}</td>
+                    <td>
+                      {event.startDate} ~ {event.endDate}
+                    </td>
+                    <td>×{event.multiplier}</td>
+                    <td>
+                      {DEMAND_EVENT_SCOPE_LABELS[event.scope]}
+                      {event.scopeValues.length > 0 && (
+                        <div className={styles.muted}>{event.scopeValues.join(", ")}</div>
+                      )}
+                    </td>
+                    <td>
+                      <span className={`${styles.chip} ${event.status === "active" ? styles.chipActive : ""}`}>
+                        {STATUS_LABELS[event.status]}
+                      </span>
+                    </td>
+                    <td>
+                      <div className={styles.actions}>
+                        <s-button size="slim" variant="tertiary" onClick={() => setDraft(toDraft(event))}>
+                          编辑
+                        </s-button>
+                        <s-button size="slim" variant="tertiary" tone="critical" onClick={() => handleDelete(event)}>
+                          删除
+                        </s-button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </div>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -2,23 +2,27 @@ import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "re
 import { json, useFetcher, useLoaderData } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 
-import { DEFAULT_SHORTAGE_THRESHOLD_DAYS } from "../config/inventory";
+import { BUDGET_PERIOD_LABELS, DEFAULT_SHORTAGE_THRESHOLD_DAYS } from "../config/inventory";
 import { authenticate } from "../shopify.server";
 import { getDigestPreview } from "../services/inventory.digest.server";
+import { enqueueSyncIfStale } from "../services/inventory.jobs.server";
+import { deliverDigest } from "../services/inventory.notifications.server";
 import type { DigestPreview } from "../services/inventory.types";
 import styles from "./app.digest.preview.module.css";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
+  await enqueueSyncIfStale(session.shop);
   return getDigestPreview(admin, session.shop);
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
   const intent = formData.get("intent");
   if (intent === "send-test") {
-    return json({ ok: true, message: `已向 ${session.shop} 发送测试 Digest` });
+    const result = await deliverDigest(admin, session.shop, "test");
+    return json(result, { status: result.ok ? 200 : 502 });
   }
   return json({ ok: true });
 };
@@ -34,7 +38,7 @@ export default function DigestPreview() {
           <div>
             <div className={styles.title}>{digest.title}</div>
             <div className={styles.subtitle}>
-              预览邮件正文，包含缺货与压货 Top 列表。只读数据，不会自动发送，也不会修改库存。
+              预览邮件正文，包含缺货、压货与缺货损失 Top 列表。测试邮件发送到设置中的收件人；只读数据，不会修改库存。
             </div>
           </div>
           <div className={styles.actions}>
@@ -70,6 +74,16 @@ export default function DigestPreview() {
             <span className={styles.statValue}>{digest.summary.overstockCount}</span>
             <span className={styles.statLabel}>压货 SKU</span>
           </div>
+          <div className={styles.heroStat}>
+            <span className={styles.statValue}>{formatCurrency(digest.budget.remaining)}</span>
+            <span className={styles.statLabel}>
+              {digest.budget.period === "none" ? "采购预算" : `${BUDGET_PERIOD_LABELS[digest.budget.period]}预算剩余`}
+            </span>
+            <span className={styles.statLabel}>
+              已下单 {formatCurrency(digest.budget.spentAmount)} / 预算 {formatCurrency(digest.budget.amount)} · 建议补货{" "}
+              {formatCurrency(digest.budget.plannedAmount)}
+            </span>
+          </div>
         </section>
 
         <section className={styles.grid}>
@@ -148,6 +162,43 @@ export default function DigestPreview() {
               </tbody>
             </table>
           </div>
+
+          <div className={styles.card}>
+            <div className={styles.cardHeader}>
+              <div className={styles.cardTitle}>缺货损失估算 Top 5</div>
+              <span className={`${styles.chip} ${styles.chipWarning}`}>
+                近 30 天 · 共 {digest.lostSales.units} 件 / {formatCurrency(digest.lostSales.revenue)}
+              </span>
+            </div>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>SKU / 产品</th>
+                  <th>缺货天数</th>
+                  <th>日均销量</th>
+                  <th>损失销量</th>
+                  <th>损失销售额</th>
+                </tr>
+              </thead>
+              <tbody>
+                {digest.lostSales.rows.map((row) => (
+                  <tr key={row.sku}>
+                    <td>
+                      <div className={styles.skuCell}>
+                        <div className={styles.sku}>{row.sku}</div>
+                        <div className={styles.name}>{row.name}</div>
+                        <div className={styles.meta}>{row.variant}</div>
+                      </div>
+                    </td>
+                    <td>{row.stockoutDays} 天</td>
+                    <td>{row.avgDailySales.toFixed(1)}</td>
+                    <td className={styles.emphasis}>{row.lostSales}</td>
+                    <td>{row.price !== undefined ? formatCurrency((row.lostSales ?? 0) * row.price) : "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
         </section>
 
         <section className={styles.footerCta}>
@@ -170,3 +221,7 @@ export default function DigestPreview() {
 export const headers: HeadersFunction = (headersArgs) => {
   return boundary.headers(headersArgs);
 };
+
+function formatCurrency(value: number) {
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+}
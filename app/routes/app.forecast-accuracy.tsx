@@ -0,0 +1,144 @@
+import { useState } from "react";
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import { getForecastAccuracyData } from "../services/inventory.forecast-accuracy.server";
+import type { ForecastAccuracyGroup } from "../services/inventory.types";
+import styles from "./app.forecast-accuracy.module.css";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  return getForecastAccuracyData(session.shop);
+};
+
+type GroupKey = "byModel" | "byCategory" | "bySupplier" | "bySku";
+
+const GROUP_LABELS: Record<GroupKey, string> = {
+  byModel: "按模型",
+  byCategory: "按品类",
+  bySupplier: "按供应商",
+  bySku: "按 SKU（误差最大）",
+};
+
+const GROUP_COLUMNS: Record<GroupKey, string> = {
+  byModel: "预测模型",
+  byCategory: "品类",
+  bySupplier: "供应商",
+  bySku: "SKU",
+};
+
+const formatPercent = (value?: number) => (value === undefined ? "—" : `${Math.round(value * 100)}%`);
+
+const formatBias = (value?: number) =>
+  value === undefined ? "—" : `${value > 0 ? "+" : ""}${Math.round(value * 100)}%`;
+
+const formatQty = (value: number) => Math.round(value).toLocaleString("en-US");
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : "—");
+
+function biasClass(value?: number) {
+  if (value === undefined || Math.abs(value) < 0.1) return "";
+  return value > 0 ? styles.over : styles.under;
+}
+
+export default function ForecastAccuracy() {
+  const data = useLoaderData<typeof loader>();
+  const [groupKey, setGroupKey] = useState<GroupKey>("byModel");
+  const groups: ForecastAccuracyGroup[] = data[groupKey];
+
+  return (
+    <s-page className={styles.page}>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <div>
+            <h1 className={styles.heading}>预测准确率</h1>
+            <p className={styles.subheading}>
+              每天同步时为每个 SKU 记录一次未来 {data.horizonDays} 天的需求预测，到期后与实际销量对比。MAPE 为平均绝对百分比误差（仅统计有销量的预测），偏差为正表示预测偏高、为负表示偏低。统计最近 {data.windowDays} 天的预测。
+            </p>
+          </div>
+          <s-button variant="primary" href="/app/replenishment">
+            去补货清单
+          </s-button>
+        </div>
+
+        <div className={styles.summary}>
+          <div className={styles.summaryCard}>
+            <span className={styles.muted}>已评估预测</span>
+            <strong>{data.summary.count}</strong>
+          </div>
+          <div className={styles.summaryCard}>
+            <span className={styles.muted}>MAPE</span>
+            <strong>{formatPercent(data.summary.mape)}</strong>
+          </div>
+          <div className={styles.summaryCard}>
+            <span className={styles.muted}>偏差</span>
+            <strong className={biasClass(data.summary.bias)}>{formatBias(data.summary.bias)}</strong>
+          </div>
+          <div className={styles.summaryCard}>
+            <span className={styles.muted}>待评估</span>
+            <strong>{data.pendingCount}</strong>
+            <span className={styles.muted}>最近评估：{formatDate(data.lastEvaluated)}</span>
+          </div>
+        </div>
+
+        <div className={styles.filters}>
+          {(Object.keys(GROUP_LABELS) as GroupKey[]).map((key) => (
+            <button
+              key={key}
+              type="button"
+              className={`${styles.filterChip} ${groupKey === key ? styles.filterChipActive : ""}`}
+              onClick={() => setGroupKey(key)}
+            >
+              {GROUP_LABELS[key]}
+            </button>
+          ))}
+        </div>
+
+        <section className={styles.card}>
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>{GROUP_COLUMNS[groupKey]}</th>
+                  <th>预测次数</th>
+                  <th>预测销量</th>
+                  <th>实际销量</th>
+                  <th>MAPE</th>
+                  <th>偏差</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className={styles.empty}>
+                      暂无已到期的预测。首次同步后需等待 {data.horizonDays} 天才能看到准确率。
+                    </td>
+                  </tr>
+                )}
+                {groups.map((group) => (
+                  <tr key={group.key}>
+                    <td>
+                      <div>{group.label}</div>
+                      {groupKey === "bySku" && <div className={styles.muted}>{group.key}</div>}
+                    </td>
+                    <td>{group.count}</td>
+                    <td>{formatQty(group.forecastQty)}</td>
+                    <td>{formatQty(group.actualQty)}</td>
+                    <td>{formatPercent(group.mape)}</td>
+                    <td className={biasClass(group.bias)}>{formatBias(group.bias)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </div>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
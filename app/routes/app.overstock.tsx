@@ -4,23 +4,36 @@ import type {
   HeadersFunction,
   LoaderFunctionArgs,
 } from "react-router";
-import { json, useFetcher, useLoaderData } from "react-router";
+import { json, useFetcher, useLoaderData, useSearchParams } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 
 import { authenticate } from "../shopify.server";
-import { DEFAULT_MILD_OVERSTOCK_THRESHOLD_DAYS, DEFAULT_OVERSTOCK_THRESHOLD_DAYS } from "../config/inventory";
+import {
+  DEFAULT_MILD_OVERSTOCK_THRESHOLD_DAYS,
+  DEFAULT_OVERSTOCK_THRESHOLD_DAYS,
+  XYZ_CLASS_LABELS,
+} from "../config/inventory";
 import { readSettings } from "../services/inventory.settings.server";
 import { getOverstockData } from "../services/inventory.overstock.server";
+import { enqueueSyncIfStale, enqueueSyncJob } from "../services/inventory.jobs.server";
 import { logSyncEvent } from "../services/inventory.sync.server";
-import type { OverstockPayload, OverstockRow } from "../services/inventory.types";
+import type {
+  AbcClass,
+  OverstockPayload,
+  OverstockRow,
+  XyzClass,
+} from "../services/inventory.types";
+import { useSyncJob } from "../utils/sync-job";
 import styles from "./app.overstock.module.css";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
   const settings = await readSettings(session.shop);
+  await enqueueSyncIfStale(session.shop);
   return getOverstockData(admin, session.shop, {
     overstockThresholdDays: settings?.overstockThreshold,
     mildOverstockThresholdDays: settings?.mildOverstockThreshold,
+    locationId: new URL(request.url).searchParams.get("location"),
   });
 };
 
@@ -28,9 +41,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
   const intent = formData.get("intent");
+  const locationId = new URL(request.url).searchParams.get("location");
 
   if (intent === "export") {
-    const data = await getOverstockData(admin, session.shop);
+    const data = await getOverstockData(admin, session.shop, { locationId });
     const csv = toCsv(data.rows);
     await logSyncEvent(
       session.shop,
@@ -47,9 +61,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   }
 
   if (intent === "sync") {
-    await getOverstockData(admin, session.shop);
-    await logSyncEvent(session.shop, "sync-overstock", "success", "手动同步压货数据");
-    return json({ ok: true, message: "同步完成" });
+    const job = await enqueueSyncJob(session.shop);
+    await logSyncEvent(session.shop, "sync-overstock", "success", `手动同步压货数据：job ${job.id}`);
+    return json({ ok: true, message: "已加入同步队列", job });
   }
 
   return json({ ok: true });
@@ -67,8 +81,8 @@ const severityText: Record<OverstockRow["severity"], string> = {
 const DEFAULT_MILD = DEFAULT_MILD_OVERSTOCK_THRESHOLD_DAYS;
 const DEFAULT_SEVERE = DEFAULT_OVERSTOCK_THRESHOLD_DAYS;
 
-const discountText = (row: OverstockRow, severeThreshold: number, mildThreshold: number) => {
-  if (row.severity === "severe" || row.coverageDays >= severeThreshold) {
+const discountText = (row: OverstockRow, mildThreshold: number) => {
+  if (row.severity === "severe" || row.coverageDays >= row.overstockThreshold) {
     return "15% - 25%";
   }
   if (
@@ -81,7 +95,8 @@ const discountText = (row: OverstockRow, severeThreshold: number, mildThreshold:
 };
 
 export default function Overstock() {
-  const { rows, summary, overstockThresholdDays, mildOverstockThresholdDays, lastCalculated } = useLoaderData<typeof loader>();
+  const { rows, summary, overstockThresholdDays, mildOverstockThresholdDays, locations, locationScope, lastCalculated } = useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
   const SEVERE_THRESHOLD = overstockThresholdDays ?? DEFAULT_SEVERE;
   const MILD_THRESHOLD = mildOverstockThresholdDays ?? DEFAULT_MILD;
   const syncFetcher = useFetcher<typeof action>();
@@ -92,8 +107,13 @@ export default function Overstock() {
   const [pageSize, setPageSize] = useState(8);
   const [search, setSearch] = useState("");
   const [valueRange, setValueRange] = useState<"all" | "gt5000" | "gt20000" | "lt5000">("all");
+  const [abcFilter, setAbcFilter] = useState<AbcClass | "all">("all");
+  const [xyzFilter, setXyzFilter] = useState<XyzClass | "all">("all");
   const [copyStatus, setCopyStatus] = useState<string | null>(null);
-  const syncMessage = syncFetcher.data?.message;
+  const syncJob = useSyncJob(
+    syncFetcher.data && "job" in syncFetcher.data ? syncFetcher.data.job : undefined,
+  );
+  const syncMessage = syncJob.message ?? syncFetcher.data?.message;
   const isSyncing =
     syncFetcher.state !== "idle" && syncFetcher.formData?.get("intent") === "sync";
 
@@ -114,9 +134,13 @@ export default function Overstock() {
               ? row.stockValue >= 5000
               : row.stockValue < 5000;
 
-      return matchSearch && matchValue;
+      const matchClass =
+        (abcFilter === "all" || row.abcClass === abcFilter) &&
+        (xyzFilter === "all" || row.xyzClass === xyzFilter);
+
+      return matchSearch && matchValue && matchClass;
     });
-  }, [filter, rows, search, valueRange]);
+  }, [filter, rows, search, valueRange, abcFilter, xyzFilter]);
 
   const sortedRows = useMemo(() => {
     const sorted = [...visibleRows].sort((a, b) => {
@@ -152,7 +176,7 @@ export default function Overstock() {
     lines.push("清货候选 SKU（含折扣建议）");
     source.forEach((row) => {
       lines.push(
-        `- ${row.sku} ${row.name} · ${row.variant} | 覆盖 ${row.coverageDays} 天 | 占用 ${formatCurrency(row.stockValue)} | 建议折扣 ${discountText(row, SEVERE_THRESHOLD, MILD_THRESHOLD)}${row.unitCost ? "" : " · 未填成本"}`,
+        `- ${row.sku} ${row.name} · ${row.variant} | 覆盖 ${row.coverageDays} 天 | 占用 ${formatCurrency(row.stockValue)} | 建议折扣 ${discountText(row, MILD_THRESHOLD)}${row.unitCost ? "" : " · 未填成本"}`,
       );
     });
     try {
@@ -193,7 +217,7 @@ export default function Overstock() {
               onClick={() =>
                 syncFetcher.submit({ intent: "sync" }, { method: "post" })
               }
-              {...(isSyncing ? { loading: true } : {})}
+              {...(isSyncing || syncJob.active ? { loading: true } : {})}
             >
               同步 Shopify 数据
             </s-button>
@@ -224,6 +248,29 @@ export default function Overstock() {
         </div>
 
         <div className={styles.filters}>
+          <label className={styles.filter}>
+            Location
+            <select
+              className={styles.select}
+              value={locationScope}
+              onChange={(event) => {
+                const value = event.target.value;
+                setPage(1);
+                setSearchParams((params) => {
+                  params.set("location", value);
+                  return params;
+                });
+              }}
+            >
+              <option value="all">All included locations</option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                  {location.selected ? " (纳入计算)" : ""}
+                </option>
+              ))}
+            </select>
+          </label>
           <label className={styles.filter}>
             严重程度
             <select
@@ -269,6 +316,40 @@ export default function Overstock() {
               <option value="lt5000">&lt; $5,000</option>
             </select>
           </label>
+          <label className={styles.filter}>
+            ABC 分类
+            <select
+              className={styles.select}
+              value={abcFilter}
+              onChange={(event) => {
+                setPage(1);
+                setAbcFilter(event.target.value as typeof abcFilter);
+              }}
+            >
+              <option value="all">全部</option>
+              <option value="A">A 类</option>
+              <option value="B">B 类</option>
+              <option value="C">C 类</option>
+            </select>
+          </label>
+          <label className={styles.filter}>
+            XYZ 分类
+            <select
+              className={styles.select}
+              value={xyzFilter}
+              onChange={(event) => {
+                setPage(1);
+                setXyzFilter(event.target.value as typeof xyzFilter);
+              }}
+            >
+              <option value="all">全部</option>
+              {Object.entries(XYZ_CLASS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {value} · {label}
+                </option>
+              ))}
+            </select>
+          </label>
           <label className={styles.filter}>
             清货策略
             <select className={styles.select}>
@@ -331,7 +412,10 @@ export default function Overstock() {
                                 {row.name}
                               </a>
                             </div>
-                            <div className={styles.productMeta}>{row.sku} · {row.variant}</div>
+                            <div className={styles.productMeta}>
+                              {row.sku} · {row.variant}
+                              {row.abcClass && ` · ${row.abcClass}${row.xyzClass ?? ""} 类`}
+                            </div>
                           </div>
                         </div>
                       </td>
@@ -343,7 +427,7 @@ export default function Overstock() {
                         {formatCurrency(row.stockValue)}
                         {!row.unitCost && <span className={styles.missingCost}>未填成本</span>}
                       </td>
-                      <td>{discountText(row, SEVERE_THRESHOLD, MILD_THRESHOLD)}</td>
+                      <td>{discountText(row, MILD_THRESHOLD)}</td>
                       <td>
                         <span
                           className={`${styles.severityBadge} ${
@@ -481,6 +565,8 @@ function toCsv(rows: OverstockPayload["rows"]) {
     "日均销量",
     "覆盖天数",
     "库存金额",
+    "ABC",
+    "XYZ",
     "建议折扣",
     "标签",
   ];
@@ -495,7 +581,9 @@ function toCsv(rows: OverstockPayload["rows"]) {
       row.avgDailySales.toFixed(1),
       row.coverageDays,
       row.stockValue,
-      discountText(row, SEVERE_THRESHOLD, MILD_THRESHOLD),
+      row.abcClass ?? "",
+      row.xyzClass ?? "",
+      discountText(row, DEFAULT_MILD),
       severityText[row.severity],
     ]
       .map((value) => `"${String(value).replace(/"/g, '""')}"`)
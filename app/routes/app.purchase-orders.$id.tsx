@@ -0,0 +1,392 @@
+import { useEffect, useMemo, useState } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { data, useFetcher, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import { PURCHASE_ORDER_STATUS_LABELS } from "../config/inventory";
+import {
+  fetchShopProfile,
+  renderPurchaseOrderEmailBody,
+} from "../services/inventory.po-documents.server";
+import {
+  getPurchaseOrder,
+  receivePurchaseOrder,
+  transitionPurchaseOrder,
+  updateDraftLines,
+} from "../services/inventory.purchase-orders.server";
+import { logSyncEvent } from "../services/inventory.sync.server";
+import type { PurchaseOrderStatus } from "../services/inventory.types";
+import { downloadFile } from "../utils/download";
+import { parseDraftUpdate, parseReceivedLines, parseStatus } from "../validation/purchase-orders";
+import styles from "./app.purchase-orders.$id.module.css";
+
+type PurchaseOrderActionResponse = {
+  ok: boolean;
+  message?: string;
+};
+
+const TRANSITION_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "退回草稿",
+  sent: "标记为已发送",
+  partially_received: "部分到货",
+  received: "全部到货",
+  cancelled: "取消采购单",
+};
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const order = await getPurchaseOrder(session.shop, params.id ?? "");
+  if (!order) {
+    throw new Response("Purchase order not found", { status: 404 });
+  }
+  const shop = await fetchShopProfile(admin, session.shop);
+  return { ...order, emailBody: renderPurchaseOrderEmailBody(order, shop) };
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const id = params.id ?? "";
+
+  if (intent === "save-draft") {
+    const parsed = parseDraftUpdate(formData);
+    if (!parsed.success) {
+      return data<PurchaseOrderActionResponse>({ ok: false, message: parsed.message }, { status: 400 });
+    }
+    if (!(await updateDraftLines(session.shop, id, parsed.data))) {
+      return data<PurchaseOrderActionResponse>(
+        { ok: false, message: "只有草稿状态可以修改" },
+        { status: 409 },
+      );
+    }
+    return data<PurchaseOrderActionResponse>({ ok: true, message: "草稿已保存" });
+  }
+
+  if (intent === "transition") {
+    const parsed = parseStatus(formData);
+    if (!parsed.success) {
+      return data<PurchaseOrderActionResponse>({ ok: false, message: parsed.message }, { status: 400 });
+    }
+    if (!(await transitionPurchaseOrder(session.shop, id, parsed.data))) {
+      return data<PurchaseOrderActionResponse>(
+        { ok: false, message: "当前状态不能执行该操作" },
+        { status: 409 },
+      );
+    }
+    await logSyncEvent(session.shop, "purchase-order", "success", `采购单 ${id} → ${parsed.data}`);
+    return data<PurchaseOrderActionResponse>({
+      ok: true,
+      message: `状态已更新为「${PURCHASE_ORDER_STATUS_LABELS[parsed.data]}」`,
+    });
+  }
+
+  if (intent === "receive") {
+    const parsed = parseReceivedLines(formData);
+    if (!parsed.success) {
+      return data<PurchaseOrderActionResponse>({ ok: false, message: parsed.message }, { status: 400 });
+    }
+    if (!(await receivePurchaseOrder(session.shop, id, parsed.data))) {
+      return data<PurchaseOrderActionResponse>(
+        { ok: false, message: "只有已发送的采购单可以登记到货" },
+        { status: 409 },
+      );
+    }
+    await logSyncEvent(session.shop, "purchase-order", "success", `采购单 ${id} 登记到货`);
+    return data<PurchaseOrderActionResponse>({ ok: true, message: "到货数量已登记" });
+  }
+
+  return data<PurchaseOrderActionResponse>({ ok: false, message: "未知操作" }, { status: 400 });
+};
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : "—");
+
+const toDateInput = (value?: string) => (value ? value.slice(0, 10) : "");
+
+export default function PurchaseOrderDetail() {
+  const order = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const isDraft = order.status === "draft";
+  const canReceive = order.status === "sent" || order.status === "partially_received";
+
+  const [note, setNote] = useState(order.note);
+  const [expectedAt, setExpectedAt] = useState(toDateInput(order.expectedAt));
+  const [lines, setLines] = useState(order.lines);
+  const [copyStatus, setCopyStatus] = useState("");
+  const [downloadError, setDownloadError] = useState("");
+  const isSubmitting = fetcher.state !== "idle";
+
+  useEffect(() => {
+    setNote(order.note);
+    setExpectedAt(toDateInput(order.expectedAt));
+    setLines(order.lines);
+  }, [order]);
+
+  const totals = useMemo(
+    () =>
+      lines.reduce(
+        (sum, line) => ({
+          quantity: sum.quantity + line.quantity,
+          received: sum.received + line.receivedQuantity,
+          amount: sum.amount + line.quantity * line.unitCost,
+        }),
+        { quantity: 0, received: 0, amount: 0 },
+      ),
+    [lines],
+  );
+
+  const updateLine = (id: string, field: "quantity" | "unitCost" | "receivedQuantity", value: number) => {
+    setLines((current) =>
+      current.map((line) =>
+        line.id === id ? { ...line, [field]: Number.isFinite(value) ? value : 0 } : line,
+      ),
+    );
+  };
+
+  const saveDraft = () => {
+    fetcher.submit(
+      {
+        intent: "save-draft",
+        note,
+        expectedAt,
+        lines: JSON.stringify(
+          lines.map((line) => ({ id: line.id, quantity: line.quantity, unitCost: line.unitCost })),
+        ),
+      },
+      { method: "post" },
+    );
+  };
+
+  const transition = (status: PurchaseOrderStatus) => {
+    if (status === "cancelled" && !window.confirm(`取消采购单 ${order.number}？`)) return;
+    fetcher.submit({ intent: "transition", status }, { method: "post" });
+  };
+
+  const copyEmailBody = async () => {
+    try {
+      await navigator.clipboard.writeText(order.emailBody);
+      setCopyStatus("已复制到剪贴板");
+    } catch (error) {
+      setCopyStatus("复制失败，请手动选择文本");
+    }
+  };
+
+  const handleDownload = async (format: "pdf" | "eml") => {
+    setDownloadError("");
+    try {
+      await downloadFile(`/app/purchase-orders/${order.id}/export?format=${format}`);
+    } catch (error) {
+      setDownloadError(error instanceof Error ? error.message : "下载失败");
+    }
+  };
+
+  const receive = () => {
+    fetcher.submit(
+      {
+        intent: "receive",
+        lines: JSON.stringify(
+          lines.map((line) => ({ id: line.id, receivedQuantity: line.receivedQuantity })),
+        ),
+      },
+      { method: "post" },
+    );
+  };
+
+  return (
+    <s-page className={styles.page}>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <div>
+            <a className={styles.link} href="/app/purchase-orders">
+              ← 采购单
+            </a>
+            <h1 className={styles.heading}>
+              {order.number} · {order.supplierName}
+            </h1>
+            <div className={styles.meta}>
+              <span className={`${styles.status} ${styles[`status_${order.status}`] ?? ""}`}>
+                {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+              </span>
+              <span>创建：{formatDate(order.createdAt)}</span>
+              <span>预计到货：{order.expectedAt ? new Date(order.expectedAt).toLocaleDateString() : "—"}</span>
+              <span>发送：{formatDate(order.sentAt)}</span>
+              <span>到货：{formatDate(order.receivedAt)}</span>
+              {order.cancelledAt && <span>取消：{formatDate(order.cancelledAt)}</span>}
+            </div>
+          </div>
+          <div className={styles.headerActions}>
+            <s-button variant="tertiary" onClick={() => handleDownload("pdf")}>
+              下载 PDF
+            </s-button>
+            <s-button variant="tertiary" onClick={() => handleDownload("eml")}>
+              下载邮件 (.eml)
+            </s-button>
+            {order.allowedTransitions.map((status) => (
+              <s-button
+                key={status}
+                variant={status === "cancelled" ? "tertiary" : "primary"}
+                onClick={() => transition(status)}
+                {...(isSubmitting ? { disabled: true } : {})}
+              >
+                {TRANSITION_LABELS[status]}
+              </s-button>
+            ))}
+          </div>
+        </div>
+
+        {downloadError && <div className={styles.errorMessage}>{downloadError}</div>}
+        {fetcher.data?.message && (
+          <div className={fetcher.data.ok ? styles.message : styles.errorMessage}>{fetcher.data.message}</div>
+        )}
+
+        <section className={styles.card}>
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>SKU</th>
+                  <th>商品</th>
+                  <th>数量</th>
+                  <th>单价</th>
+                  <th>小计</th>
+                  <th>已到货</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line) => (
+                  <tr key={line.id}>
+                    <td>{line.sku}</td>
+                    <td>
+                      {line.name}
+                      <div className={styles.muted}>{line.variant}</div>
+                    </td>
+                    <td>
+                      {isDraft ? (
+                        <input
+                          className={styles.input}
+                          type="number"
+                          min={0}
+                          value={line.quantity}
+                          onChange={(event) => updateLine(line.id, "quantity", Number(event.target.value))}
+                        />
+                      ) : (
+                        line.quantity
+                      )}
+                    </td>
+                    <td>
+                      {isDraft ? (
+                        <input
+                          className={styles.input}
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={line.unitCost}
+                          onChange={(event) => updateLine(line.id, "unitCost", Number(event.target.value))}
+                        />
+                      ) : (
+                        formatCurrency(line.unitCost)
+                      )}
+                    </td>
+                    <td>{formatCurrency(line.quantity * line.unitCost)}</td>
+                    <td>
+                      {canReceive ? (
+                        <input
+                          className={styles.input}
+                          type="number"
+                          min={0}
+                          max={line.quantity}
+                          value={line.receivedQuantity}
+                          onChange={(event) =>
+                            updateLine(line.id, "receivedQuantity", Number(event.target.value))
+                          }
+                        />
+                      ) : (
+                        `${line.receivedQuantity} / ${line.quantity}`
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                <tr className={styles.totalRow}>
+                  <td colSpan={2}>合计</td>
+                  <td>{totals.quantity}</td>
+                  <td />
+                  <td>{formatCurrency(totals.amount)}</td>
+                  <td>
+                    {totals.received} / {totals.quantity}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className={styles.cardFooter}>
+            <label className={styles.dateField}>
+              预计到货
+              {isDraft ? (
+                <input
+                  className={styles.input}
+                  type="date"
+                  value={expectedAt}
+                  onChange={(event) => setExpectedAt(event.target.value)}
+                />
+              ) : (
+                <div>{expectedAt || "—"}</div>
+              )}
+            </label>
+            <label className={styles.noteField}>
+              备注
+              {isDraft ? (
+                <textarea className={styles.textarea} value={note} onChange={(event) => setNote(event.target.value)} />
+              ) : (
+                <div>{order.note || "—"}</div>
+              )}
+            </label>
+            {isDraft && (
+              <s-button variant="primary" onClick={saveDraft} {...(isSubmitting ? { loading: true } : {})}>
+                保存草稿
+              </s-button>
+            )}
+            {canReceive && (
+              <s-button variant="primary" onClick={receive} {...(isSubmitting ? { loading: true } : {})}>
+                登记到货
+              </s-button>
+            )}
+          </div>
+          {isDraft && <p className={styles.muted}>数量改为 0 的行会在保存时删除。</p>}
+        </section>
+
+        <section className={styles.card}>
+          <div className={styles.cardHeader}>
+            <div>
+              <div className={styles.cardTitle}>邮件正文</div>
+              <div className={styles.muted}>
+                {order.supplierContact?.email
+                  ? `收件人：${order.supplierContact.email}`
+                  : "供应商未填写邮箱，可在供应商页面补充"}
+              </div>
+            </div>
+            <div className={styles.headerActions}>
+              {copyStatus && <span className={styles.muted}>{copyStatus}</span>}
+              <s-button variant="tertiary" onClick={copyEmailBody}>
+                复制邮件正文
+              </s-button>
+            </div>
+          </div>
+          <pre className={styles.emailBody}>{order.emailBody}</pre>
+        </section>
+      </div>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,48 @@
+import type { LoaderFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import {
+  fetchShopProfile,
+  purchaseOrderFileName,
+  renderPurchaseOrderEml,
+  renderPurchaseOrderPdf,
+} from "../services/inventory.po-documents.server";
+import { getPurchaseOrder } from "../services/inventory.purchase-orders.server";
+import { logSyncEvent } from "../services/inventory.sync.server";
+
+/**
+ * Purchase order as a PDF (`?format=pdf`) or supplier email (`?format=eml`). Fetched by the
+ * detail page with the App Bridge session token, then saved as a file.
+ */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const format = new URL(request.url).searchParams.get("format");
+  if (format !== "pdf" && format !== "eml") {
+    throw new Response("Unknown format", { status: 400 });
+  }
+  const order = await getPurchaseOrder(session.shop, params.id ?? "");
+  if (!order) {
+    throw new Response("Purchase order not found", { status: 404 });
+  }
+  const shop = await fetchShopProfile(admin, session.shop);
+  const fileName = purchaseOrderFileName(order, format);
+  await logSyncEvent(
+    session.shop,
+    "purchase-order",
+    "success",
+    `导出 ${fileName}`,
+  );
+  return format === "pdf"
+    ? new Response(Buffer.from(renderPurchaseOrderPdf(order, shop), "latin1"), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      })
+    : new Response(renderPurchaseOrderEml(order, shop), {
+        headers: {
+          "Content-Type": "message/rfc822",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      });
+};
@@ -0,0 +1,121 @@
+import { useMemo, useState } from "react";
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import { PURCHASE_ORDER_STATUS_LABELS } from "../config/inventory";
+import { getPurchaseOrdersData } from "../services/inventory.purchase-orders.server";
+import type { PurchaseOrderStatus } from "../services/inventory.types";
+import styles from "./app.purchase-orders._index.module.css";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  return getPurchaseOrdersData(session.shop);
+};
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : "—");
+
+export default function PurchaseOrders() {
+  const { orders, statusCounts } = useLoaderData<typeof loader>();
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | "all">("all");
+
+  const filteredOrders = useMemo(
+    () =>
+      statusFilter === "all" ? orders : orders.filter((order) => order.status === statusFilter),
+    [orders, statusFilter],
+  );
+
+  return (
+    <s-page className={styles.page}>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <div>
+            <h1 className={styles.heading}>采购单</h1>
+            <p className={styles.subheading}>
+              在补货清单勾选 SKU 后点击「生成采购单草稿」，会按供应商拆分为草稿。发送前可修改数量和单价；状态流转：草稿 → 已发送 → 部分到货 → 已到货，未完成前可取消。
+            </p>
+          </div>
+          <s-button variant="primary" href="/app/replenishment">
+            去补货清单
+          </s-button>
+        </div>
+
+        <div className={styles.filters}>
+          <button
+            type="button"
+            className={`${styles.filterChip} ${statusFilter === "all" ? styles.filterChipActive : ""}`}
+            onClick={() => setStatusFilter("all")}
+          >
+            全部 {orders.length}
+          </button>
+          {(Object.keys(PURCHASE_ORDER_STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+            <button
+              key={status}
+              type="button"
+              className={`${styles.filterChip} ${statusFilter === status ? styles.filterChipActive : ""}`}
+              onClick={() => setStatusFilter(status)}
+            >
+              {PURCHASE_ORDER_STATUS_LABELS[status]} {statusCounts[status]}
+            </button>
+          ))}
+        </div>
+
+        <section className={styles.card}>
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>单号</th>
+                  <th>供应商</th>
+                  <th>状态</th>
+                  <th>行数</th>
+                  <th>数量</th>
+                  <th>金额</th>
+                  <th>创建</th>
+                  <th>发送</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredOrders.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className={styles.empty}>
+                      暂无采购单
+                    </td>
+                  </tr>
+                )}
+                {filteredOrders.map((order) => (
+                  <tr key={order.id}>
+                    <td>
+                      <a className={styles.link} href={`/app/purchase-orders/${order.id}`}>
+                        {order.number}
+                      </a>
+                    </td>
+                    <td>{order.supplierName}</td>
+                    <td>
+                      <span className={`${styles.status} ${styles[`status_${order.status}`] ?? ""}`}>
+                        {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                      </span>
+                    </td>
+                    <td>{order.lineCount}</td>
+                    <td>{order.totalQuantity}</td>
+                    <td>{formatCurrency(order.totalAmount)}</td>
+                    <td className={styles.muted}>{formatDate(order.createdAt)}</td>
+                    <td className={styles.muted}>{formatDate(order.sentAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </div>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -4,31 +4,50 @@ import type {
   HeadersFunction,
   LoaderFunctionArgs,
 } from "react-router";
-import { json, useFetcher, useLoaderData } from "react-router";
+import { json, useFetcher, useLoaderData, useSearchParams } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 
 import { authenticate } from "../shopify.server";
 import {
   getReplenishmentData,
 } from "../services/inventory.replenishment.server";
+import { allocateBudget, roundOrderQuantity } from "../services/inventory.allocation";
+import { savePurchaseBudget } from "../services/inventory.budget.server";
+import { createDraftsFromRows } from "../services/inventory.purchase-orders.server";
+import { enqueueSyncIfStale, enqueueSyncJob } from "../services/inventory.jobs.server";
 import { logSyncEvent } from "../services/inventory.sync.server";
-import type { ReplenishmentPayload } from "../services/inventory.types";
+import type {
+  AbcClass,
+  AllocationDecision,
+  PlanningSource,
+  ReplenishmentPayload,
+  XyzClass,
+} from "../services/inventory.types";
 import {
+  BUDGET_PERIOD_LABELS,
   DEFAULT_TARGET_COVERAGE,
+  FORECAST_MODEL_LABELS,
   MIN_RECOMMENDED_QTY,
   MIN_SALES_FOR_FORECAST,
+  XYZ_CLASS_LABELS,
 } from "../config/inventory";
+import { useSyncJob } from "../utils/sync-job";
+import { parsePlanQuantities } from "../validation/purchase-orders";
+import { parsePurchaseBudget } from "../validation/settings";
 import styles from "./app.replenishment.module.css";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
-  return getReplenishmentData(admin, session.shop);
+  const locationId = new URL(request.url).searchParams.get("location");
+  await enqueueSyncIfStale(session.shop);
+  return getReplenishmentData(admin, session.shop, { locationId });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
   const intent = formData.get("intent");
+  const locationId = new URL(request.url).searchParams.get("location");
   const skusParam = (formData.get("skus") as string | null) ?? "";
   const selectedSkus = skusParam
     .split(",")
@@ -36,7 +55,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     .filter(Boolean);
 
   if (intent === "export") {
-    const data = await getReplenishmentData(admin, session.shop);
+    const data = await getReplenishmentData(admin, session.shop, { locationId });
     const rows =
       selectedSkus.length > 0
         ? data.rows.filter((row) => selectedSkus.includes(row.sku))
@@ -57,40 +76,75 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   }
 
   if (intent === "sync") {
-    await getReplenishmentData(admin, session.shop);
-    await logSyncEvent(session.shop, "sync-replenishment", "success", "手动同步补货数据");
-    return json({ ok: true, message: "同步完成" });
+    const job = await enqueueSyncJob(session.shop);
+    await logSyncEvent(session.shop, "sync-replenishment", "success", `手动同步补货数据：job ${job.id}`);
+    return json({ ok: true, message: "已加入同步队列", job });
   }
 
   if (intent === "plan") {
+    const quantities = parsePlanQuantities(formData);
+    if (!quantities.success) {
+      return json({ ok: false, message: quantities.message }, { status: 400 });
+    }
+    const data = await getReplenishmentData(admin, session.shop, { locationId });
+    // Planner quantities win; otherwise the recommendation is rounded to MOQ / case pack.
+    const orders = await createDraftsFromRows(
+      session.shop,
+      data.rows
+        .filter((row) => selectedSkus.includes(row.sku))
+        .map((row) => ({
+          ...row,
+          recommendedQty: quantities.data.get(row.sku) ?? roundOrderQuantity(row.recommendedQty, row),
+        })),
+    );
     await logSyncEvent(
       session.shop,
       "budget-plan",
       "success",
-      `确认采购优先级：${selectedSkus.length} 个 SKU`,
+      `生成采购单草稿：${selectedSkus.length} 个 SKU，${orders.length} 张采购单`,
     );
+    if (orders.length === 0) {
+      return json({ ok: false, message: "所选 SKU 没有建议补货数量，未生成采购单" });
+    }
     return json({
       ok: true,
-      message: `已确认采购优先级（${selectedSkus.length} 个 SKU）`,
+      message: `已按供应商生成 ${orders.length} 张采购单草稿：${orders.map((order) => order.number).join("、")}`,
     });
   }
 
+  if (intent === "save-budget") {
+    const parsed = parsePurchaseBudget(formData);
+    if (!parsed.success) {
+      return json({ ok: false, message: parsed.message }, { status: 400 });
+    }
+    await savePurchaseBudget(session.shop, parsed.data);
+    await logSyncEvent(session.shop, "budget-plan", "success", `保存采购预算 ${parsed.data}`);
+    return json({ ok: true, message: "预算已保存" });
+  }
+
   return json({ ok: true });
 };
 
+const PLANNING_SOURCE_LABELS: Record<PlanningSource, string> = {
+  sku: "SKU",
+  supplier: "供应商",
+  shop: "店铺默认",
+};
+
 const formatCurrency = (value: number) =>
   value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
 
 export default function Replenishment() {
   const syncFetcher = useFetcher<typeof action>();
   const planFetcher = useFetcher<typeof action>();
-  const { rows, budgetPlan, missingCostCount, locations, suppliers, safetyDays, leadTimeDays, historyWindowDays, targetCoverageDays, shortageThreshold, lastCalculated } =
+  const budgetFetcher = useFetcher<typeof action>();
+  const { rows, budgetPlan, missingCostCount, locations, locationScope, suppliers, safetyDays, leadTimeDays, safetyStockMethod, serviceLevel, historyWindowDays, targetCoverageDays, shortageThreshold, lastCalculated } =
     useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
   const [budget, setBudget] = useState(budgetPlan.budget);
-  const [locationFilter, setLocationFilter] = useState(
-    locations.find((location) => location.selected)?.id ?? "All",
-  );
   const [supplierFilter, setSupplierFilter] = useState("All");
+  const [abcFilter, setAbcFilter] = useState<AbcClass | "all">("all");
+  const [xyzFilter, setXyzFilter] = useState<XyzClass | "all">("all");
   const [search, setSearch] = useState("");
   const [riskFilter, setRiskFilter] = useState<"shortage" | "all" | "low-sales">("shortage");
   const [sortKey, setSortKey] = useState<"daysOfStock" | "recommendedQty" | "available">(
@@ -103,30 +157,34 @@ export default function Replenishment() {
     rows.filter((row) => row.recommendedQty > 0).map((row) => row.sku),
   );
   const [copyStatus, setCopyStatus] = useState<string | null>(null);
+  const [allocation, setAllocation] = useState<Map<string, AllocationDecision> | null>(null);
   const planCoverage = Math.round((budgetPlan.coverageShare ?? 0) * 100);
-  const planGap = budgetPlan.budget - budgetPlan.usedAmount;
+  const planGap = budgetPlan.availableBudget - budgetPlan.usedAmount;
+  const availableBudget = Math.max(0, budget - budgetPlan.spentAmount);
 
   const selectedRows = useMemo(
     () => rows.filter((row) => selectedSkus.includes(row.sku)),
     [rows, selectedSkus],
   );
 
-  const filteredRows = useMemo(() => {
-    const selectedLocation = locations.find((location) => location.id === locationFilter);
+  // Quantity that goes on the purchase order: the planner's allocation when it ran, otherwise
+  // the recommendation rounded up to MOQ / case pack.
+  const orderQty = (row: (typeof rows)[number]) =>
+    allocation?.get(row.sku)?.qty ?? roundOrderQuantity(row.recommendedQty, row);
 
+  const filteredRows = useMemo(() => {
     return rows.filter((row) => {
-      const matchLocation =
-        locationFilter === "All" ||
-        row.location === "All included locations" ||
-        (selectedLocation ? row.location.includes(selectedLocation.name) : false);
       const matchSupplier = supplierFilter === "All" || row.supplier === supplierFilter;
+      const matchClass =
+        (abcFilter === "all" || row.abcClass === abcFilter) &&
+        (xyzFilter === "all" || row.xyzClass === xyzFilter);
       const matchSearch =
         search.trim().length === 0 ||
         row.sku.toLowerCase().includes(search.toLowerCase()) ||
         row.name.toLowerCase().includes(search.toLowerCase());
-      const lowSales = row.avgDailySales * 30 < MIN_SALES_FOR_FORECAST;
+      const lowSales = !row.forecastModel && row.avgDailySales * 30 < MIN_SALES_FOR_FORECAST;
       const shortageRisk =
-        row.daysOfStock <= shortageThreshold ||
+        row.daysOfStock <= row.shortageThreshold ||
         row.recommendedQty >= MIN_RECOMMENDED_QTY;
       const matchRisk =
         riskFilter === "all"
@@ -135,9 +193,9 @@ export default function Replenishment() {
             ? lowSales
             : shortageRisk;
 
-      return matchLocation && matchSupplier && matchSearch && matchRisk;
+      return matchSupplier && matchClass && matchSearch && matchRisk;
     });
-  }, [rows, locationFilter, supplierFilter, search, riskFilter, locations]);
+  }, [rows, supplierFilter, abcFilter, xyzFilter, search, riskFilter]);
 
   const sortedRows = useMemo(() => {
     const sorted = [...filteredRows].sort((a, b) => {
@@ -153,25 +211,27 @@ export default function Replenishment() {
     return sortedRows.slice(start, start + pageSize);
   }, [page, pageSize, sortedRows]);
 
-  const totalAmount = useMemo(
-    () => selectedRows.reduce((sum, row) => sum + row.recommendedQty * row.unitCost, 0),
-    [selectedRows],
-  );
-
-  const totalQty = useMemo(
-    () => selectedRows.reduce((sum, row) => sum + row.recommendedQty, 0),
-    [selectedRows],
-  );
+  const totalAmount = selectedRows.reduce((sum, row) => sum + orderQty(row) * row.unitCost, 0);
+  const totalQty = selectedRows.reduce((sum, row) => sum + orderQty(row), 0);
 
   const toggleSku = (sku: string) => {
     setSelectedSkus((current) =>
       current.includes(sku) ? current.filter((item) => item !== sku) : [...current, sku],
     );
+    setAllocation((current) => {
+      if (!current?.has(sku)) return current;
+      const next = new Map(current);
+      next.delete(sku);
+      return next;
+    });
   };
 
-  const budgetDelta = budget - totalAmount;
+  const budgetDelta = availableBudget - totalAmount;
+  const syncJob = useSyncJob(
+    syncFetcher.data && "job" in syncFetcher.data ? syncFetcher.data.job : undefined,
+  );
   const isSyncing = syncFetcher.state !== "idle" && syncFetcher.formData?.get("intent") === "sync";
-  const syncMessage = syncFetcher.data?.message;
+  const syncMessage = syncJob.message ?? syncFetcher.data?.message;
   const isPlanning = planFetcher.state !== "idle" && planFetcher.formData?.get("intent") === "plan";
   const planMessage = planFetcher.data?.message;
 
@@ -186,29 +246,16 @@ export default function Replenishment() {
   };
 
   const runBudgetPlanner = () => {
-    const candidates = filteredRows
-      .filter((row) => row.recommendedQty > 0)
-      .map((row) => {
-        const spend = row.recommendedQty * row.unitCost;
-        const riskScore = row.daysOfStock > 0 ? 1 / row.daysOfStock : 2;
-        const importance = row.avgDailySales * Math.max(row.unitCost, 1);
-        const score = riskScore * (importance + 1);
-        return { row, spend, score };
-      })
-      .sort((a, b) => b.score - a.score);
-
-    let used = 0;
-    const picked: string[] = [];
-
-    candidates.forEach(({ row, spend }) => {
-      if (spend === 0) return;
-      if (used + spend <= budget || picked.length === 0) {
-        picked.push(row.sku);
-        used += spend;
-      }
-    });
+    const supplierRemaining = new Map(
+      budgetPlan.suppliers.map((supplier) => [
+        supplier.supplierId,
+        Math.max(0, supplier.budget - supplier.spentAmount),
+      ]),
+    );
+    const { decisions } = allocateBudget(filteredRows, availableBudget, supplierRemaining);
 
-    setSelectedSkus(picked);
+    setAllocation(new Map(decisions.map((decision) => [decision.sku, decision])));
+    setSelectedSkus(decisions.filter((decision) => decision.qty > 0).map((decision) => decision.sku));
     setPage(1);
   };
 
@@ -222,7 +269,7 @@ export default function Replenishment() {
 
     const perSupplier = new Map<string, { rows: typeof source; total: number }>();
     source.forEach((row) => {
-      const amount = row.recommendedQty * row.unitCost;
+      const amount = orderQty(row) * row.unitCost;
       const entry = perSupplier.get(row.supplier) ?? { rows: [], total: 0 };
       entry.rows = [...entry.rows, row];
       entry.total += amount;
@@ -237,14 +284,14 @@ export default function Replenishment() {
         lines.push(`供应商：${supplier}（小计 ${formatCurrency(entry.total)}）`);
         entry.rows.forEach((row) =>
           lines.push(
-            `- ${row.name} ${row.variant} | ${row.sku} × ${row.recommendedQty} = ${formatCurrency(row.recommendedQty * row.unitCost)} | 单位成本 ${formatCurrency(row.unitCost)}`,
+            `- ${row.name} ${row.variant} | ${row.sku} × ${orderQty(row)} = ${formatCurrency(orderQty(row) * row.unitCost)} | 单位成本 ${formatCurrency(row.unitCost)}`,
           ),
         );
       });
     } else {
       source.forEach((row) =>
         lines.push(
-          `- ${row.sku} ${row.name} · ${row.variant} | ${row.recommendedQty} 件 | 目标覆盖 ${row.targetCoverage} 天 | 金额 ${formatCurrency(row.recommendedQty * row.unitCost)}`,
+          `- ${row.sku} ${row.name} · ${row.variant} | ${orderQty(row)} 件 | 目标覆盖 ${row.targetCoverage} 天 | 金额 ${formatCurrency(orderQty(row) * row.unitCost)}`,
         ),
       );
     }
@@ -275,7 +322,12 @@ export default function Replenishment() {
               <span className={`${styles.chip} ${styles.chipPrimary}`}>
                 缺货阈值：库存覆盖 ≤ {shortageThreshold} 天
               </span>
-              <span className={styles.chip}>安全库存：{safetyDays} 天</span>
+              <span className={styles.chip}>
+                安全库存：
+                {safetyStockMethod === "statistical"
+                  ? `按需求波动计算，服务水平 ${serviceLevel}%`
+                  : `${safetyDays} 天`}
+              </span>
               <span className={styles.chip}>默认交期：{leadTimeDays} 天</span>
               <span className={styles.chip}>预测窗口：近 {historyWindowDays} 天销量</span>
               <span className={styles.chip}>只读 Shopify（不创建采购单）</span>
@@ -287,7 +339,7 @@ export default function Replenishment() {
               onClick={() =>
                 syncFetcher.submit({ intent: "sync" }, { method: "post" })
               }
-              {...(isSyncing ? { loading: true } : {})}
+              {...(isSyncing || syncJob.active ? { loading: true } : {})}
             >
               同步 Shopify 数据
             </s-button>
@@ -310,7 +362,9 @@ export default function Replenishment() {
               </div>
             </div>
           <div className={styles.summaryCard}>
-            <div className={styles.summaryLabel}>本次采购预算</div>
+            <div className={styles.summaryLabel}>
+              {budgetPlan.period === "none" ? "采购预算" : `${BUDGET_PERIOD_LABELS[budgetPlan.period]}采购预算`}
+            </div>
             <div className={styles.budgetInputWrap}>
               <span className={styles.currency}>$</span>
               <input
@@ -321,16 +375,45 @@ export default function Replenishment() {
                 onChange={(event) => setBudget(Number(event.target.value))}
               />
             </div>
-            <div className={styles.summaryMeta}>预算越紧，优先级排序越重要</div>
+            <div className={styles.summaryMeta}>
+              {budgetPlan.period === "none"
+                ? "预算越紧，优先级排序越重要"
+                : `本期已下单 ${formatCurrency(budgetPlan.spentAmount)} · 可用 ${formatCurrency(availableBudget)}`}
+            </div>
+            <div className={styles.summaryMeta}>
+              <s-button
+                size="slim"
+                variant="tertiary"
+                onClick={() =>
+                  budgetFetcher.submit({ intent: "save-budget", budget: String(budget) }, { method: "post" })
+                }
+                {...(budgetFetcher.state !== "idle" ? { loading: true } : {})}
+              >
+                保存为默认预算
+              </s-button>
+              {budgetFetcher.data?.message && ` ${budgetFetcher.data.message}`}
+            </div>
           </div>
             <div className={styles.summaryCard}>
               <div className={styles.summaryLabel}>覆盖目标</div>
               <div className={styles.summaryValue}>
                 {targetCoverageDays ?? DEFAULT_TARGET_COVERAGE} 天
               </div>
-              <div className={styles.summaryMeta}>目标 = 交期 + 安全库存</div>
+              <div className={styles.summaryMeta}>店铺默认：目标 = 交期 + 安全库存，供应商 / SKU 可单独覆盖</div>
               {syncMessage && <div className={styles.syncNote}>{syncMessage}</div>}
-              {planMessage && <div className={styles.planNote}>{planMessage}</div>}
+              {planMessage && (
+                <div className={styles.planNote}>
+                  {planMessage}
+                  {planFetcher.data?.ok && (
+                    <>
+                      {" "}
+                      <a className={styles.link} href="/app/purchase-orders">
+                        查看采购单
+                      </a>
+                    </>
+                  )}
+                </div>
+              )}
           </div>
           <div className={styles.summaryCard}>
             <div className={styles.summaryLabel}>缺失成本 SKU</div>
@@ -360,13 +443,17 @@ export default function Replenishment() {
               Location
               <select
                 className={styles.select}
-                value={locationFilter}
+                value={locationScope}
                 onChange={(event) => {
+                  const value = event.target.value;
                   setPage(1);
-                  setLocationFilter(event.target.value);
+                  setSearchParams((params) => {
+                    params.set("location", value);
+                    return params;
+                  });
                 }}
               >
-                <option value="All">All</option>
+                <option value="all">All included locations</option>
                 {locations.map((location) => (
                   <option key={location.id} value={location.id}>
                     {location.name}
@@ -393,6 +480,39 @@ export default function Replenishment() {
                 ))}
               </select>
             </label>
+            <label className={styles.filter}>
+              ABC / XYZ
+              <span className={styles.classFilters}>
+                <select
+                  className={styles.select}
+                  value={abcFilter}
+                  onChange={(event) => {
+                    setPage(1);
+                    setAbcFilter(event.target.value as typeof abcFilter);
+                  }}
+                >
+                  <option value="all">ABC 全部</option>
+                  <option value="A">A 类</option>
+                  <option value="B">B 类</option>
+                  <option value="C">C 类</option>
+                </select>
+                <select
+                  className={styles.select}
+                  value={xyzFilter}
+                  onChange={(event) => {
+                    setPage(1);
+                    setXyzFilter(event.target.value as typeof xyzFilter);
+                  }}
+                >
+                  <option value="all">XYZ 全部</option>
+                  {Object.entries(XYZ_CLASS_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {value} · {label}
+                    </option>
+                  ))}
+                </select>
+              </span>
+            </label>
           <label className={styles.filter}>
             搜索 SKU / 名称
             <input
@@ -440,7 +560,7 @@ export default function Replenishment() {
             <div>
             <div className={styles.tableTitle}>补货清单</div>
             <div className={styles.tableSubtitle}>
-              按“缺货风险 × 重要度”排序，可多选导出采购清单 · 当前 {filteredRows.length} 条 · 仅读数据
+              按预算生成时按每 $1 挽回的销售额分配数量（遵守 MOQ 与箱规），可多选导出采购清单 · 当前 {filteredRows.length} 条 · 仅读数据
             </div>
           </div>
             <div className={styles.tableActions}>
@@ -469,7 +589,7 @@ export default function Replenishment() {
               <div className={styles.selectionList}>
                 {selectedRows.slice(0, 4).map((row) => (
                   <span key={row.sku} className={styles.selectionItem}>
-                    {row.sku} · {row.recommendedQty} 件
+                    {row.sku} · {orderQty(row)} 件
                   </span>
                 ))}
                 {selectedRows.length > 4 && (
@@ -489,7 +609,8 @@ export default function Replenishment() {
                   <th onClick={() => toggleSort("available")} className={styles.sortable}>
                     可售库存 {sortKey === "available" ? (sortDir === "asc" ? "↑" : "↓") : ""}
                   </th>
-                  <th>日均销量</th>
+                  <th title="Shopify incoming + 已发送未到货的采购单，会从建议补货中扣除">在途</th>
+                  <th>预测日均销量</th>
                   <th onClick={() => toggleSort("daysOfStock")} className={styles.sortable}>
                     预计可售天数 {sortKey === "daysOfStock" ? (sortDir === "asc" ? "↑" : "↓") : ""}
                   </th>
@@ -497,6 +618,7 @@ export default function Replenishment() {
                     建议补货 {sortKey === "recommendedQty" ? (sortDir === "asc" ? "↑" : "↓") : ""}
                   </th>
                   <th>目标覆盖天数</th>
+                  <th title="再订货点 = 交期内需求 + 安全库存；库存加在途低于该值时应下单">安全库存 / 再订货点</th>
                   <th>单位成本</th>
                   <th>建议采购金额</th>
                   <th>供应商</th>
@@ -507,12 +629,14 @@ export default function Replenishment() {
                 {!isSyncing &&
                   hasRows &&
                   pageRows.map((row) => {
-                    const amount = row.recommendedQty * row.unitCost;
+                    const qty = orderQty(row);
+                    const amount = qty * row.unitCost;
+                    const decision = allocation?.get(row.sku);
                     const isCritical = row.daysOfStock <= 7;
                     const isWarning = row.daysOfStock > 7 && row.daysOfStock <= 10;
                     const severityClass = isCritical ? styles.badgeDanger : isWarning ? styles.badgeWarning : styles.badgeInfo;
 
-                    const lowSales = row.avgDailySales * 30 < MIN_SALES_FOR_FORECAST;
+                    const lowSales = !row.forecastModel && row.avgDailySales * 30 < MIN_SALES_FOR_FORECAST;
                     const note = row.note || (lowSales ? "销量不足以预测" : "");
                     const hasCost = row.unitCost > 0;
 
@@ -539,15 +663,59 @@ export default function Replenishment() {
                             </div>
                           </div>
                         </td>
-                        <td className={styles.sku}>{row.sku}</td>
+                        <td className={styles.sku}>
+                          {row.sku}
+                          {row.abcClass && (
+                            <div className={styles.productMeta}>
+                              {row.abcClass}
+                              {row.xyzClass ?? ""} 类
+                            </div>
+                          )}
+                        </td>
                         <td>{row.location}</td>
                         <td>{row.available}</td>
-                        <td>{row.avgDailySales.toFixed(1)}</td>
+                        <td>
+                          {row.incoming + row.onOrder}
+                          {row.onOrder > 0 && (
+                            <div className={styles.productMeta}>采购单 {row.onOrder}</div>
+                          )}
+                        </td>
+                        <td>
+                          {row.avgDailySales.toFixed(1)}
+                          {row.forecastModel && (
+                            <div className={styles.productMeta}>{FORECAST_MODEL_LABELS[row.forecastModel]}</div>
+                          )}
+                          {row.eventMultiplier !== undefined && (
+                            <div className={styles.productMeta}>含活动需求 ×{row.eventMultiplier}</div>
+                          )}
+                        </td>
                         <td>
                           <span className={`${styles.badge} ${severityClass}`}>{row.daysOfStock} 天</span>
                         </td>
-                        <td className={styles.emphasis}>{row.recommendedQty}</td>
-                        <td>{row.targetCoverage} 天</td>
+                        <td>
+                          <div className={styles.emphasis}>{row.recommendedQty}</div>
+                          {qty !== row.recommendedQty && (
+                            <div className={styles.productMeta}>采购 {qty} 件</div>
+                          )}
+                          {decision && <div className={styles.productMeta}>{decision.reason}</div>}
+                        </td>
+                        <td>
+                          <div>{row.targetCoverage} 天</div>
+                          <div className={styles.productMeta}>
+                            交期 {row.leadTimeDays}（{PLANNING_SOURCE_LABELS[row.leadTimeSource]}）· 安全{" "}
+                            {row.safetyDays}（{PLANNING_SOURCE_LABELS[row.safetyDaysSource]}）
+                          </div>
+                        </td>
+                        <td>
+                          <div>
+                            {row.safetyQty} / {row.reorderPoint}
+                          </div>
+                          {row.serviceLevel !== undefined && (
+                            <div className={styles.productMeta}>
+                              服务水平 {row.serviceLevel}%
+                            </div>
+                          )}
+                        </td>
                         <td>
                           {hasCost ? (
                             formatCurrency(row.unitCost)
@@ -568,14 +736,14 @@ export default function Replenishment() {
                 {isSyncing &&
                   Array.from({ length: 5 }).map((_, index) => (
                     <tr key={`skeleton-${index}`} className={styles.skeletonRow}>
-                      <td colSpan={13}>
+                      <td colSpan={15}>
                         <div className={styles.skeletonLine} />
                       </td>
                     </tr>
                   ))}
                 {!isSyncing && !hasRows && (
                   <tr>
-                    <td colSpan={13}>
+                    <td colSpan={15}>
                       <div className={styles.emptyState}>没有符合条件的 SKU，换个筛选试试</div>
                     </td>
                   </tr>
@@ -647,13 +815,19 @@ export default function Replenishment() {
               variant="primary"
               onClick={() =>
                 planFetcher.submit(
-                  { intent: "plan", skus: selectedSkus.join(",") },
+                  {
+                    intent: "plan",
+                    skus: selectedSkus.join(","),
+                    quantities: JSON.stringify(
+                      Object.fromEntries(selectedRows.map((row) => [row.sku, orderQty(row)])),
+                    ),
+                  },
                   { method: "post" },
                 )
               }
               {...(isPlanning ? { loading: true } : {})}
             >
-              确认采购优先级
+              生成采购单草稿
             </s-button>
           </div>
           {copyStatus && <div className={styles.copyStatus}>{copyStatus}</div>}
@@ -674,10 +848,13 @@ function toCsv(rows: ReplenishmentPayload["rows"]) {
     "变体",
     "Location",
     "可售库存",
+    "在途",
     "日均销量",
     "预计可售天数",
     "建议补货",
     "目标覆盖天数",
+    "安全库存",
+    "再订货点",
     "单位成本",
     "建议采购金额",
     "供应商",
@@ -699,10 +876,13 @@ function toCsv(rows: ReplenishmentPayload["rows"]) {
       row.variant,
       row.location,
       row.available,
+      row.incoming + row.onOrder,
       row.avgDailySales.toFixed(1),
       row.daysOfStock,
       row.recommendedQty,
       row.targetCoverage,
+      row.safetyQty,
+      row.reorderPoint,
       row.unitCost,
       amount,
       row.supplier,
@@ -723,6 +903,9 @@ function toCsv(rows: ReplenishmentPayload["rows"]) {
     "",
     "",
     "",
+    "",
+    "",
+    "",
     total,
     "",
     "",
@@ -734,7 +917,7 @@ function toCsv(rows: ReplenishmentPayload["rows"]) {
     supplierTotals.size === 0
       ? []
       : [
-          ["供应商小计", "", "", "", "", "", "", "", "", "", "", "", ""]
+          ["供应商小计", "", "", "", "", "", "", "", "", "", "", "", "", "", "", ""]
             .map((value) => `"${String(value).replace(/"/g, '""')}"`)
             .join(","),
           ...Array.from(supplierTotals.entries()).map(([supplier, amount]) =>
@@ -749,6 +932,9 @@ function toCsv(rows: ReplenishmentPayload["rows"]) {
               "",
               "",
               "",
+              "",
+              "",
+              "",
               amount,
               "",
               "",
@@ -8,12 +8,31 @@ import { json, useFetcher, useLoaderData } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 
 import { authenticate } from "../shopify.server";
-import { CACHE_MAX_MINUTES } from "../config/inventory";
+import {
+  ABC_BASIS_LABELS,
+  BUDGET_PERIOD_LABELS,
+  CACHE_MAX_MINUTES,
+  DIGEST_WEEKDAY_LABELS,
+  FORECAST_MODEL_LABELS,
+  MAX_SERVICE_LEVEL,
+  MIN_SERVICE_LEVEL,
+  SAFETY_STOCK_METHOD_LABELS,
+  SYNC_JOB_SCOPE_LABELS,
+  SYNC_JOB_TRIGGER_LABELS,
+} from "../config/inventory";
+import { getSyncJobHistory } from "../services/inventory.jobs.server";
+import { sendSlackTest } from "../services/inventory.notifications.server";
 import { getSettingsData, saveSettings } from "../services/inventory.settings.server";
 import { logSyncEvent } from "../services/inventory.sync.server";
-import type { SettingsPayload } from "../services/inventory.types";
+import type { AbcClass, ClassPolicy, SettingsPayload } from "../services/inventory.types";
 import type { FieldErrors } from "../types/errors";
-import { parseSettings, type SettingsField, type SettingsForm } from "../validation/settings";
+import { describeSyncJob } from "../utils/sync-job";
+import {
+  parseSettings,
+  parseSlackWebhook,
+  type SettingsField,
+  type SettingsForm,
+} from "../validation/settings";
 import styles from "./app.settings.module.css";
 
 type SettingsActionResponse = {
@@ -26,13 +45,25 @@ type SettingsActionResponse = {
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
-  return getSettingsData(admin, session.shop);
+  return {
+    ...(await getSettingsData(admin, session.shop)),
+    syncJobs: await getSyncJobHistory(session.shop),
+  };
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const data = await request.formData();
 
+  if (data.get("intent") === "slack-test") {
+    const webhook = parseSlackWebhook(data);
+    if (!webhook.success) {
+      return json<SettingsActionResponse>({ ok: false, message: webhook.message }, { status: 400 });
+    }
+    const result = await sendSlackTest(admin, session.shop, webhook.data);
+    return json<SettingsActionResponse>(result, { status: result.ok ? 200 : 502 });
+  }
+
   const parsed = parseSettings(data);
   if (!parsed.success) {
     return json<SettingsActionResponse>({ ok: false, errors: parsed.errors }, { status: 400 });
@@ -58,6 +89,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 export default function Settings() {
   const initial = useLoaderData<typeof loader>();
   const saveFetcher = useFetcher<typeof action>();
+  const slackTestFetcher = useFetcher<typeof action>();
 
   const [locations, setLocations] = useState(initial.locations);
   const [historyWindow, setHistoryWindow] = useState(initial.historyWindow);
@@ -68,11 +100,21 @@ export default function Settings() {
   const [leadTime, setLeadTime] = useState(initial.leadTime);
   const [digestFrequency, setDigestFrequency] = useState(initial.digestFrequency);
   const [digestSendHour, setDigestSendHour] = useState(initial.digestSendHour);
+  const [digestWeekday, setDigestWeekday] = useState(initial.digestWeekday);
   const [digestDailyEnabled, setDigestDailyEnabled] = useState(initial.digestDailyEnabled);
   const [digestWeeklyEnabled, setDigestWeeklyEnabled] = useState(initial.digestWeeklyEnabled);
   const [emailRecipients, setEmailRecipients] = useState(initial.emailRecipients);
   const [slackWebhook, setSlackWebhook] = useState(initial.slackWebhook);
   const [slackEnabled, setSlackEnabled] = useState(initial.slackEnabled);
+  const [purchaseBudget, setPurchaseBudget] = useState(initial.purchaseBudget);
+  const [budgetPeriod, setBudgetPeriod] = useState(initial.budgetPeriod);
+  const [forecastModel, setForecastModel] = useState(initial.forecastModel);
+  const [safetyStockMethod, setSafetyStockMethod] = useState(initial.safetyStockMethod);
+  const [serviceLevel, setServiceLevel] = useState(initial.serviceLevel);
+  const [leadTimeStdDays, setLeadTimeStdDays] = useState(initial.leadTimeStdDays);
+  const [abcBasis, setAbcBasis] = useState(initial.abcBasis);
+  const [classPolicies, setClassPolicies] = useState(initial.classPolicies);
+  const [nightlySyncHour, setNightlySyncHour] = useState(initial.nightlySyncHour);
   const isSaving = saveFetcher.state !== "idle";
   const [saveMessage, setSaveMessage] = useState<string | null>(null);
   const errors = saveFetcher.data?.errors ?? {};
@@ -97,14 +139,42 @@ export default function Settings() {
       setLeadTime(saved.leadTime);
       setDigestFrequency(saved.digestFrequency);
       setDigestSendHour(saved.digestSendHour);
+      setDigestWeekday(saved.digestWeekday);
       setDigestDailyEnabled(saved.digestDailyEnabled);
       setDigestWeeklyEnabled(saved.digestWeeklyEnabled);
       setEmailRecipients(saved.emailRecipients);
       setSlackWebhook(saved.slackWebhook);
       setSlackEnabled(saved.slackEnabled);
+      setPurchaseBudget(saved.purchaseBudget);
+      setBudgetPeriod(saved.budgetPeriod);
+      setForecastModel(saved.forecastModel);
+      setSafetyStockMethod(saved.safetyStockMethod);
+      setServiceLevel(saved.serviceLevel);
+      setLeadTimeStdDays(saved.leadTimeStdDays);
+      setAbcBasis(saved.abcBasis);
+      setClassPolicies(saved.classPolicies);
+      setNightlySyncHour(saved.nightlySyncHour);
     }
   }, [saveFetcher.data]);
 
+  const setClassPolicy = (abcClass: AbcClass, field: keyof ClassPolicy, value: string) => {
+    setClassPolicies((current) => {
+      const policy = { ...current[abcClass] };
+      if (value === "") {
+        delete policy[field];
+      } else {
+        policy[field] = Number(value);
+      }
+      const next = { ...current };
+      if (Object.keys(policy).length === 0) {
+        delete next[abcClass];
+      } else {
+        next[abcClass] = policy;
+      }
+      return next;
+    });
+  };
+
   const toggleLocation = (id: string) => {
     setLocations((current) =>
       current.map((loc) =>
@@ -123,11 +193,21 @@ export default function Settings() {
       leadTime: String(leadTime),
       digestFrequency,
       digestSendHour: String(digestSendHour),
+      digestWeekday: String(digestWeekday),
       digestDailyEnabled: String(digestDailyEnabled),
       digestWeeklyEnabled: String(digestWeeklyEnabled),
       emailRecipients,
       slackWebhook,
       slackEnabled: String(slackEnabled),
+      purchaseBudget: String(purchaseBudget),
+      budgetPeriod,
+      forecastModel,
+      safetyStockMethod,
+      serviceLevel: String(serviceLevel),
+      leadTimeStdDays: String(leadTimeStdDays),
+      abcBasis,
+      nightlySyncHour: String(nightlySyncHour),
+      classPolicies: JSON.stringify(classPolicies),
       locations: JSON.stringify(locations.map((loc) => ({ id: loc.id, selected: loc.selected }))),
     };
     saveFetcher.submit(formData, { method: "post" });
@@ -143,11 +223,21 @@ export default function Settings() {
     setLeadTime(initial.leadTime);
     setDigestFrequency(initial.digestFrequency);
     setDigestSendHour(initial.digestSendHour);
+    setDigestWeekday(initial.digestWeekday);
     setDigestDailyEnabled(initial.digestDailyEnabled);
     setDigestWeeklyEnabled(initial.digestWeeklyEnabled);
     setEmailRecipients(initial.emailRecipients);
     setSlackWebhook(initial.slackWebhook);
     setSlackEnabled(initial.slackEnabled);
+    setPurchaseBudget(initial.purchaseBudget);
+    setBudgetPeriod(initial.budgetPeriod);
+    setForecastModel(initial.forecastModel);
+    setSafetyStockMethod(initial.safetyStockMethod);
+    setServiceLevel(initial.serviceLevel);
+    setLeadTimeStdDays(initial.leadTimeStdDays);
+    setAbcBasis(initial.abcBasis);
+    setClassPolicies(initial.classPolicies);
+    setNightlySyncHour(initial.nightlySyncHour);
     setSaveMessage(null);
   };
 
@@ -227,6 +317,23 @@ export default function Settings() {
                   <option>90 天</option>
                 </select>
               </label>
+              <label className={styles.field}>
+                需求预测模型
+                <select
+                  className={styles.select}
+                  value={forecastModel}
+                  onChange={(event) => setForecastModel(event.target.value as typeof forecastModel)}
+                >
+                  {Object.entries(FORECAST_MODEL_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <span className={styles.helpText}>
+                  自动模式按 SKU 回测最近 14 天误差，选择移动平均、Holt、Holt-Winters 或 Croston 中最准的模型。
+                </span>
+              </label>
               <label className={styles.field}>
                 缺货阈值（覆盖天数）
                 <input
@@ -279,6 +386,119 @@ export default function Settings() {
                   <span className={styles.fieldError}>{errors.safetyDays}</span>
                 )}
               </label>
+              <label className={styles.field}>
+                安全库存算法
+                <select
+                  className={styles.select}
+                  value={safetyStockMethod}
+                  onChange={(event) => setSafetyStockMethod(event.target.value as typeof safetyStockMethod)}
+                >
+                  {Object.entries(SAFETY_STOCK_METHOD_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <span className={styles.helpText}>
+                  按需求波动计算时：安全库存 = z × √(交期 × 日需求方差 + 日均需求² × 交期方差)，z 由服务水平决定，不再使用安全库存天数。
+                </span>
+              </label>
+              {safetyStockMethod === "statistical" && (
+                <>
+                  <label className={styles.field}>
+                    目标服务水平（%）
+                    <input
+                      className={styles.input}
+                      type="number"
+                      min={MIN_SERVICE_LEVEL}
+                      max={MAX_SERVICE_LEVEL}
+                      step={0.1}
+                      value={serviceLevel}
+                      aria-invalid={Boolean(errors.serviceLevel)}
+                      onChange={(event) => setServiceLevel(Number(event.target.value))}
+                    />
+                    {errors.serviceLevel && (
+                      <span className={styles.fieldError}>{errors.serviceLevel}</span>
+                    )}
+                  </label>
+                  <label className={styles.field}>
+                    交期波动（标准差，天）
+                    <input
+                      className={styles.input}
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={leadTimeStdDays}
+                      aria-invalid={Boolean(errors.leadTimeStdDays)}
+                      onChange={(event) => setLeadTimeStdDays(Number(event.target.value))}
+                    />
+                    <span className={styles.helpText}>供应商已有 3 张以上已到货采购单时，改用其实际交期波动。</span>
+                    {errors.leadTimeStdDays && (
+                      <span className={styles.fieldError}>{errors.leadTimeStdDays}</span>
+                    )}
+                  </label>
+                </>
+              )}
+              <label className={styles.field}>
+                ABC 分类依据
+                <select
+                  className={styles.select}
+                  value={abcBasis}
+                  onChange={(event) => setAbcBasis(event.target.value as typeof abcBasis)}
+                >
+                  {Object.entries(ABC_BASIS_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <span className={styles.helpText}>
+                  每次同步按近 90 天累计占比划分：A 类占前 80%，B 类其后 15%，其余为 C 类；XYZ 按周销量波动划分。
+                </span>
+              </label>
+              <div className={styles.field}>
+                按 ABC 分类的策略
+                {(["A", "B", "C"] as AbcClass[]).map((abcClass) => (
+                  <div key={abcClass} className={styles.inlineInputs}>
+                    <span>{abcClass} 类</span>
+                    {safetyStockMethod === "statistical" && (
+                      <input
+                        className={styles.input}
+                        type="number"
+                        min={MIN_SERVICE_LEVEL}
+                        max={MAX_SERVICE_LEVEL}
+                        step={0.1}
+                        placeholder={`服务水平 ${serviceLevel}%`}
+                        aria-label={`${abcClass} 类服务水平`}
+                        value={classPolicies[abcClass]?.serviceLevel ?? ""}
+                        onChange={(event) => setClassPolicy(abcClass, "serviceLevel", event.target.value)}
+                      />
+                    )}
+                    <input
+                      className={styles.input}
+                      type="number"
+                      min={0}
+                      placeholder={`缺货阈值 ${shortageThreshold} 天`}
+                      aria-label={`${abcClass} 类缺货阈值`}
+                      value={classPolicies[abcClass]?.shortageThreshold ?? ""}
+                      onChange={(event) => setClassPolicy(abcClass, "shortageThreshold", event.target.value)}
+                    />
+                    <input
+                      className={styles.input}
+                      type="number"
+                      min={0}
+                      placeholder={`过量阈值 ${overstockThreshold} 天`}
+                      aria-label={`${abcClass} 类过量阈值`}
+                      value={classPolicies[abcClass]?.overstockThreshold ?? ""}
+                      onChange={(event) => setClassPolicy(abcClass, "overstockThreshold", event.target.value)}
+                    />
+                  </div>
+                ))}
+                <span className={styles.helpText}>留空则使用店铺级设置。</span>
+                {errors.classPolicies && (
+                  <span className={styles.fieldError}>{errors.classPolicies}</span>
+                )}
+              </div>
               <label className={styles.field}>
                 默认供应商交期（天）
                 <input
@@ -290,10 +510,41 @@ export default function Settings() {
                 />
                 {errors.leadTime && <span className={styles.fieldError}>{errors.leadTime}</span>}
               </label>
+              <label className={styles.field}>
+                采购预算（$）
+                <input
+                  className={styles.input}
+                  type="number"
+                  min={0}
+                  value={purchaseBudget}
+                  aria-invalid={Boolean(errors.purchaseBudget)}
+                  onChange={(event) => setPurchaseBudget(Number(event.target.value))}
+                />
+                {errors.purchaseBudget && (
+                  <span className={styles.fieldError}>{errors.purchaseBudget}</span>
+                )}
+              </label>
+              <label className={styles.field}>
+                预算周期
+                <select
+                  className={styles.select}
+                  value={budgetPeriod}
+                  onChange={(event) => setBudgetPeriod(event.target.value as typeof budgetPeriod)}
+                >
+                  {Object.entries(BUDGET_PERIOD_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <span className={styles.helpText}>
+                  按周期时，本期已发送采购单的金额会从预算中扣除；供应商预算在供应商页面设置。
+                </span>
+              </label>
               <div className={styles.field}>
                 计算说明
                 <p className={styles.helpText}>
-                  目标库存 = 日均销量 × (交期 + 安全库存)，推荐补货 = max(0, 目标库存 - 当前可售库存)。缺货阈值：覆盖天数 ≤
+                  目标库存 = 预测日均销量 × (交期 + 安全库存)，推荐补货 = max(0, 目标库存 - 当前可售库存)。缺货阈值：覆盖天数 ≤
                   {shortageThreshold}；过量阈值：覆盖天数 ≥ {overstockThreshold}（轻微过量从 {mildOverstockThreshold} 天开始）。
                 </p>
               </div>
@@ -319,7 +570,7 @@ export default function Settings() {
                   onChange={(event) => setDigestFrequency(event.target.value)}
                 >
                   <option value="daily">每日</option>
-                  <option value="weekly">每周一</option>
+                  <option value="weekly">每周</option>
                   <option value="off">不发送</option>
                 </select>
                 <div className={styles.checkboxGroup}>
@@ -355,7 +606,27 @@ export default function Settings() {
                 {errors.digestSendHour && (
                   <span className={styles.fieldError}>{errors.digestSendHour}</span>
                 )}
-                <span className={styles.helpText}>本地时区整点，例如 9 = 上午 9:00</span>
+                <span className={styles.helpText}>
+                  店铺时区（{initial.timezone}）整点，例如 9 = 上午 9:00；停机后补发最近一期
+                </span>
+              </label>
+              <label className={styles.field}>
+                每周发送日
+                <select
+                  className={styles.select}
+                  value={digestWeekday}
+                  aria-invalid={Boolean(errors.digestWeekday)}
+                  onChange={(event) => setDigestWeekday(Number(event.target.value))}
+                >
+                  {DIGEST_WEEKDAY_LABELS.map((label, index) => (
+                    <option key={label} value={index}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                {errors.digestWeekday && (
+                  <span className={styles.fieldError}>{errors.digestWeekday}</span>
+                )}
               </label>
               <label className={styles.field}>
                 邮件收件人
@@ -366,6 +637,9 @@ export default function Settings() {
                   onChange={(event) => setEmailRecipients(event.target.value)}
                 />
                 <span className={styles.helpText}>逗号分隔多个邮箱</span>
+                {errors.emailRecipients && (
+                  <span className={styles.fieldError}>{errors.emailRecipients}</span>
+                )}
               </label>
               <label className={styles.field}>
                 Slack Webhook
@@ -384,6 +658,26 @@ export default function Settings() {
                   />
                   <span>启用 Slack 推送</span>
                 </label>
+                {errors.slackWebhook && (
+                  <span className={styles.fieldError}>{errors.slackWebhook}</span>
+                )}
+                <div>
+                  <s-button
+                    size="slim"
+                    variant="tertiary"
+                    onClick={() =>
+                      slackTestFetcher.submit({ intent: "slack-test", slackWebhook }, { method: "post" })
+                    }
+                    {...(slackTestFetcher.state !== "idle" ? { loading: true } : {})}
+                  >
+                    发送测试消息
+                  </s-button>
+                </div>
+                {slackTestFetcher.data?.message && (
+                  <span className={slackTestFetcher.data.ok ? styles.helpText : styles.fieldError}>
+                    {slackTestFetcher.data.message}
+                  </span>
+                )}
               </label>
               <div className={styles.field}>
                 报告内容
@@ -435,14 +729,52 @@ export default function Settings() {
                   <div className={styles.healthMeta}>
                     {initial.lastCalculated} · {initial.lastWebhook}
                   </div>
-                  {initial.lastWebhook?.includes("尚无同步记录") && (
-                    <div className={styles.healthHint}>提示：手动同步一次库存/订单，便于后续显示最新状态</div>
+                  {initial.lastWebhook?.includes("尚未收到 Webhook") && (
+                    <div className={styles.healthHint}>提示：店铺产生订单或库存变动后，Webhook 会推送到这里</div>
                   )}
                 </div>
                 <s-button variant="tertiary" size="slim">
                   查看日志
                 </s-button>
               </div>
+              <div className={styles.healthRow}>
+                <div>
+                  <div className={styles.healthTitle}>夜间全量同步</div>
+                  <div className={styles.healthMeta}>
+                    每天店铺时区（{initial.timezone}）该整点后重新读取订单、库存并重算指标
+                  </div>
+                  {errors.nightlySyncHour && (
+                    <span className={styles.fieldError}>{errors.nightlySyncHour}</span>
+                  )}
+                </div>
+                <input
+                  className={`${styles.input} ${styles.hourInput}`}
+                  type="number"
+                  min={0}
+                  max={23}
+                  value={nightlySyncHour}
+                  aria-invalid={Boolean(errors.nightlySyncHour)}
+                  aria-label="夜间同步时间（整点）"
+                  onChange={(event) => setNightlySyncHour(Number(event.target.value))}
+                />
+              </div>
+              <div className={styles.healthTitle}>后台任务记录</div>
+              {initial.syncJobs.length === 0 && (
+                <div className={styles.healthMeta}>尚无后台任务</div>
+              )}
+              {initial.syncJobs.map((job) => (
+                <div key={job.id} className={styles.healthRow}>
+                  <div>
+                    <div className={styles.healthTitle}>
+                      {SYNC_JOB_TRIGGER_LABELS[job.trigger]} · {SYNC_JOB_SCOPE_LABELS[job.scope] ?? job.scope}
+                    </div>
+                    <div className={styles.healthMeta}>{describeSyncJob(job)}</div>
+                  </div>
+                  <span className={styles.healthMeta}>
+                    {new Date(job.finishedAt ?? job.startedAt ?? job.createdAt).toLocaleString()}
+                  </span>
+                </div>
+              ))}
             </div>
           </section>
         </div>
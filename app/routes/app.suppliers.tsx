@@ -0,0 +1,629 @@
+import { useEffect, useMemo, useState, type ChangeEvent } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { data, useFetcher, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import { UNASSIGNED_SUPPLIER_LABEL } from "../config/inventory";
+import {
+  assignSupplier,
+  deleteSupplier,
+  getSuppliersData,
+  importSupplierAssignments,
+  saveSkuPlanning,
+  saveSupplier,
+} from "../services/inventory.suppliers.server";
+import { logSyncEvent } from "../services/inventory.sync.server";
+import type { SupplierRecord } from "../services/inventory.types";
+import type { FieldErrors } from "../types/errors";
+import {
+  parseSkuPlanning,
+  parseSupplier,
+  parseSupplierCsv,
+  type SupplierField,
+} from "../validation/suppliers";
+import styles from "./app.suppliers.module.css";
+
+type SuppliersActionResponse = {
+  ok: boolean;
+  intent?: string;
+  message?: string;
+  errors?: FieldErrors<SupplierField>;
+  importErrors?: string[];
+};
+
+type SupplierDraft = {
+  id?: string;
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  currency: string;
+  leadTimeDays: string;
+  safetyDays: string;
+  moq: string;
+  budget: string;
+};
+
+const emptyDraft: SupplierDraft = {
+  name: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  currency: "USD",
+  leadTimeDays: "",
+  safetyDays: "",
+  moq: "",
+  budget: "",
+};
+
+const toDraft = (supplier: SupplierRecord): SupplierDraft => ({
+  id: supplier.id,
+  name: supplier.name,
+  contactName: supplier.contactName,
+  email: supplier.email,
+  phone: supplier.phone,
+  currency: supplier.currency,
+  leadTimeDays: supplier.leadTimeDays === undefined ? "" : String(supplier.leadTimeDays),
+  safetyDays: supplier.safetyDays === undefined ? "" : String(supplier.safetyDays),
+  moq: supplier.moq === undefined ? "" : String(supplier.moq),
+  budget: supplier.budget === undefined ? "" : String(supplier.budget),
+});
+
+const CSV_TEMPLATE = "sku,supplier,contact,email,currency,lead_time_days,safety_days,moq";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  return getSuppliersData(session.shop);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string | null;
+
+  if (intent === "save-supplier") {
+    const parsed = parseSupplier(formData);
+    if (!parsed.success) {
+      return data<SuppliersActionResponse>({ ok: false, intent, errors: parsed.errors }, { status: 400 });
+    }
+    const saved = await saveSupplier(session.shop, parsed.data);
+    if (!saved) {
+      return data<SuppliersActionResponse>(
+        { ok: false, intent, errors: { name: `供应商「${parsed.data.name}」已存在` } },
+        { status: 400 },
+      );
+    }
+    await logSyncEvent(session.shop, "suppliers", "success", `保存供应商：${parsed.data.name}`);
+    return data<SuppliersActionResponse>({ ok: true, intent, message: "供应商已保存" });
+  }
+
+  if (intent === "delete-supplier") {
+    const id = (formData.get("id") as string) ?? "";
+    await deleteSupplier(session.shop, id);
+    await logSyncEvent(session.shop, "suppliers", "success", `删除供应商 ${id}`);
+    return data<SuppliersActionResponse>({
+      ok: true,
+      intent,
+      message: "供应商已删除，相关 SKU 已改为未分配",
+    });
+  }
+
+  if (intent === "assign") {
+    const sku = ((formData.get("sku") as string) ?? "").trim();
+    const supplierId = (formData.get("supplierId") as string) || null;
+    if (!sku || !(await assignSupplier(session.shop, sku, supplierId))) {
+      return data<SuppliersActionResponse>({ ok: false, intent, message: "供应商不存在" }, { status: 400 });
+    }
+    return data<SuppliersActionResponse>({ ok: true, intent, message: `${sku} 已更新供应商` });
+  }
+
+  if (intent === "sku-planning") {
+    const parsed = parseSkuPlanning(formData);
+    if (!parsed.success) {
+      return data<SuppliersActionResponse>({ ok: false, intent, message: parsed.message }, { status: 400 });
+    }
+    await saveSkuPlanning(session.shop, parsed.data);
+    return data<SuppliersActionResponse>({
+      ok: true,
+      intent,
+      message: `${parsed.data.sku} 的交期 / 安全库存已更新`,
+    });
+  }
+
+  if (intent === "import") {
+    const { rows, errors } = parseSupplierCsv((formData.get("csv") as string) ?? "");
+    if (rows.length === 0) {
+      return data<SuppliersActionResponse>(
+        { ok: false, intent, message: "没有可导入的行", importErrors: errors },
+        { status: 400 },
+      );
+    }
+    const result = await importSupplierAssignments(session.shop, rows);
+    await logSyncEvent(
+      session.shop,
+      "suppliers",
+      errors.length ? "failure" : "success",
+      `CSV 导入 ${result.assigned} 个 SKU，新建 ${result.createdSuppliers} 个供应商，跳过 ${errors.length} 行`,
+    );
+    return data<SuppliersActionResponse>({
+      ok: true,
+      intent,
+      message: `已导入 ${result.assigned} 个 SKU，新建 ${result.createdSuppliers} 个供应商${
+        errors.length ? `，跳过 ${errors.length} 行` : ""
+      }`,
+      importErrors: errors,
+    });
+  }
+
+  return data<SuppliersActionResponse>({ ok: false, message: "未知操作" }, { status: 400 });
+};
+
+export default function Suppliers() {
+  const { suppliers, skus, unassignedCount, defaultLeadTimeDays, defaultSafetyDays } =
+    useLoaderData<typeof loader>();
+  const supplierFetcher = useFetcher<typeof action>();
+  const assignFetcher = useFetcher<typeof action>();
+  const importFetcher = useFetcher<typeof action>();
+
+  const [draft, setDraft] = useState<SupplierDraft>(emptyDraft);
+  const [csvText, setCsvText] = useState("");
+  const [search, setSearch] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const errors = supplierFetcher.data?.errors ?? {};
+  const importErrors = importFetcher.data?.importErrors ?? [];
+  const isSaving = supplierFetcher.state !== "idle";
+  const isImporting = importFetcher.state !== "idle";
+
+  useEffect(() => {
+    const data = supplierFetcher.data;
+    if (data?.ok && data.intent === "save-supplier") {
+      setDraft(emptyDraft);
+    }
+  }, [supplierFetcher.data]);
+
+  useEffect(() => {
+    const data = importFetcher.data;
+    if (data?.ok) {
+      setCsvText("");
+    }
+  }, [importFetcher.data]);
+
+  useEffect(() => {
+    if (supplierFetcher.data?.message) setMessage(supplierFetcher.data.message);
+  }, [supplierFetcher.data]);
+
+  useEffect(() => {
+    if (assignFetcher.data?.message) setMessage(assignFetcher.data.message);
+  }, [assignFetcher.data]);
+
+  useEffect(() => {
+    if (importFetcher.data?.message) setMessage(importFetcher.data.message);
+  }, [importFetcher.data]);
+
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(() => setMessage(null), 5000);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  const filteredSkus = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return skus;
+    return skus.filter(
+      (row) =>
+        row.sku.toLowerCase().includes(term) ||
+        row.name.toLowerCase().includes(term) ||
+        row.variant.toLowerCase().includes(term),
+    );
+  }, [skus, search]);
+
+  const updateDraft = (field: keyof SupplierDraft) => (event: ChangeEvent<HTMLInputElement>) =>
+    setDraft((current) => ({ ...current, [field]: event.target.value }));
+
+  const handleSave = () => {
+    supplierFetcher.submit(
+      { intent: "save-supplier", ...draft, id: draft.id ?? "" },
+      { method: "post" },
+    );
+  };
+
+  const handleDelete = (supplier: SupplierRecord) => {
+    if (!window.confirm(`删除供应商「${supplier.name}」？已分配的 ${supplier.skuCount} 个 SKU 将变为未分配。`)) {
+      return;
+    }
+    supplierFetcher.submit({ intent: "delete-supplier", id: supplier.id }, { method: "post" });
+  };
+
+  const handleAssign = (sku: string, supplierId: string) => {
+    assignFetcher.submit({ intent: "assign", sku, supplierId }, { method: "post" });
+  };
+
+  const handlePlanning = (
+    row: {
+      sku: string;
+      leadTimeDays?: number;
+      safetyDays?: number;
+      moq?: number;
+      casePack?: number;
+    },
+    field: "leadTimeDays" | "safetyDays" | "moq" | "casePack",
+    value: string,
+  ) => {
+    const asValue = (current?: number) => (current === undefined ? "" : String(current));
+    if (value.trim() === asValue(row[field])) return;
+    assignFetcher.submit(
+      {
+        intent: "sku-planning",
+        sku: row.sku,
+        leadTimeDays: asValue(row.leadTimeDays),
+        safetyDays: asValue(row.safetyDays),
+        moq: asValue(row.moq),
+        casePack: asValue(row.casePack),
+        [field]: value.trim(),
+      },
+      { method: "post" },
+    );
+  };
+
+  const supplierById = useMemo(
+    () => new Map(suppliers.map((supplier) => [supplier.id, supplier])),
+    [suppliers],
+  );
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setCsvText(String(reader.result ?? ""));
+    reader.readAsText(file);
+  };
+
+  const handleImport = () => {
+    importFetcher.submit({ intent: "import", csv: csvText }, { method: "post" });
+  };
+
+  return (
+    <s-page className={styles.page}>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <div>
+            <h1 className={styles.heading}>供应商</h1>
+            <p className={styles.subheading}>
+              维护供应商资料（联系人、币种、默认交期、MOQ），并为每个 SKU 指定供应商。补货清单的供应商筛选和「按供应商」复制模板会使用这里的分配。
+            </p>
+            {message && <div className={styles.saveMessage}>{message}</div>}
+            {Object.keys(errors).length > 0 && (
+              <div className={styles.errorMessage}>请检查填写：{Object.values(errors).join(" · ")}</div>
+            )}
+          </div>
+        </div>
+
+        <div className={styles.grid}>
+          <section className={styles.card}>
+            <div className={styles.cardHeader}>
+              <div>
+                <div className={styles.cardTitle}>{draft.id ? "编辑供应商" : "新增供应商"}</div>
+                <div className={styles.cardSubtitle}>
+                  名称在店铺内唯一；交期 / 安全库存留空则使用店铺默认（{defaultLeadTimeDays} / {defaultSafetyDays} 天）
+                </div>
+              </div>
+            </div>
+            <div className={styles.formGrid}>
+              <label className={styles.field}>
+                名称
+                <input
+                  className={styles.input}
+                  value={draft.name}
+                  aria-invalid={Boolean(errors.name)}
+                  onChange={updateDraft("name")}
+                />
+                {errors.name && <span className={styles.fieldError}>{errors.name}</span>}
+              </label>
+              <label className={styles.field}>
+                联系人
+                <input className={styles.input} value={draft.contactName} onChange={updateDraft("contactName")} />
+              </label>
+              <label className={styles.field}>
+                邮箱
+                <input
+                  className={styles.input}
+                  type="email"
+                  value={draft.email}
+                  aria-invalid={Boolean(errors.email)}
+                  onChange={updateDraft("email")}
+                />
+                {errors.email && <span className={styles.fieldError}>{errors.email}</span>}
+              </label>
+              <label className={styles.field}>
+                电话
+                <input className={styles.input} value={draft.phone} onChange={updateDraft("phone")} />
+              </label>
+              <label className={styles.field}>
+                币种
+                <input
+                  className={styles.input}
+                  value={draft.currency}
+                  maxLength={3}
+                  aria-invalid={Boolean(errors.currency)}
+                  onChange={updateDraft("currency")}
+                />
+                {errors.currency && <span className={styles.fieldError}>{errors.currency}</span>}
+              </label>
+              <label className={styles.field}>
+                默认交期（天）
+                <input
+                  className={styles.input}
+                  type="number"
+                  min={0}
+                  value={draft.leadTimeDays}
+                  aria-invalid={Boolean(errors.leadTimeDays)}
+                  onChange={updateDraft("leadTimeDays")}
+                />
+                {errors.leadTimeDays && <span className={styles.fieldError}>{errors.leadTimeDays}</span>}
+              </label>
+              <label className={styles.field}>
+                安全库存天数
+                <input
+                  className={styles.input}
+                  type="number"
+                  min={0}
+                  value={draft.safetyDays}
+                  aria-invalid={Boolean(errors.safetyDays)}
+                  onChange={updateDraft("safetyDays")}
+                />
+                {errors.safetyDays && <span className={styles.fieldError}>{errors.safetyDays}</span>}
+              </label>
+              <label className={styles.field}>
+                MOQ
+                <input
+                  className={styles.input}
+                  type="number"
+                  min={1}
+                  value={draft.moq}
+                  aria-invalid={Boolean(errors.moq)}
+                  onChange={updateDraft("moq")}
+                />
+                {errors.moq && <span className={styles.fieldError}>{errors.moq}</span>}
+              </label>
+              <label className={styles.field}>
+                周期预算（$，可选）
+                <input
+                  className={styles.input}
+                  type="number"
+                  min={0}
+                  value={draft.budget}
+                  aria-invalid={Boolean(errors.budget)}
+                  onChange={updateDraft("budget")}
+                />
+                {errors.budget && <span className={styles.fieldError}>{errors.budget}</span>}
+              </label>
+            </div>
+            <div className={styles.actions}>
+              <s-button variant="primary" onClick={handleSave} {...(isSaving ? { loading: true } : {})}>
+                {draft.id ? "保存修改" : "新增供应商"}
+              </s-button>
+              {draft.id && (
+                <s-button variant="tertiary" onClick={() => setDraft(emptyDraft)}>
+                  取消编辑
+                </s-button>
+              )}
+            </div>
+          </section>
+
+          <section className={styles.card}>
+            <div className={styles.cardHeader}>
+              <div>
+                <div className={styles.cardTitle}>CSV 导入 SKU 分配</div>
+                <div className={styles.cardSubtitle}>按名称匹配供应商，不存在时自动新建</div>
+              </div>
+            </div>
+            <p className={styles.helpText}>
+              表头：<code>{CSV_TEMPLATE}</code>，其中 sku、supplier 必填。重复导入会覆盖 SKU 的现有分配。
+            </p>
+            <input type="file" accept=".csv,text/csv" onChange={handleFile} />
+            <textarea
+              className={styles.textarea}
+              value={csvText}
+              placeholder={`${CSV_TEMPLATE}\nSKU-001,Alpha Sports,Lee,lee@alpha.com,USD,21,50`}
+              onChange={(event) => setCsvText(event.target.value)}
+            />
+            {importErrors.length > 0 && (
+              <ul className={styles.errorList}>
+                {importErrors.slice(0, 10).map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+                {importErrors.length > 10 && <li>… 另有 {importErrors.length - 10} 行错误</li>}
+              </ul>
+            )}
+            <div className={styles.actions}>
+              <s-button
+                variant="primary"
+                onClick={handleImport}
+                {...(csvText.trim() ? {} : { disabled: true })}
+                {...(isImporting ? { loading: true } : {})}
+              >
+                导入
+              </s-button>
+            </div>
+          </section>
+        </div>
+
+        <section className={styles.card}>
+          <div className={styles.cardHeader}>
+            <div>
+              <div className={styles.cardTitle}>供应商列表</div>
+              <div className={styles.cardSubtitle}>共 {suppliers.length} 个供应商</div>
+            </div>
+          </div>
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>名称</th>
+                  <th>联系人</th>
+                  <th>币种</th>
+                  <th>交期（天）</th>
+                  <th>安全库存（天）</th>
+                  <th>MOQ</th>
+                  <th>周期预算</th>
+                  <th>SKU 数</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {suppliers.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className={styles.muted}>
+                      尚未添加供应商
+                    </td>
+                  </tr>
+                )}
+                {suppliers.map((supplier) => (
+                  <tr key={supplier.id}>
+                    <td>{supplier.name}</td>
+                    <td>
+                      {supplier.contactName || "—"}
+                      {supplier.email && <div className={styles.muted}>{supplier.email}</div>}
+                    </td>
+                    <td>{supplier.currency}</td>
+                    <td>{supplier.leadTimeDays ?? "—"}</td>
+                    <td>{supplier.safetyDays ?? "—"}</td>
+                    <td>{supplier.moq ?? "—"}</td>
+                    <td>{supplier.budget === undefined ? "—" : `$${supplier.budget.toLocaleString("en-US")}`}</td>
+                    <td>{supplier.skuCount}</td>
+                    <td>
+                      <div className={styles.actions}>
+                        <s-button size="slim" variant="tertiary" onClick={() => setDraft(toDraft(supplier))}>
+                          编辑
+                        </s-button>
+                        <s-button size="slim" variant="tertiary" tone="critical" onClick={() => handleDelete(supplier)}>
+                          删除
+                        </s-button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        <section className={styles.card}>
+          <div className={styles.cardHeader}>
+            <div>
+              <div className={styles.cardTitle}>SKU 供应商分配</div>
+              <div className={styles.cardSubtitle}>
+                修改后立即保存；SKU 交期 / 安全库存 / MOQ 优先于供应商设置，留空则沿用供应商或店铺默认；箱规留空按件采购
+              </div>
+            </div>
+            {unassignedCount > 0 && (
+              <span className={`${styles.chip} ${styles.chipWarning}`}>
+                {unassignedCount} 个 SKU 未分配
+              </span>
+            )}
+          </div>
+          <input
+            className={styles.input}
+            type="search"
+            placeholder="搜索 SKU / 商品名"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+          />
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>SKU</th>
+                  <th>商品</th>
+                  <th>供应商</th>
+                  <th>交期（天）</th>
+                  <th>安全库存（天）</th>
+                  <th>MOQ</th>
+                  <th>箱规（件/箱）</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredSkus.map((row) => (
+                  <tr key={row.sku}>
+                    <td>{row.sku}</td>
+                    <td>
+                      {row.name}
+                      <div className={styles.muted}>{row.variant}</div>
+                    </td>
+                    <td>
+                      <select
+                        className={styles.select}
+                        defaultValue={row.supplierId ?? ""}
+                        onChange={(event) => handleAssign(row.sku, event.target.value)}
+                      >
+                        <option value="">{UNASSIGNED_SUPPLIER_LABEL}</option>
+                        {suppliers.map((supplier) => (
+                          <option key={supplier.id} value={supplier.id}>
+                            {supplier.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      <input
+                        className={styles.input}
+                        type="number"
+                        min={0}
+                        defaultValue={row.leadTimeDays ?? ""}
+                        placeholder={String(
+                          supplierById.get(row.supplierId ?? "")?.leadTimeDays ?? defaultLeadTimeDays,
+                        )}
+                        onBlur={(event) => handlePlanning(row, "leadTimeDays", event.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        className={styles.input}
+                        type="number"
+                        min={0}
+                        defaultValue={row.safetyDays ?? ""}
+                        placeholder={String(
+                          supplierById.get(row.supplierId ?? "")?.safetyDays ?? defaultSafetyDays,
+                        )}
+                        onBlur={(event) => handlePlanning(row, "safetyDays", event.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        className={styles.input}
+                        type="number"
+                        min={1}
+                        defaultValue={row.moq ?? ""}
+                        placeholder={String(supplierById.get(row.supplierId ?? "")?.moq ?? "—")}
+                        onBlur={(event) => handlePlanning(row, "moq", event.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        className={styles.input}
+                        type="number"
+                        min={1}
+                        defaultValue={row.casePack ?? ""}
+                        placeholder="1"
+                        onBlur={(event) => handlePlanning(row, "casePack", event.target.value)}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </div>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,14 @@
+import type { LoaderFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import { getSyncJob } from "../services/inventory.jobs.server";
+
+/** Job status polled by the sync buttons while a queued sync runs. */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const job = await getSyncJob(session.shop, params.id ?? "");
+  if (!job) {
+    throw new Response("Not found", { status: 404 });
+  }
+  return job;
+};
@@ -21,6 +21,11 @@ export default function App() {
         <s-link href="/app">Dashboard</s-link>
         <s-link href="/app/replenishment">Replenishment</s-link>
         <s-link href="/app/overstock">Overstock Radar</s-link>
+        <s-link href="/app/purchase-orders">Purchase Orders</s-link>
+        <s-link href="/app/forecast-accuracy">Forecast Accuracy</s-link>
+        <s-link href="/app/demand-events">Demand Calendar</s-link>
+        <s-link href="/app/suppliers">Suppliers</s-link>
+        <s-link href="/app/bundles">Bundles</s-link>
         <s-link href="/app/settings">Settings</s-link>
       </s-app-nav>
       <Outlet />
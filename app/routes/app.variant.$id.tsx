@@ -4,18 +4,28 @@ import { boundary } from "@shopify/shopify-app-react-router/server";
 
 import { authenticate } from "../shopify.server";
 import { getVariantDetail } from "../services/inventory.digest.server";
+import { enqueueSyncIfStale } from "../services/inventory.jobs.server";
 import type { VariantDetail } from "../services/inventory.types";
 import styles from "./app.variant.$id.module.css";
 
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
   const variantId = params.id ? decodeURIComponent(params.id) : "";
+  await enqueueSyncIfStale(session.shop);
   const detail = await getVariantDetail(admin, session.shop, variantId);
   return detail;
 };
 
+const CHART_MAX_HEIGHT = 150;
+
+function barHeight(quantity: number, max: number) {
+  return Math.max(8, Math.round((quantity / Math.max(max, 1)) * CHART_MAX_HEIGHT));
+}
+
 export default function VariantDetailPage() {
   const detail = useLoaderData<typeof loader>();
+  const salesMax = Math.max(0, ...detail.salesHistory.map((point) => point.quantity));
+  const inventoryMax = Math.max(0, ...detail.inventoryHistory.map((point) => point.quantity));
 
   return (
     <s-page className={styles.page}>
@@ -47,24 +57,43 @@ export default function VariantDetailPage() {
             <div className={styles.kpiValue}>{detail.available}</div>
             <div className={styles.kpiMeta}>库存覆盖 {detail.daysOfStock} 天</div>
           </div>
+          <div className={styles.kpiCard}>
+            <div className={styles.kpiLabel}>在途库存</div>
+            <div className={styles.kpiValue}>{detail.incoming + detail.onOrder}</div>
+            <div className={styles.kpiMeta}>
+              采购单未到货 {detail.onOrder} · Shopify incoming {detail.incoming}
+            </div>
+          </div>
           <div className={styles.kpiCard}>
             <div className={styles.kpiLabel}>单位成本</div>
             <div className={styles.kpiValue}>
               {detail.unitCost ? `$${detail.unitCost.toFixed(2)}` : "未填写"}
             </div>
             <div className={styles.kpiMeta}>
-              {detail.unitCost ? `毛利率 ${detail.grossMargin ?? 0}%` : "补齐成本后可算库存金额"}
+              {!detail.unitCost
+                ? "补齐成本后可算库存金额"
+                : detail.grossMargin !== undefined
+                  ? `毛利率 ${detail.grossMargin.toFixed(0)}%`
+                  : "售价未同步，暂无毛利率"}
             </div>
           </div>
           <div className={styles.kpiCard}>
             <div className={styles.kpiLabel}>日均销量</div>
             <div className={styles.kpiValue}>{detail.avgDailySales["30d"].toFixed(1)}</div>
-            <div className={styles.kpiMeta}>30 / 60 / 90 天对比</div>
+            <div className={styles.kpiMeta}>30 / 60 / 90 天对比 · 缺货日已按有货日补齐</div>
           </div>
           <div className={styles.kpiCard}>
             <div className={styles.kpiLabel}>历史缺货天数</div>
             <div className={styles.kpiValue}>{detail.historicalStockouts}</div>
-            <div className={styles.kpiMeta}>最近 90 天</div>
+            <div className={styles.kpiMeta}>最近 90 天库存快照为 0 的天数</div>
+          </div>
+          <div className={styles.kpiCard}>
+            <div className={styles.kpiLabel}>缺货损失估算</div>
+            <div className={styles.kpiValue}>{detail.lostSales.units} 件</div>
+            <div className={styles.kpiMeta}>
+              近 30 天缺货 {detail.lostSales.stockoutDays} 天
+              {detail.lostSales.revenue !== undefined && ` · 约 $${detail.lostSales.revenue.toFixed(0)}`}
+            </div>
           </div>
           <div className={styles.kpiCard}>
             <div className={styles.kpiLabel}>覆盖天数 (60 / 90)</div>
@@ -79,7 +108,7 @@ export default function VariantDetailPage() {
           <div className={styles.card}>
             <div className={styles.cardHeader}>
               <div className={styles.cardTitle}>销量趋势（最近 14 天）</div>
-              <span className={styles.chip}>按发货量</span>
+              <span className={styles.chip}>按已付款订单</span>
             </div>
             {detail.salesHistory.length === 0 ? (
               <div className={styles.emptyChart}>暂无销量数据</div>
@@ -89,10 +118,11 @@ export default function VariantDetailPage() {
                   <div key={point.date} className={styles.barWrapper}>
                     <div
                       className={styles.bar}
-                      style={{ height: `${Math.max(8, point.quantity * 4)}px` }}
+                      style={{ height: `${barHeight(point.quantity, salesMax)}px` }}
                       aria-label={`${point.date}: ${point.quantity}`}
                     />
                     <span className={styles.barLabel}>{point.quantity}</span>
+                    <span className={styles.barDate}>{point.date}</span>
                   </div>
                 ))}
               </div>
@@ -112,10 +142,11 @@ export default function VariantDetailPage() {
                   <div key={point.date} className={styles.barWrapper}>
                     <div
                       className={`${styles.bar} ${styles.barSecondary}`}
-                      style={{ height: `${Math.max(8, point.quantity * 3)}px` }}
+                      style={{ height: `${barHeight(point.quantity, inventoryMax)}px` }}
                       aria-label={`${point.date}: ${point.quantity}`}
                     />
                     <span className={styles.barLabel}>{point.quantity}</span>
+                    <span className={styles.barDate}>{point.date}</span>
                   </div>
                 ))}
               </div>
@@ -123,6 +154,41 @@ export default function VariantDetailPage() {
           </div>
         </section>
 
+        <section className={styles.card}>
+          <div className={styles.cardHeader}>
+            <div>
+              <div className={styles.cardTitle}>分地点库存</div>
+              <div className={styles.cardSubtitle}>按履约地点拆分的可售库存、近 30 天日均销量与覆盖天数</div>
+            </div>
+          </div>
+          {detail.locationBreakdown.length === 0 ? (
+            <div className={styles.emptyChart}>暂无分地点库存数据</div>
+          ) : (
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>地点</th>
+                  <th>可售库存</th>
+                  <th>在途（Shopify）</th>
+                  <th>日均销量</th>
+                  <th>覆盖天数</th>
+                </tr>
+              </thead>
+              <tbody>
+                {detail.locationBreakdown.map((location) => (
+                  <tr key={location.locationId}>
+                    <td>{location.name}</td>
+                    <td>{location.available}</td>
+                    <td>{location.incoming}</td>
+                    <td>{location.avgDailySales.toFixed(1)}</td>
+                    <td>{location.coverageDays} 天</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
         <section className={styles.card}>
             <div className={styles.cardHeader}>
               <div>
@@ -1,6 +1,7 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { cancelSyncJobs } from "../services/inventory.jobs.server";
 import { logEvent } from "../services/logger.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -18,6 +19,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     if (session) {
       await db.session.deleteMany({ where: { shop } });
     }
+    // Without an offline session the worker cannot run them; the nightly scheduler skips the shop too.
+    await cancelSyncJobs(shop, "应用已卸载");
 
     await logEvent(shop, "webhook", "success", `${topic} handled`);
   } catch (error) {
@@ -0,0 +1,37 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { logEvent } from "../services/logger.server";
+import {
+  applyOrderPaid,
+  handleWebhookOnce,
+  type OrderWebhookPayload,
+} from "../services/inventory.webhooks.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  let shop = "unknown-shop";
+  let topic = "unknown-topic";
+
+  try {
+    const webhook = await authenticate.webhook(request);
+    shop = webhook.shop;
+    topic = webhook.topic;
+    const { payload, webhookId } = webhook;
+
+    let summary = `${topic} already handled`;
+    await handleWebhookOnce(shop, webhookId, topic, async () => {
+      const lines = await applyOrderPaid(shop, payload as OrderWebhookPayload);
+      summary = `${topic} handled: ${lines} order lines`;
+    });
+    await logEvent(shop, "webhook", "success", summary);
+  } catch (error) {
+    // Acknowledged anyway: the periodic order refetch reconciles anything missed here.
+    await logEvent(
+      shop,
+      "webhook",
+      "failure",
+      `${topic} webhook error: ${error instanceof Error ? error.message : "unknown"}`,
+    );
+  }
+
+  return new Response();
+};
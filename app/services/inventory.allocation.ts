@@ -0,0 +1,352 @@
+import { DEFAULT_SHORTAGE_THRESHOLD_DAYS } from "../config/inventory";
+import type {
+  AllocationDecision,
+  BudgetCandidate,
+  BudgetPlan,
+  OrderConstraints,
+  SupplierBudget,
+} from "./inventory.types";
+
+/**
+ * Budget allocation for the purchase plan (client-safe, shared by the server plan and the
+ * pages' live re-planning).
+ *
+ * Each unit up to a SKU's recommended quantity prevents one lost sale worth its selling price
+ * (unit cost when no price is synced); units beyond the recommendation are worth nothing. A SKU
+ * is bought in whole case packs and, when bought at all, at least its MOQ. Choosing quantities
+ * that maximise prevented lost revenue within the budget is a knapsack problem, solved exactly
+ * by dynamic programming over the budget split into `MAX_BUCKETS` steps (costs round up, so the
+ * plan never exceeds the budget). Suppliers with their own remaining budget are solved as a
+ * sub-knapsack first and then enter the main problem as a single choice of how much to spend.
+ */
+
+const MAX_BUCKETS = 1000;
+
+type Block = { units: number; cost: number; value: number; buckets: number };
+
+type SkuPlan = {
+  candidate: BudgetCandidate;
+  unitCost: number;
+  price: number;
+  casePack: number;
+  /** Minimum purchase (MOQ rounded up to whole cases); the SKU is skipped or bought from here. */
+  gate: Block;
+  /** Additional cases, binary-split so each block is a 0/1 choice. */
+  extras: Block[];
+};
+
+type Stage =
+  | { kind: "sku"; plan: SkuPlan; taken: Uint8Array; extraBits: Uint8Array[] }
+  | { kind: "group"; solution: Solution; spend: Int32Array };
+
+type Solution = { best: Float64Array; stages: Stage[] };
+
+export type AllocationResult = {
+  decisions: AllocationDecision[];
+  usedAmount: number;
+  preventedRevenue: number;
+};
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+function roundUpTo(value: number, step: number) {
+  return Math.ceil(value / step) * step;
+}
+
+function unitCostOf(row: BudgetCandidate) {
+  return (
+    row.unitCost ??
+    (row.stockValue && row.available > 0 ? row.stockValue / row.available : undefined) ??
+    0
+  );
+}
+
+/** Rounds a quantity up to the SKU's case pack and MOQ; 0 stays 0. */
+export function roundOrderQuantity(qty: number, constraints: OrderConstraints) {
+  if (qty <= 0) return 0;
+  const casePack = Math.max(1, Math.floor(constraints.casePack ?? 1));
+  return roundUpTo(Math.max(qty, constraints.moq ?? 0), casePack);
+}
+
+function buildSkuPlan(candidate: BudgetCandidate, bucketSize: number): SkuPlan {
+  const unitCost = unitCostOf(candidate);
+  const price = candidate.price ?? unitCost;
+  const casePack = Math.max(1, Math.floor(candidate.casePack ?? 1));
+  const need = candidate.recommendedQty;
+  const block = (units: number, valuedUnits: number): Block => ({
+    units,
+    cost: units * unitCost,
+    value: valuedUnits * price,
+    buckets: Math.ceil((units * unitCost) / bucketSize - 1e-9),
+  });
+
+  const gateUnits = roundUpTo(Math.max(candidate.moq ?? 0, 1), casePack);
+  const gate = block(gateUnits, Math.min(gateUnits, need));
+
+  const extras: Block[] = [];
+  const remaining = Math.max(0, need - gateUnits);
+  let fullCases = Math.floor(remaining / casePack);
+  for (let size = 1; fullCases > 0; size *= 2) {
+    const cases = Math.min(size, fullCases);
+    extras.push(block(cases * casePack, cases * casePack));
+    fullCases -= cases;
+  }
+  if (remaining % casePack > 0) {
+    extras.push(block(casePack, remaining % casePack));
+  }
+
+  return { candidate, unitCost, price, casePack, gate, extras };
+}
+
+function solve(plans: SkuPlan[], groups: { plans: SkuPlan[]; capacity: number }[], capacity: number): Solution {
+  let best = new Float64Array(capacity + 1);
+  const stages: Stage[] = [];
+
+  groups.forEach((group) => {
+    const solution = solve(group.plans, [], Math.min(group.capacity, capacity));
+    const spend = new Int32Array(capacity + 1);
+    const next = new Float64Array(capacity + 1);
+    for (let c = 0; c <= capacity; c += 1) {
+      next[c] = best[c];
+      const limit = Math.min(c, solution.best.length - 1);
+      for (let b = 1; b <= limit; b += 1) {
+        const candidate = best[c - b] + solution.best[b];
+        if (candidate > next[c]) {
+          next[c] = candidate;
+          spend[c] = b;
+        }
+      }
+    }
+    best = next;
+    stages.push({ kind: "group", solution, spend });
+  });
+
+  plans.forEach((plan) => {
+    const take = new Float64Array(capacity + 1).fill(Number.NEGATIVE_INFINITY);
+    for (let c = plan.gate.buckets; c <= capacity; c += 1) {
+      take[c] = best[c - plan.gate.buckets] + plan.gate.value;
+    }
+    const extraBits = plan.extras.map((extra) => {
+      const bits = new Uint8Array(capacity + 1);
+      for (let c = capacity; c >= plan.gate.buckets + extra.buckets; c -= 1) {
+        const candidate = take[c - extra.buckets] + extra.value;
+        if (candidate > take[c]) {
+          take[c] = candidate;
+          bits[c] = 1;
+        }
+      }
+      return bits;
+    });
+    const taken = new Uint8Array(capacity + 1);
+    for (let c = 0; c <= capacity; c += 1) {
+      if (take[c] > best[c]) {
+        best[c] = take[c];
+        taken[c] = 1;
+      }
+    }
+    stages.push({ kind: "sku", plan, taken, extraBits });
+  });
+
+  return { best, stages };
+}
+
+function reconstruct(solution: Solution, capacity: number, units: Map<string, number>) {
+  let c = capacity;
+  for (let index = solution.stages.length - 1; index >= 0; index -= 1) {
+    const stage = solution.stages[index];
+    if (stage.kind === "group") {
+      const spend = stage.spend[c];
+      if (spend > 0) reconstruct(stage.solution, spend, units);
+      c -= spend;
+      continue;
+    }
+    if (!stage.taken[c]) continue;
+    let qty = 0;
+    for (let extra = stage.plan.extras.length - 1; extra >= 0; extra -= 1) {
+      if (stage.extraBits[extra][c]) {
+        qty += stage.plan.extras[extra].units;
+        c -= stage.plan.extras[extra].buckets;
+      }
+    }
+    qty += stage.plan.gate.units;
+    c -= stage.plan.gate.buckets;
+    units.set(stage.plan.candidate.sku, qty);
+  }
+}
+
+function explain(
+  plan: SkuPlan,
+  qty: number,
+  budget: number,
+  supplierBudget: number | undefined,
+): Pick<AllocationDecision, "status" | "reason"> {
+  const { candidate, casePack, gate } = plan;
+  const need = candidate.recommendedQty;
+  const priceNote = candidate.price === undefined ? "（未同步售价，按成本估算）" : "";
+
+  if (qty >= need) {
+    if (qty === need) return { status: "included", reason: `全额补货${priceNote}` };
+    const rule = (candidate.moq ?? 0) > need ? `MOQ ${candidate.moq} 件` : `箱规 ${casePack} 件/箱`;
+    return { status: "included", reason: `全额补货，按${rule}取整至 ${qty} 件${priceNote}` };
+  }
+  if (qty > 0) {
+    const rule = casePack > 1 ? `，按箱规 ${casePack} 件/箱` : "";
+    return { status: "trimmed", reason: `预算有限${rule}削减至 ${qty} / ${need} 件` };
+  }
+  if (plan.unitCost <= 0) {
+    return { status: "excluded", reason: "缺少成本，无法纳入预算" };
+  }
+  if (gate.cost > budget) {
+    return {
+      status: "excluded",
+      reason: `最小采购 ${gate.units} 件需 ${formatAmount(gate.cost)}，超出可用预算`,
+    };
+  }
+  if (supplierBudget !== undefined && gate.cost > supplierBudget) {
+    return {
+      status: "excluded",
+      reason: `最小采购 ${gate.units} 件需 ${formatAmount(gate.cost)}，超出供应商剩余预算 ${formatAmount(supplierBudget)}`,
+    };
+  }
+  return {
+    status: "excluded",
+    reason: `每 $1 采购挽回 ${(plan.price / plan.unitCost).toFixed(2)} 收入，低于入选 SKU`,
+  };
+}
+
+/**
+ * Allocates `budget` across the candidates. `supplierBudgets` maps supplier ids to what is
+ * left of their own budget; candidates of other suppliers are only bound by `budget`.
+ */
+export function allocateBudget(
+  rows: BudgetCandidate[],
+  budget: number,
+  supplierBudgets: Map<string, number> = new Map(),
+): AllocationResult {
+  const candidates = rows.filter((row) => row.recommendedQty > 0);
+  const capacity = budget > 0 ? MAX_BUCKETS : 0;
+  const bucketSize = budget > 0 ? budget / MAX_BUCKETS : 1;
+  const plans = candidates.map((row) => buildSkuPlan(row, bucketSize));
+  const buyable = plans.filter((plan) => plan.unitCost > 0);
+
+  const grouped = new Map<string, SkuPlan[]>();
+  const ungrouped: SkuPlan[] = [];
+  buyable.forEach((plan) => {
+    const supplierId = plan.candidate.supplierId;
+    if (supplierId && supplierBudgets.has(supplierId)) {
+      grouped.set(supplierId, [...(grouped.get(supplierId) ?? []), plan]);
+    } else {
+      ungrouped.push(plan);
+    }
+  });
+  const groups = [...grouped.entries()].map(([supplierId, groupPlans]) => ({
+    plans: groupPlans,
+    capacity: Math.max(0, Math.floor((supplierBudgets.get(supplierId) ?? 0) / bucketSize + 1e-9)),
+  }));
+
+  const units = new Map<string, number>();
+  reconstruct(solve(ungrouped, groups, capacity), capacity, units);
+
+  let usedAmount = 0;
+  let preventedRevenue = 0;
+  const decisions = plans.map((plan): AllocationDecision => {
+    const qty = units.get(plan.candidate.sku) ?? 0;
+    const amount = qty * plan.unitCost;
+    const prevented = Math.min(qty, plan.candidate.recommendedQty) * plan.price;
+    usedAmount += amount;
+    preventedRevenue += prevented;
+    const supplierBudget = plan.candidate.supplierId
+      ? supplierBudgets.get(plan.candidate.supplierId)
+      : undefined;
+    return {
+      sku: plan.candidate.sku,
+      name: plan.candidate.name,
+      supplierId: plan.candidate.supplierId,
+      recommendedQty: plan.candidate.recommendedQty,
+      qty,
+      amount,
+      preventedRevenue: prevented,
+      ...explain(plan, qty, budget, supplierBudget),
+    };
+  });
+
+  return { decisions, usedAmount, preventedRevenue };
+}
+
+/**
+ * Budget plan for the dashboard / replenishment summary, built from an allocation run. Shared
+ * by the server plan and the dashboard's live re-planning when the budget is edited.
+ */
+export function buildAllocationPlan(
+  rows: BudgetCandidate[],
+  settings: Pick<BudgetPlan, "budget" | "period" | "spentAmount"> & { suppliers: SupplierBudget[] },
+  coverageDays: number,
+): BudgetPlan {
+  const availableBudget = Math.max(0, settings.budget - settings.spentAmount);
+  const supplierBudgets = new Map(
+    settings.suppliers.map((supplier) => [
+      supplier.supplierId,
+      Math.max(0, supplier.budget - supplier.spentAmount),
+    ]),
+  );
+  const { decisions, usedAmount, preventedRevenue } = allocateBudget(
+    rows,
+    availableBudget,
+    supplierBudgets,
+  );
+  const rowsBySku = new Map(rows.map((row) => [row.sku, row]));
+
+  // Whatever part of a recommendation the plan does not fund.
+  const excludedAmount = decisions.reduce((total, decision) => {
+    const row = rowsBySku.get(decision.sku);
+    const shortfall = Math.max(0, decision.recommendedQty - decision.qty);
+    return total + (row ? shortfall * unitCostOf(row) : 0);
+  }, 0);
+  const totalPool = usedAmount + excludedAmount || settings.budget;
+  const plannedBySupplier = new Map<string, number>();
+  decisions.forEach((decision) => {
+    if (decision.supplierId && decision.qty > 0) {
+      plannedBySupplier.set(
+        decision.supplierId,
+        (plannedBySupplier.get(decision.supplierId) ?? 0) + decision.amount,
+      );
+    }
+  });
+
+  return {
+    budget: settings.budget,
+    period: settings.period,
+    spentAmount: settings.spentAmount,
+    availableBudget,
+    suppliers: settings.suppliers.map((supplier) => ({
+      supplierId: supplier.supplierId,
+      supplierName: supplier.supplierName,
+      budget: supplier.budget,
+      spentAmount: supplier.spentAmount,
+      plannedAmount: plannedBySupplier.get(supplier.supplierId) ?? 0,
+    })),
+    coverageDays,
+    usedAmount,
+    excludedAmount,
+    coverageShare: totalPool > 0 ? Math.min(1, usedAmount / totalPool) : 0,
+    preventedRevenue,
+    decisions,
+    picks: decisions
+      .filter((decision) => decision.qty > 0)
+      .sort((a, b) => b.preventedRevenue - a.preventedRevenue)
+      .map((decision) => ({
+        sku: decision.sku,
+        name: decision.name,
+        qty: decision.qty,
+        amount: formatAmount(decision.amount),
+        risk:
+          (rowsBySku.get(decision.sku)?.daysOfStock ?? 0) <= DEFAULT_SHORTAGE_THRESHOLD_DAYS
+            ? "爆款防断货"
+            : "库存紧张",
+        reason: decision.reason,
+      })),
+    excludedValue: formatAmount(Math.abs(excludedAmount)),
+    excludedCount: decisions.filter((decision) => decision.status === "excluded").length,
+  };
+}
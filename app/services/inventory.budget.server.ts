@@ -0,0 +1,80 @@
+import {
+  DEFAULT_BUDGET_PERIOD,
+  DEFAULT_DIGEST_SEND_HOUR,
+  DEFAULT_HISTORY_DAYS,
+  DEFAULT_LEAD_TIME_DAYS,
+  DEFAULT_MILD_OVERSTOCK_THRESHOLD_DAYS,
+  DEFAULT_OVERSTOCK_THRESHOLD_DAYS,
+  DEFAULT_PURCHASE_BUDGET,
+  DEFAULT_SAFETY_DAYS,
+  DEFAULT_SHORTAGE_THRESHOLD_DAYS,
+} from "../config/inventory";
+import prisma from "../db.server";
+import { budgetPeriodStart } from "./inventory.helpers.server";
+import { getCommittedSpend } from "./inventory.purchase-orders.server";
+import type { BudgetPeriod, BudgetSettings } from "./inventory.types";
+
+export function toBudgetPeriod(value?: string | null): BudgetPeriod {
+  return value === "none" || value === "month" || value === "quarter"
+    ? value
+    : DEFAULT_BUDGET_PERIOD;
+}
+
+/**
+ * Shop and supplier budgets for the current period, with spend already committed on sent
+ * purchase orders. Budgets without a period start fresh on every plan, so nothing is spent.
+ */
+export async function getBudgetSettings(shopDomain: string): Promise<BudgetSettings> {
+  const [setting, suppliers] = await Promise.all([
+    prisma.shopSetting.findUnique({
+      where: { shopDomain },
+      select: { purchaseBudget: true, budgetPeriod: true },
+    }),
+    prisma.supplier.findMany({
+      where: { shopDomain, budget: { not: null } },
+      select: { id: true, name: true, budget: true },
+      orderBy: { name: "asc" },
+    }),
+  ]);
+
+  const period = toBudgetPeriod(setting?.budgetPeriod);
+  const periodStart = budgetPeriodStart(period);
+  const spend = periodStart
+    ? await getCommittedSpend(shopDomain, periodStart)
+    : { total: 0, bySupplier: new Map<string, number>() };
+
+  return {
+    amount: setting?.purchaseBudget ?? DEFAULT_PURCHASE_BUDGET,
+    period,
+    periodStart: periodStart?.toISOString(),
+    spentAmount: spend.total,
+    suppliers: suppliers.map((supplier) => ({
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      budget: supplier.budget ?? 0,
+      spentAmount: spend.bySupplier.get(supplier.id) ?? 0,
+    })),
+  };
+}
+
+/** Saves the budget entered on the dashboard or replenishment page as the shop budget. */
+export async function savePurchaseBudget(shopDomain: string, amount: number) {
+  await prisma.shopSetting.upsert({
+    where: { shopDomain },
+    create: {
+      shopDomain,
+      shortageThreshold: DEFAULT_SHORTAGE_THRESHOLD_DAYS,
+      overstockThreshold: DEFAULT_OVERSTOCK_THRESHOLD_DAYS,
+      mildOverstockThreshold: DEFAULT_MILD_OVERSTOCK_THRESHOLD_DAYS,
+      safetyDays: DEFAULT_SAFETY_DAYS,
+      leadTime: DEFAULT_LEAD_TIME_DAYS,
+      historyWindow: `${DEFAULT_HISTORY_DAYS} 天`,
+      digestFrequency: "weekly",
+      digestSendHour: DEFAULT_DIGEST_SEND_HOUR,
+      emailRecipients: "",
+      slackWebhook: "",
+      purchaseBudget: amount,
+    },
+    update: { purchaseBudget: amount },
+  });
+}
@@ -0,0 +1,335 @@
+import prisma from "../db.server";
+import type { BundleComponentForm } from "../validation/bundles";
+import { sumDailySales, sumSalesBuckets } from "./inventory.helpers.server";
+import type {
+  BillOfMaterials,
+  BundleComponentRef,
+  BundlesPayload,
+  InventoryLocationLevel,
+  VariantMetrics,
+  VariantSalesBuckets,
+} from "./inventory.types";
+
+export async function getBillOfMaterials(shopDomain: string): Promise<BillOfMaterials> {
+  const rows = await prisma.bundleComponent.findMany({
+    where: { shopDomain },
+    select: { bundleSku: true, componentSku: true, quantity: true },
+    orderBy: { componentSku: "asc" },
+  });
+  const bom: BillOfMaterials = new Map();
+  rows.forEach((row) => {
+    const components = bom.get(row.bundleSku) ?? [];
+    components.push({ sku: row.componentSku, quantity: row.quantity });
+    bom.set(row.bundleSku, components);
+  });
+  return bom;
+}
+
+/**
+ * Adds or updates one component line. Returns false when it would nest bundles: the component
+ * is a bundle itself, or the bundle is already a component of another bundle.
+ */
+export async function saveBundleComponent(
+  shopDomain: string,
+  data: BundleComponentForm,
+): Promise<boolean> {
+  const nested = await prisma.bundleComponent.findFirst({
+    where: {
+      shopDomain,
+      OR: [{ bundleSku: data.componentSku }, { componentSku: data.bundleSku }],
+    },
+    select: { id: true },
+  });
+  if (nested) return false;
+
+  await prisma.bundleComponent.upsert({
+    where: {
+      shopDomain_bundleSku_componentSku: {
+        shopDomain,
+        bundleSku: data.bundleSku,
+        componentSku: data.componentSku,
+      },
+    },
+    create: { shopDomain, ...data },
+    update: { quantity: data.quantity },
+  });
+  return true;
+}
+
+export async function deleteBundleComponent(shopDomain: string, bundleSku: string, componentSku: string) {
+  await prisma.bundleComponent.deleteMany({ where: { shopDomain, bundleSku, componentSku } });
+}
+
+function scaleBuckets(buckets: VariantSalesBuckets, quantity: number): VariantSalesBuckets {
+  return {
+    "30d": buckets["30d"] * quantity,
+    "60d": buckets["60d"] * quantity,
+    "90d": buckets["90d"] * quantity,
+  };
+}
+
+function mergeByLocation<T>(
+  entries: (Record<string, T> | undefined)[],
+  merge: (values: T[]) => T,
+): Record<string, T> {
+  const grouped: Record<string, T[]> = {};
+  entries.forEach((byLocation) => {
+    Object.entries(byLocation ?? {}).forEach(([locationId, value]) => {
+      grouped[locationId] = [...(grouped[locationId] ?? []), value];
+    });
+  });
+  return Object.fromEntries(
+    Object.entries(grouped).map(([locationId, values]) => [locationId, merge(values)]),
+  );
+}
+
+function mapValues<T>(record: Record<string, T> | undefined, fn: (value: T) => T) {
+  return Object.fromEntries(Object.entries(record ?? {}).map(([key, value]) => [key, fn(value)]));
+}
+
+/** Bundle units that component stock can cover, per part: floor(stock / quantity per bundle). */
+function buildable(parts: { stock: number; quantity: number }[]) {
+  return parts.length
+    ? Math.max(0, Math.min(...parts.map((part) => Math.floor(part.stock / part.quantity))))
+    : 0;
+}
+
+function asBundle(
+  bundle: VariantMetrics,
+  components: BundleComponentRef[],
+  bySku: Map<string, VariantMetrics>,
+): VariantMetrics {
+  // A component missing from the catalogue counts as out of stock.
+  const parts = components.map((component) => ({
+    quantity: component.quantity,
+    variant: bySku.get(component.sku),
+  }));
+  const available = buildable(
+    parts.map((part) => ({ stock: part.variant?.available ?? 0, quantity: part.quantity })),
+  );
+  const withIncoming = buildable(
+    parts.map((part) => ({
+      stock: (part.variant?.available ?? 0) + (part.variant?.incoming ?? 0),
+      quantity: part.quantity,
+    })),
+  );
+
+  const locationNames = new Map<string, string>();
+  parts.forEach((part) =>
+    part.variant?.levels?.forEach((level) => locationNames.set(level.locationId, level.locationName)),
+  );
+  const levels = [...locationNames.entries()].map(([locationId, locationName]): InventoryLocationLevel => {
+    const stockAt = (variant: VariantMetrics | undefined, key: "available" | "incoming") =>
+      variant?.levels?.find((level) => level.locationId === locationId)?.[key] ?? 0;
+    const levelAvailable = buildable(
+      parts.map((part) => ({ stock: stockAt(part.variant, "available"), quantity: part.quantity })),
+    );
+    return {
+      locationId,
+      locationName,
+      available: levelAvailable,
+      incoming:
+        buildable(
+          parts.map((part) => ({
+            stock: stockAt(part.variant, "available") + stockAt(part.variant, "incoming"),
+            quantity: part.quantity,
+          })),
+        ) - levelAvailable,
+    };
+  });
+
+  return {
+    ...bundle,
+    available,
+    incoming: withIncoming - available,
+    levels,
+    // Shopify stock of a virtual bundle says nothing about whether it could be sold.
+    outOfStock: undefined,
+    bundleComponents: components,
+  };
+}
+
+function withBundleDemand(
+  component: VariantMetrics,
+  sources: { bundle: VariantMetrics; quantity: number }[],
+): VariantMetrics {
+  return {
+    ...component,
+    sales: sumSalesBuckets([
+      component.sales,
+      ...sources.map(({ bundle, quantity }) => scaleBuckets(bundle.sales, quantity)),
+    ]),
+    locationSales: mergeByLocation(
+      [
+        component.locationSales,
+        ...sources.map(({ bundle, quantity }) =>
+          mapValues(bundle.locationSales, (buckets) => scaleBuckets(buckets, quantity)),
+        ),
+      ],
+      sumSalesBuckets,
+    ),
+    dailySales: sumDailySales([
+      component.dailySales ?? [],
+      ...sources.map(({ bundle, quantity }) => (bundle.dailySales ?? []).map((value) => value * quantity)),
+    ]),
+    locationDailySales: mergeByLocation(
+      [
+        component.locationDailySales,
+        ...sources.map(({ bundle, quantity }) =>
+          mapValues(bundle.locationDailySales, (series) => series.map((value) => value * quantity)),
+        ),
+      ],
+      sumDailySales,
+    ),
+  };
+}
+
+/**
+ * Applies the bill of materials to synced variants: bundle sales are added to each component's
+ * sales buckets and daily series (times the quantity per bundle), and a bundle's available /
+ * incoming stock becomes what its components can assemble, shop-wide and per location. The
+ * sales ledger itself stays keyed by the variant actually sold.
+ */
+export function applyBundles(variants: VariantMetrics[], bom: BillOfMaterials): VariantMetrics[] {
+  if (bom.size === 0) return variants;
+
+  const bySku = new Map<string, VariantMetrics>();
+  variants.forEach((variant) => {
+    if (!bySku.has(variant.sku)) bySku.set(variant.sku, variant);
+  });
+
+  const sourcesBySku = new Map<string, { bundle: VariantMetrics; quantity: number }[]>();
+  bom.forEach((components, bundleSku) => {
+    const bundle = bySku.get(bundleSku);
+    if (!bundle) return;
+    components.forEach((component) => {
+      const sources = sourcesBySku.get(component.sku) ?? [];
+      sources.push({ bundle, quantity: component.quantity });
+      sourcesBySku.set(component.sku, sources);
+    });
+  });
+
+  return variants.map((variant) => {
+    const components = bom.get(variant.sku);
+    if (components?.length) return asBundle(variant, components, bySku);
+    const sources = sourcesBySku.get(variant.sku);
+    return sources ? withBundleDemand(variant, sources) : variant;
+  });
+}
+
+/**
+ * Bundle variants whose sales count towards each component variant, keyed by component variant
+ * id. Resolved through the cached metrics, so only synced variants appear.
+ */
+export async function getBundleDemandSources(
+  shopDomain: string,
+): Promise<Map<string, { variantId: string; quantity: number }[]>> {
+  const [bom, metrics] = await Promise.all([
+    getBillOfMaterials(shopDomain),
+    prisma.inventoryMetric.findMany({ where: { shopDomain }, select: { sku: true, variantId: true } }),
+  ]);
+  const sources = new Map<string, { variantId: string; quantity: number }[]>();
+  if (bom.size === 0) return sources;
+
+  const idsBySku = new Map<string, string[]>();
+  metrics.forEach((metric) => {
+    idsBySku.set(metric.sku, [...(idsBySku.get(metric.sku) ?? []), metric.variantId]);
+  });
+  bom.forEach((components, bundleSku) => {
+    const bundleIds = idsBySku.get(bundleSku) ?? [];
+    components.forEach((component) => {
+      (idsBySku.get(component.sku) ?? []).forEach((componentId) => {
+        sources.set(componentId, [
+          ...(sources.get(componentId) ?? []),
+          ...bundleIds.map((variantId) => ({ variantId, quantity: component.quantity })),
+        ]);
+      });
+    });
+  });
+  return sources;
+}
+
+/**
+ * Re-derives the stored available stock of the bundles that contain `componentSku`, after the
+ * component's stock changed between syncs (e.g. an inventory webhook).
+ */
+export async function refreshBundleStock(shopDomain: string, componentSku: string) {
+  const bom = await getBillOfMaterials(shopDomain);
+  const bundles = [...bom].filter(([, components]) =>
+    components.some((component) => component.sku === componentSku),
+  );
+  if (bundles.length === 0) return;
+
+  const skus = new Set(bundles.flatMap(([, components]) => components.map((component) => component.sku)));
+  const metrics = await prisma.inventoryMetric.findMany({
+    where: { shopDomain, sku: { in: [...skus] } },
+    select: { sku: true, available: true },
+  });
+  const stockBySku = new Map(metrics.map((metric) => [metric.sku, metric.available]));
+  await prisma.$transaction(
+    bundles.map(([bundleSku, components]) =>
+      prisma.inventoryMetric.updateMany({
+        where: { shopDomain, sku: bundleSku },
+        data: {
+          available: buildable(
+            components.map((component) => ({
+              stock: stockBySku.get(component.sku) ?? 0,
+              quantity: component.quantity,
+            })),
+          ),
+        },
+      }),
+    ),
+  );
+}
+
+export async function getBundlesData(shopDomain: string): Promise<BundlesPayload> {
+  const [bom, metrics] = await Promise.all([
+    getBillOfMaterials(shopDomain),
+    prisma.inventoryMetric.findMany({
+      where: { shopDomain },
+      select: { sku: true, name: true, variantTitle: true, available: true },
+      orderBy: { sku: "asc" },
+    }),
+  ]);
+  const bySku = new Map(metrics.map((metric) => [metric.sku, metric]));
+
+  const bundles = [...bom.entries()]
+    .map(([sku, components]) => {
+      const bundle = bySku.get(sku);
+      const records = components.map((component) => {
+        const metric = bySku.get(component.sku);
+        return {
+          ...component,
+          name: metric?.name ?? "未同步的 SKU",
+          variant: metric?.variantTitle ?? "",
+          available: metric?.available ?? 0,
+        };
+      });
+      const available = buildable(
+        records.map((record) => ({ stock: record.available, quantity: record.quantity })),
+      );
+      return {
+        sku,
+        name: bundle?.name ?? "未同步的 SKU",
+        variant: bundle?.variantTitle ?? "",
+        available,
+        limitingSku: records.find(
+          (record) => Math.floor(record.available / record.quantity) === available,
+        )?.sku,
+        components: records,
+      };
+    })
+    .sort((a, b) => a.sku.localeCompare(b.sku));
+
+  const seen = new Set<string>();
+  const skus = metrics
+    .filter((metric) => {
+      if (!metric.sku || seen.has(metric.sku)) return false;
+      seen.add(metric.sku);
+      return true;
+    })
+    .map((metric) => ({ sku: metric.sku, name: metric.name, variant: metric.variantTitle }));
+
+  return { bundles, skus };
+}
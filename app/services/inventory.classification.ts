@@ -0,0 +1,87 @@
+import { ABC_CLASS_CUTOFFS, XYZ_CLASS_CUTOFFS } from "../config/inventory";
+import type { AbcBasis, AbcClass, VariantMetrics, XyzClass } from "./inventory.types";
+
+/**
+ * ABC / XYZ classification of variants (pure, no I/O).
+ *
+ * ABC ranks variants by their 90-day contribution (revenue, or gross margin where the unit cost
+ * is known): the variants making up the first 80% of the total are A, the next 15% B and the
+ * rest C. XYZ grades demand variability by the coefficient of variation of weekly sales over the
+ * daily ledger: X up to 0.5, Y up to 1, Z above that or without any sales.
+ */
+
+const WEEK_DAYS = 7;
+
+/** Pareto classes by value. Items with no value are always C. */
+export function classifyAbc(values: Map<string, number>): Map<string, AbcClass> {
+  const total = [...values.values()].reduce((sum, value) => sum + Math.max(0, value), 0);
+  const classes = new Map<string, AbcClass>();
+  let cumulative = 0;
+  [...values.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([key, value]) => {
+      // Classify by the share before this item, so the item crossing a cutoff stays in the class.
+      const share = total > 0 ? cumulative / total : 1;
+      classes.set(
+        key,
+        value <= 0 ? "C" : share < ABC_CLASS_CUTOFFS.A ? "A" : share < ABC_CLASS_CUTOFFS.B ? "B" : "C",
+      );
+      cumulative += Math.max(0, value);
+    });
+  return classes;
+}
+
+/** XYZ class of a daily series (oldest first); only whole weeks, counted back from the end, are used. */
+export function classifyXyz(dailySales: number[]): XyzClass {
+  const weeks = Math.floor(dailySales.length / WEEK_DAYS);
+  const weekly = Array.from({ length: weeks }, (_, index) => {
+    const end = dailySales.length - index * WEEK_DAYS;
+    return dailySales.slice(end - WEEK_DAYS, end).reduce((total, value) => total + value, 0);
+  });
+  const mean = weekly.reduce((total, value) => total + value, 0) / Math.max(1, weekly.length);
+  if (weekly.length < 2 || mean <= 0) return "Z";
+  const variance =
+    weekly.reduce((total, value) => total + (value - mean) ** 2, 0) / (weekly.length - 1);
+  const cv = Math.sqrt(variance) / mean;
+  return cv <= XYZ_CLASS_CUTOFFS.X ? "X" : cv <= XYZ_CLASS_CUTOFFS.Y ? "Y" : "Z";
+}
+
+function contribution(variant: VariantMetrics, basis: AbcBasis) {
+  const price = variant.price ?? 0;
+  const unitPrice =
+    basis === "margin" && variant.unitCost !== undefined && variant.price !== undefined
+      ? price - variant.unitCost
+      : price;
+  return variant.sales["90d"] * unitPrice;
+}
+
+/** ABC and XYZ class per variant id, across all the given variants. */
+export function classifyVariants(
+  variants: VariantMetrics[],
+  basis: AbcBasis,
+): Map<string, { abcClass: AbcClass; xyzClass: XyzClass }> {
+  const abc = classifyAbc(
+    new Map(variants.map((variant) => [variant.id, contribution(variant, basis)])),
+  );
+  return new Map(
+    variants.map((variant) => [
+      variant.id,
+      {
+        abcClass: abc.get(variant.id) ?? "C",
+        xyzClass: classifyXyz(variant.dailySales ?? []),
+      },
+    ]),
+  );
+}
+
+export function toAbcBasis(value?: string | null): AbcBasis {
+  return value === "margin" ? "margin" : "revenue";
+}
+
+export function toAbcClass(value?: string | null): AbcClass | undefined {
+  return value === "A" || value === "B" || value === "C" ? value : undefined;
+}
+
+export function toXyzClass(value?: string | null): XyzClass | undefined {
+  return value === "X" || value === "Y" || value === "Z" ? value : undefined;
+}
@@ -4,34 +4,54 @@ import {
   DEFAULT_SAFETY_DAYS,
   DEFAULT_SHORTAGE_THRESHOLD_DAYS,
   DEFAULT_OVERSTOCK_THRESHOLD_DAYS,
+  DEFAULT_DIGEST_WEEKDAY,
+  DIGEST_LOST_SALES_LIMIT,
+  DIGEST_WEEKDAY_LABELS,
   MIN_RECOMMENDED_QTY,
+  VARIANT_HISTORY_DAYS,
 } from "../config/inventory";
 import {
+  adjustForStockouts,
   buildBudgetPlan,
   buildReminders,
   buildRowsForTimeframe,
-  buildSeriesFromInventory,
-  buildSeriesFromSales,
   buildTimeframe,
   computeCoverage,
+  computeTargetCoverage,
   formatCurrency,
   getSampleVariantDetail,
   parseHistoryWindowDays,
+  resolveLocationScope,
+  resolveOrderConstraints,
   safeDivide,
+  scopeVariantMetrics,
 } from "./inventory.helpers.server";
 import type {
   DashboardPayload,
+  DigestPeriod,
   DigestPreview,
   TimeframeKey,
   VariantDetail,
 } from "./inventory.types";
 import { buildDashboardLocations, getInventoryLastUpdated, getVariantMetrics } from "./inventory.sync.server";
+import {
+  countStockoutDays,
+  getInventoryHistory,
+  getSalesHistory,
+} from "./inventory.history.server";
+import { getBudgetSettings } from "./inventory.budget.server";
+import { getDemandCalendar } from "./inventory.events.server";
+import { toForecastModelSetting } from "./inventory.forecast";
+import { getDeliveryStatus } from "./inventory.notification-log.server";
+import { getSafetyStockPolicy } from "./inventory.safety-stock.server";
 import { readSettings } from "./inventory.settings.server";
+import { getSkuSettings } from "./inventory.suppliers.server";
 import type { AdminApiClient } from "./shopify-graphql.server";
 
 export async function getDashboardData(
   admin: AdminApiClient,
   shopDomain: string,
+  options: { locationId?: string | null } = {},
 ): Promise<DashboardPayload> {
   const savedSettings = await readSettings(shopDomain);
   const shortageThreshold = savedSettings?.shortageThreshold ?? DEFAULT_SHORTAGE_THRESHOLD_DAYS;
@@ -39,13 +59,28 @@ export async function getDashboardData(
     savedSettings?.overstockThreshold ?? DEFAULT_OVERSTOCK_THRESHOLD_DAYS;
   const safetyDays = savedSettings?.safetyDays ?? DEFAULT_SAFETY_DAYS;
   const leadTimeDays = savedSettings?.leadTime ?? DEFAULT_LEAD_TIME_DAYS;
-  const targetCoverageDays = Math.max(leadTimeDays + safetyDays, 30);
+  const targetCoverageDays = computeTargetCoverage(leadTimeDays, safetyDays);
   const historyWindowDays = parseHistoryWindowDays(savedSettings?.historyWindow);
-  const variants = await getVariantMetrics(admin, shopDomain);
+  const forecastModel = toForecastModelSetting(savedSettings?.forecastModel);
+  const locations = await buildDashboardLocations(admin, shopDomain);
+  const scope = resolveLocationScope(locations, options.locationId);
+  const variants = scopeVariantMetrics(await getVariantMetrics(admin, shopDomain), scope);
+  const skuSettings = await getSkuSettings(shopDomain);
+  const { targetCoverageFor, safetyStockFor } = await getSafetyStockPolicy(shopDomain, skuSettings);
+  const demandCalendar = await getDemandCalendar(shopDomain, DEFAULT_HISTORY_DAYS);
+  const rowsFor = (timeframe: TimeframeKey) =>
+    buildRowsForTimeframe(
+      variants,
+      timeframe,
+      targetCoverageFor,
+      forecastModel,
+      safetyStockFor,
+      demandCalendar,
+    );
   const rowsByTimeframe: Record<TimeframeKey, ReturnType<typeof buildRowsForTimeframe>> = {
-    "30d": buildRowsForTimeframe(variants, "30d", targetCoverageDays),
-    "60d": buildRowsForTimeframe(variants, "60d", targetCoverageDays),
-    "90d": buildRowsForTimeframe(variants, "90d", targetCoverageDays),
+    "30d": rowsFor("30d"),
+    "60d": rowsFor("60d"),
+    "90d": rowsFor("90d"),
   };
 
   const rows30d = rowsByTimeframe["30d"];
@@ -55,15 +90,28 @@ export async function getDashboardData(
     "90d": buildTimeframe(rowsByTimeframe["90d"], "90d", shortageThreshold, overstockThreshold),
   };
 
-  const locations = await buildDashboardLocations(admin, shopDomain);
+  const recommendationPool = rows30d.map((row) => ({
+    ...row,
+    ...resolveOrderConstraints(skuSettings.get(row.sku)),
+    supplierId: skuSettings.get(row.sku)?.supplier?.id,
+  }));
   const budgetPlan = buildBudgetPlan(
-    rows30d.filter(
+    recommendationPool.filter(
       (row) =>
         row.daysOfStock <= shortageThreshold ||
         row.recommendedQty >= MIN_RECOMMENDED_QTY,
     ),
+    await getBudgetSettings(shopDomain),
   );
   const { reminders, missingCostCount } = buildReminders(variants);
+  const delivery = await getDeliveryStatus(
+    shopDomain,
+    savedSettings?.slackEnabled ? ["email", "slack"] : ["email"],
+  );
+  // A failure newer than the last success means the most recent delivery did not go out.
+  const failing =
+    delivery.lastFailureAt !== undefined &&
+    (delivery.lastSuccessAt === undefined || delivery.lastFailureAt > delivery.lastSuccessAt);
 
   return {
     timeframes,
@@ -72,26 +120,24 @@ export async function getDashboardData(
     missingCostCount,
     digest: {
       window: "30 天销量窗口",
-      cadence:
-        savedSettings?.digestFrequency === "daily"
-          ? `每日 ${savedSettings?.digestSendHour ?? 9}:00`
-          : savedSettings?.digestFrequency === "off"
-            ? "已关闭"
-            : `每周 ${savedSettings?.digestSendHour ?? 9}:00`,
+      cadence: describeCadence(savedSettings),
       channels: `${savedSettings?.digestDailyEnabled || savedSettings?.digestWeeklyEnabled ? "Email" : "无"}${savedSettings?.slackEnabled ? " + Slack" : ""}`,
-      lastSent: "今天 08:10 已发送",
-      lastSuccess: "今天 08:10",
-      lastFailure: "无",
-      lastError: "",
-      status: savedSettings?.digestFrequency === "off" ? "warning" : "ok",
+      lastSent: delivery.lastSuccessAt ? `${delivery.lastSuccessAt.toLocaleString()} 已发送` : "尚未发送",
+      lastSuccess: delivery.lastSuccessAt?.toLocaleString() ?? "无",
+      lastFailure: delivery.lastFailureAt?.toLocaleString() ?? "无",
+      lastError: delivery.lastError
+        ? `${delivery.lastFailureChannel === "slack" ? "Slack" : "Email"}：${delivery.lastError}`
+        : "",
+      status: savedSettings?.digestFrequency === "off" || failing ? "warning" : "ok",
     },
     lastCalculated: await getInventoryLastUpdated(shopDomain),
     locations,
+    locationScope: scope.scope,
     targetCoverages: [targetCoverageDays, targetCoverageDays + 15, targetCoverageDays + 30],
     safetyDays,
     leadTimeDays,
     historyWindowDays,
-    recommendationPool: rows30d,
+    recommendationPool,
   };
 }
 
@@ -110,11 +156,34 @@ export async function getVariantDetail(
     return getSampleVariantDetail();
   }
 
-  const avg30 = safeDivide(match.sales["30d"], 30, 0);
-  const avg60 = safeDivide(match.sales["60d"], 60, 0);
-  const avg90 = safeDivide(match.sales["90d"], 90, 0);
+  const locationBreakdown = (match.levels ?? []).map((level) => {
+    const sales30d = match.locationSales?.[level.locationId]?.["30d"] ?? 0;
+    const avgDailySales = safeDivide(sales30d, 30, 0);
+    return {
+      locationId: level.locationId,
+      name: level.locationName,
+      available: level.available,
+      incoming: level.incoming ?? 0,
+      avgDailySales,
+      coverageDays: computeCoverage(level.available, avgDailySales),
+    };
+  });
+
+  // Sold-out days are imputed so the averages reflect demand rather than what was in stock.
+  const lostIn = (days: number) =>
+    adjustForStockouts(match.dailySales?.slice(-days) ?? [], match.outOfStock?.slice(-days));
+  const lost30 = lostIn(30);
+  const avg30 = safeDivide(match.sales["30d"] + lost30.lostSales, 30, 0);
+  const avg60 = safeDivide(match.sales["60d"] + lostIn(60).lostSales, 60, 0);
+  const avg90 = safeDivide(match.sales["90d"] + lostIn(90).lostSales, 90, 0);
+  const lostUnits = Math.round(lost30.lostSales);
   const coverage60d = computeCoverage(match.available, avg60);
   const coverage90d = computeCoverage(match.available, avg90);
+  const [salesHistory, inventoryHistory, historicalStockouts] = await Promise.all([
+    getSalesHistory(shopDomain, match.id, VARIANT_HISTORY_DAYS),
+    getInventoryHistory(shopDomain, match.id, VARIANT_HISTORY_DAYS),
+    countStockoutDays(shopDomain, match.id),
+  ]);
 
   return {
     id: match.id,
@@ -123,8 +192,11 @@ export async function getVariantDetail(
     variant: match.variant,
     unitCost: match.unitCost,
     available: match.available,
-    price: match.unitCost ? match.unitCost * 2.5 : undefined,
-    grossMargin: match.unitCost ? 60 : undefined,
+    price: match.price,
+    grossMargin:
+      match.price && match.unitCost !== undefined
+        ? ((match.price - match.unitCost) / match.price) * 100
+        : undefined,
     avgDailySales: {
       "30d": avg30,
       "60d": avg60,
@@ -133,21 +205,74 @@ export async function getVariantDetail(
     daysOfStock: computeCoverage(match.available, avg30),
     coverage60d,
     coverage90d,
-    historicalStockouts: Math.max(0, Math.round(Math.random() * 4)),
-    salesHistory: buildSeriesFromSales(match.sales["30d"]),
-    inventoryHistory: buildSeriesFromInventory(match.available),
+    historicalStockouts,
+    lostSales: {
+      stockoutDays: lost30.stockoutDays,
+      units: lostUnits,
+      revenue: match.price !== undefined ? lostUnits * match.price : undefined,
+    },
+    incoming: match.incoming ?? 0,
+    onOrder: match.onOrder ?? 0,
+    locationBreakdown,
+    salesHistory,
+    inventoryHistory,
   };
 }
 
+/** e.g. "每日 9:00 + 每周一 9:00", in the shop's timezone. */
+function describeCadence(settings: Awaited<ReturnType<typeof readSettings>>) {
+  if (settings?.digestFrequency === "off") return "已关闭";
+  const hour = `${settings?.digestSendHour ?? 9}:00`;
+  const weekday = DIGEST_WEEKDAY_LABELS[settings?.digestWeekday ?? DEFAULT_DIGEST_WEEKDAY].slice(1);
+  const cadences = [
+    ...(settings?.digestDailyEnabled || settings?.digestFrequency === "daily" ? [`每日 ${hour}`] : []),
+    ...(settings?.digestWeeklyEnabled || (settings?.digestFrequency ?? "weekly") === "weekly"
+      ? [`每周${weekday} ${hour}`]
+      : []),
+  ];
+  return cadences.join(" + ") || "已关闭";
+}
+
 export async function getDigestPreview(
   admin: AdminApiClient,
   shopDomain: string,
+  period: DigestPeriod = "weekly",
 ): Promise<DigestPreview> {
-  const variants = await getVariantMetrics(admin, shopDomain);
-  const rows30d = buildRowsForTimeframe(variants, "30d", DEFAULT_TARGET_COVERAGE);
-  const timeframe = buildTimeframe(rows30d, "30d");
+  const locations = await buildDashboardLocations(admin, shopDomain);
+  const variants = scopeVariantMetrics(
+    await getVariantMetrics(admin, shopDomain),
+    resolveLocationScope(locations),
+  );
+  const savedSettings = await readSettings(shopDomain);
+  const skuSettings = await getSkuSettings(shopDomain);
+  const { targetCoverageFor, safetyStockFor } = await getSafetyStockPolicy(shopDomain, skuSettings);
+  const rows30d = buildRowsForTimeframe(
+    variants,
+    "30d",
+    targetCoverageFor,
+    toForecastModelSetting(savedSettings?.forecastModel),
+    safetyStockFor,
+    await getDemandCalendar(shopDomain, DEFAULT_HISTORY_DAYS),
+  );
+  const timeframe = buildTimeframe(
+    rows30d,
+    "30d",
+    savedSettings?.shortageThreshold ?? DEFAULT_SHORTAGE_THRESHOLD_DAYS,
+    savedSettings?.overstockThreshold ?? DEFAULT_OVERSTOCK_THRESHOLD_DAYS,
+  );
+  const budgetPlan = buildBudgetPlan(
+    timeframe.shortage.map((row) => ({
+      ...row,
+      ...resolveOrderConstraints(skuSettings.get(row.sku)),
+      supplierId: skuSettings.get(row.sku)?.supplier?.id,
+    })),
+    await getBudgetSettings(shopDomain),
+  );
+  const lostSalesRows = rows30d
+    .filter((row) => (row.lostSales ?? 0) > 0)
+    .sort((a, b) => (b.lostSales ?? 0) - (a.lostSales ?? 0));
   return {
-    title: "[Inventory Copilot] 每周库存雷达 – 缺货风险 & 压货清单",
+    title: `[Inventory Copilot] ${period === "daily" ? "每日" : "每周"}库存雷达 – 缺货风险 & 压货清单`,
     summary: {
       inventoryValue: formatCurrency(
         (timeframe.shortage ?? []).reduce((total, row) => total + (row.stockValue ?? 0), 0) +
@@ -157,7 +282,19 @@ export async function getDigestPreview(
       overstockCount: timeframe.overstock.length,
       updatedAt: new Date().toLocaleString(),
     },
+    budget: {
+      amount: budgetPlan.budget,
+      period: budgetPlan.period,
+      spentAmount: budgetPlan.spentAmount,
+      remaining: budgetPlan.availableBudget,
+      plannedAmount: budgetPlan.usedAmount,
+    },
     shortages: timeframe.shortage,
     overstocks: timeframe.overstock,
+    lostSales: {
+      units: lostSalesRows.reduce((total, row) => total + (row.lostSales ?? 0), 0),
+      revenue: lostSalesRows.reduce((total, row) => total + (row.lostSales ?? 0) * (row.price ?? 0), 0),
+      rows: lostSalesRows.slice(0, DIGEST_LOST_SALES_LIMIT),
+    },
   };
 }
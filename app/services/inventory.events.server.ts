@@ -0,0 +1,118 @@
+import prisma from "../db.server";
+import type { DemandEventForm } from "../validation/demand-events";
+import { addDays, startOfUtcDay, toDayKey } from "./inventory.helpers.server";
+import type {
+  DemandCalendar,
+  DemandEventRecord,
+  DemandEventScope,
+  DemandEventsPayload,
+} from "./inventory.types";
+
+type DemandEventRow = {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  multiplier: number;
+  scope: string;
+  scopeValues: string;
+};
+
+function toScope(value: string): DemandEventScope {
+  return value === "sku" || value === "category" ? value : "all";
+}
+
+function splitValues(value: string) {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toRecord(row: DemandEventRow, today: Date): DemandEventRecord {
+  const scope = toScope(row.scope);
+  return {
+    id: row.id,
+    name: row.name,
+    startDate: toDayKey(row.startDate),
+    endDate: toDayKey(row.endDate),
+    multiplier: row.multiplier,
+    scope,
+    scopeValues: scope === "category" ? [row.scopeValues] : splitValues(row.scopeValues),
+    status: row.endDate < today ? "past" : row.startDate > today ? "upcoming" : "active",
+  };
+}
+
+export async function saveDemandEvent(shopDomain: string, data: DemandEventForm) {
+  const fields = {
+    name: data.name,
+    startDate: data.startDate,
+    endDate: data.endDate,
+    multiplier: data.multiplier,
+    scope: data.scope,
+    // Product types may contain commas; SKUs are joined and split again on read.
+    scopeValues: data.scope === "category" ? (data.scopeValues[0] ?? "") : data.scopeValues.join(","),
+  };
+
+  if (data.id) {
+    await prisma.demandEvent.updateMany({ where: { id: data.id, shopDomain }, data: fields });
+  } else {
+    await prisma.demandEvent.create({ data: { shopDomain, ...fields } });
+  }
+}
+
+export async function deleteDemandEvent(shopDomain: string, id: string) {
+  await prisma.demandEvent.deleteMany({ where: { id, shopDomain } });
+}
+
+/**
+ * Builds the shop's demand calendar from events that overlap the ledger history or lie ahead.
+ * Returns undefined when there are none, so callers skip the per-day lookups entirely.
+ */
+export async function getDemandCalendar(
+  shopDomain: string,
+  historyDays: number,
+): Promise<DemandCalendar | undefined> {
+  const today = startOfUtcDay(new Date());
+  const rows = await prisma.demandEvent.findMany({
+    where: { shopDomain, endDate: { gte: addDays(today, -historyDays) } },
+  });
+  if (rows.length === 0) return undefined;
+
+  const events = rows.map((row) => toRecord(row, today));
+  return (variant, start, days) => {
+    const matching = events.filter(
+      (event) =>
+        event.scope === "all" ||
+        (event.scope === "sku" && event.scopeValues.includes(variant.sku)) ||
+        (event.scope === "category" && event.scopeValues[0] === (variant.category ?? "")),
+    );
+    const first = startOfUtcDay(start);
+    return Array.from({ length: days }, (_, index) => {
+      const day = toDayKey(addDays(first, index));
+      return matching
+        .filter((event) => event.startDate <= day && day <= event.endDate)
+        .reduce((multiplier, event) => multiplier * event.multiplier, 1);
+    });
+  };
+}
+
+export async function getDemandEventsData(shopDomain: string): Promise<DemandEventsPayload> {
+  const today = startOfUtcDay(new Date());
+  const [rows, categories] = await Promise.all([
+    prisma.demandEvent.findMany({ where: { shopDomain }, orderBy: { startDate: "asc" } }),
+    prisma.inventoryMetric.findMany({
+      where: { shopDomain, category: { not: null } },
+      select: { category: true },
+      distinct: ["category"],
+      orderBy: { category: "asc" },
+    }),
+  ]);
+  const order = { active: 0, upcoming: 1, past: 2 };
+  return {
+    events: rows
+      .map((row) => toRecord(row, today))
+      .sort((a, b) => order[a.status] - order[b.status]),
+    categories: categories.map((row) => row.category ?? "").filter(Boolean),
+  };
+}
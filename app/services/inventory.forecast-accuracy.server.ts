@@ -0,0 +1,237 @@
+import {
+  DEFAULT_HISTORY_DAYS,
+  FORECAST_EVALUATION_DAYS,
+  FORECAST_MODEL_LABELS,
+  FORECAST_SNAPSHOT_RETENTION_DAYS,
+  UNASSIGNED_SUPPLIER_LABEL,
+} from "../config/inventory";
+import prisma from "../db.server";
+import { getBundleDemandSources } from "./inventory.bundles.server";
+import { getDemandCalendar } from "./inventory.events.server";
+import { toForecastModelSetting } from "./inventory.forecast";
+import { addDays, resolveDailyDemand, startOfUtcDay } from "./inventory.helpers.server";
+import type {
+  ForecastAccuracyGroup,
+  ForecastAccuracyPayload,
+  VariantMetrics,
+} from "./inventory.types";
+
+/** Snapshot model for variants without a fitted forecast (flat 30-day average). */
+const FLAT_MODEL = "flat";
+const SNAPSHOT_WINDOW_DAYS = 30;
+const SKU_ROW_LIMIT = 50;
+
+type EvaluatedSnapshot = {
+  variantId: string;
+  sku: string;
+  category: string;
+  supplierId: string | null;
+  model: string;
+  forecastQty: number;
+  actualQty: number;
+};
+
+function modelLabel(model: string) {
+  return model === FLAT_MODEL
+    ? "窗口平均（销量不足）"
+    : (FORECAST_MODEL_LABELS[model as keyof typeof FORECAST_MODEL_LABELS] ?? model);
+}
+
+/**
+ * Records today's forecast for every variant with enough sales to plan on, the same way the
+ * replenishment list computes it (30-day window, shop forecast model, demand events). Runs once
+ * per day: later syncs on the same day keep the first snapshot.
+ */
+export async function recordForecastSnapshots(shopDomain: string, variants: VariantMetrics[]) {
+  const date = startOfUtcDay(new Date());
+  const existing = await prisma.forecastSnapshot.count({ where: { shopDomain, date } });
+  if (existing > 0) return;
+
+  const [setting, skuSettings, demandCalendar] = await Promise.all([
+    prisma.shopSetting.findUnique({ where: { shopDomain }, select: { forecastModel: true } }),
+    prisma.skuSetting.findMany({ where: { shopDomain }, select: { sku: true, supplierId: true } }),
+    getDemandCalendar(shopDomain, DEFAULT_HISTORY_DAYS),
+  ]);
+  const forecastModel = toForecastModelSetting(setting?.forecastModel);
+  const supplierBySku = new Map(skuSettings.map((row) => [row.sku, row.supplierId]));
+
+  const data = variants.flatMap((variant) => {
+    const demand = resolveDailyDemand(
+      variant,
+      variant.sales["30d"],
+      SNAPSHOT_WINDOW_DAYS,
+      FORECAST_EVALUATION_DAYS,
+      forecastModel,
+      demandCalendar,
+    );
+    if (!demand.hasEnoughSales) return [];
+    return [
+      {
+        shopDomain,
+        variantId: variant.id,
+        sku: variant.sku,
+        category: variant.category ?? "",
+        supplierId: supplierBySku.get(variant.sku) ?? null,
+        model: demand.forecast?.model ?? FLAT_MODEL,
+        date,
+        horizonDays: FORECAST_EVALUATION_DAYS,
+        forecastQty: demand.dailyRate * FORECAST_EVALUATION_DAYS,
+      },
+    ];
+  });
+  if (data.length > 0) {
+    await prisma.forecastSnapshot.createMany({ data });
+  }
+}
+
+/**
+ * Fills in actual sales for snapshots whose horizon has fully passed, from the daily ledger,
+ * and drops snapshots past the retention window. Components also count the sales of bundles
+ * they belong to, as their forecasts do. Returns the number evaluated.
+ */
+export async function evaluateForecastSnapshots(shopDomain: string): Promise<number> {
+  const today = startOfUtcDay(new Date());
+  await prisma.forecastSnapshot.deleteMany({
+    where: { shopDomain, date: { lt: addDays(today, -FORECAST_SNAPSHOT_RETENTION_DAYS) } },
+  });
+
+  const due = (
+    await prisma.forecastSnapshot.findMany({
+      where: { shopDomain, evaluatedAt: null, date: { lte: addDays(today, -1) } },
+      select: { id: true, variantId: true, date: true, horizonDays: true },
+    })
+  ).filter((snapshot) => addDays(snapshot.date, snapshot.horizonDays) <= today);
+  if (due.length === 0) return 0;
+
+  const since = due.reduce((earliest, snapshot) => (snapshot.date < earliest ? snapshot.date : earliest), today);
+  const bundleSources = await getBundleDemandSources(shopDomain);
+  const variantIds = new Set(
+    due.flatMap((snapshot) => [
+      snapshot.variantId,
+      ...(bundleSources.get(snapshot.variantId) ?? []).map((source) => source.variantId),
+    ]),
+  );
+  const ledger = await prisma.variantDailySales.findMany({
+    where: {
+      shopDomain,
+      variantId: { in: [...variantIds] },
+      date: { gte: since, lt: today },
+    },
+    select: { variantId: true, date: true, quantity: true },
+  });
+  const salesByVariant = new Map<string, { date: Date; quantity: number }[]>();
+  ledger.forEach((row) => {
+    const list = salesByVariant.get(row.variantId) ?? [];
+    list.push(row);
+    salesByVariant.set(row.variantId, list);
+  });
+
+  const evaluatedAt = new Date();
+  await prisma.$transaction(
+    due.map((snapshot) => {
+      const end = addDays(snapshot.date, snapshot.horizonDays);
+      const soldWithin = (variantId: string) =>
+        (salesByVariant.get(variantId) ?? [])
+          .filter((row) => row.date >= snapshot.date && row.date < end)
+          .reduce((total, row) => total + row.quantity, 0);
+      const actualQty = (bundleSources.get(snapshot.variantId) ?? []).reduce(
+        (total, source) => total + soldWithin(source.variantId) * source.quantity,
+        soldWithin(snapshot.variantId),
+      );
+      return prisma.forecastSnapshot.update({
+        where: { id: snapshot.id },
+        data: { actualQty, evaluatedAt },
+      });
+    }),
+  );
+  return due.length;
+}
+
+function summarise(key: string, label: string, rows: EvaluatedSnapshot[]): ForecastAccuracyGroup {
+  const forecastQty = rows.reduce((total, row) => total + row.forecastQty, 0);
+  const actualQty = rows.reduce((total, row) => total + row.actualQty, 0);
+  const withSales = rows.filter((row) => row.actualQty > 0);
+  return {
+    key,
+    label,
+    count: rows.length,
+    forecastQty,
+    actualQty,
+    mape: withSales.length
+      ? withSales.reduce((total, row) => total + Math.abs(row.forecastQty - row.actualQty) / row.actualQty, 0) /
+        withSales.length
+      : undefined,
+    bias: actualQty > 0 ? (forecastQty - actualQty) / actualQty : undefined,
+  };
+}
+
+function groupBy(
+  rows: EvaluatedSnapshot[],
+  keyOf: (row: EvaluatedSnapshot) => string,
+  labelOf: (key: string) => string,
+): ForecastAccuracyGroup[] {
+  const groups = new Map<string, EvaluatedSnapshot[]>();
+  rows.forEach((row) => {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+  return [...groups.entries()]
+    .map(([key, group]) => summarise(key, labelOf(key), group))
+    .sort((a, b) => b.count - a.count);
+}
+
+/** Accuracy of snapshots made in the last `windowDays` days, overall and per group. */
+export async function getForecastAccuracyData(
+  shopDomain: string,
+  windowDays = 90,
+): Promise<ForecastAccuracyPayload> {
+  await evaluateForecastSnapshots(shopDomain);
+
+  const since = addDays(startOfUtcDay(new Date()), -windowDays);
+  const [snapshots, pendingCount, suppliers] = await Promise.all([
+    prisma.forecastSnapshot.findMany({
+      where: { shopDomain, evaluatedAt: { not: null }, date: { gte: since } },
+      select: {
+        variantId: true,
+        sku: true,
+        category: true,
+        supplierId: true,
+        model: true,
+        forecastQty: true,
+        actualQty: true,
+        evaluatedAt: true,
+      },
+      orderBy: { evaluatedAt: "desc" },
+    }),
+    prisma.forecastSnapshot.count({ where: { shopDomain, evaluatedAt: null } }),
+    prisma.supplier.findMany({ where: { shopDomain }, select: { id: true, name: true } }),
+  ]);
+  const rows: EvaluatedSnapshot[] = snapshots.map((snapshot) => ({
+    ...snapshot,
+    actualQty: snapshot.actualQty ?? 0,
+  }));
+  const metrics = await prisma.inventoryMetric.findMany({
+    where: { shopDomain, variantId: { in: [...new Set(rows.map((row) => row.variantId))] } },
+    select: { sku: true, name: true, variantTitle: true },
+  });
+  const supplierNames = new Map(suppliers.map((supplier) => [supplier.id, supplier.name]));
+  const productNames = new Map(metrics.map((metric) => [metric.sku, `${metric.name} · ${metric.variantTitle}`]));
+
+  return {
+    windowDays,
+    horizonDays: FORECAST_EVALUATION_DAYS,
+    summary: summarise("all", "全部 SKU", rows),
+    pendingCount,
+    lastEvaluated: snapshots[0]?.evaluatedAt?.toISOString(),
+    byModel: groupBy(rows, (row) => row.model, modelLabel),
+    byCategory: groupBy(rows, (row) => row.category, (key) => key || "未分类"),
+    bySupplier: groupBy(
+      rows,
+      (row) => row.supplierId ?? "",
+      (key) => supplierNames.get(key) ?? UNASSIGNED_SUPPLIER_LABEL,
+    ),
+    bySku: groupBy(rows, (row) => row.sku, (key) => productNames.get(key) ?? key)
+      .sort((a, b) => (b.mape ?? -1) - (a.mape ?? -1))
+      .slice(0, SKU_ROW_LIMIT),
+  };
+}
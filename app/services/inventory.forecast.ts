@@ -0,0 +1,164 @@
+import type { DemandForecast, ForecastModel, ForecastModelSetting } from "./inventory.types";
+
+/**
+ * Daily demand forecasting from the sales ledger (pure, no I/O).
+ *
+ * Every model is fitted on a daily series (oldest first, zero-sale days included) and returns a
+ * per-day forecast for the requested horizon:
+ * - moving-average: mean of the last 7 / 14 / 28 days, whichever backtests best;
+ * - holt: damped level + trend exponential smoothing;
+ * - holt-winters: Holt plus additive weekly (7-day) seasonality;
+ * - croston: demand size / interval smoothing (SBA-corrected) for intermittent sellers.
+ *
+ * In "auto" mode each candidate is fitted on the series minus a holdout tail and scored by mean
+ * absolute error on that tail; the winner is refitted on the whole series. Smoothing parameters
+ * are picked the same way from a small grid.
+ */
+
+const SEASON_LENGTH = 7;
+const DAMPING = 0.9;
+const MAX_HOLDOUT_DAYS = 14;
+/** Fewer days with a sale than this is not enough to fit anything. */
+export const MIN_FORECAST_SALE_DAYS = 2;
+
+export const FORECAST_MODELS: ForecastModel[] = ["moving-average", "holt", "holt-winters", "croston"];
+
+export function toForecastModelSetting(value?: string | null): ForecastModelSetting {
+  return value === "auto" || FORECAST_MODELS.includes(value as ForecastModel)
+    ? (value as ForecastModelSetting)
+    : "auto";
+}
+
+type Forecaster = (series: number[], horizon: number) => number[];
+
+const ALPHAS = [0.1, 0.3, 0.5];
+const BETAS = [0.05, 0.2];
+const GAMMAS = [0.1, 0.3];
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+}
+
+function meanAbsoluteError(actual: number[], forecast: number[]) {
+  return mean(actual.map((value, index) => Math.abs(value - (forecast[index] ?? 0))));
+}
+
+function movingAverage(window: number): Forecaster {
+  return (series, horizon) => Array(horizon).fill(mean(series.slice(-window)));
+}
+
+function holt(alpha: number, beta: number): Forecaster {
+  return (series, horizon) => {
+    let level = series[0] ?? 0;
+    let trend = series.length > 1 ? series[1] - series[0] : 0;
+    for (let t = 1; t < series.length; t += 1) {
+      const previousLevel = level;
+      level = alpha * series[t] + (1 - alpha) * (level + DAMPING * trend);
+      trend = beta * (level - previousLevel) + (1 - beta) * DAMPING * trend;
+    }
+    const forecast: number[] = [];
+    let damped = 0;
+    for (let h = 1; h <= horizon; h += 1) {
+      damped += DAMPING ** h;
+      forecast.push(level + damped * trend);
+    }
+    return forecast;
+  };
+}
+
+function holtWinters(alpha: number, beta: number, gamma: number): Forecaster {
+  return (series, horizon) => {
+    const firstSeason = series.slice(0, SEASON_LENGTH);
+    const secondSeason = series.slice(SEASON_LENGTH, SEASON_LENGTH * 2);
+    let level = mean(firstSeason);
+    let trend = (mean(secondSeason) - level) / SEASON_LENGTH;
+    const seasonal = firstSeason.map((value) => value - level);
+
+    for (let t = SEASON_LENGTH; t < series.length; t += 1) {
+      const slot = t % SEASON_LENGTH;
+      const previousLevel = level;
+      level = alpha * (series[t] - seasonal[slot]) + (1 - alpha) * (level + DAMPING * trend);
+      trend = beta * (level - previousLevel) + (1 - beta) * DAMPING * trend;
+      seasonal[slot] = gamma * (series[t] - level) + (1 - gamma) * seasonal[slot];
+    }
+
+    const forecast: number[] = [];
+    let damped = 0;
+    for (let h = 1; h <= horizon; h += 1) {
+      damped += DAMPING ** h;
+      forecast.push(level + damped * trend + seasonal[(series.length + h - 1) % SEASON_LENGTH]);
+    }
+    return forecast;
+  };
+}
+
+function croston(alpha: number): Forecaster {
+  return (series, horizon) => {
+    let size: number | undefined;
+    let interval: number | undefined;
+    let sinceLast = 1;
+    series.forEach((value) => {
+      if (value > 0) {
+        size = size === undefined ? value : alpha * value + (1 - alpha) * size;
+        interval = interval === undefined ? sinceLast : alpha * sinceLast + (1 - alpha) * interval;
+        sinceLast = 1;
+      } else {
+        sinceLast += 1;
+      }
+    });
+    const rate = size === undefined || !interval ? 0 : (1 - alpha / 2) * (size / interval);
+    return Array(horizon).fill(rate);
+  };
+}
+
+function candidatesFor(model: ForecastModel, length: number): Forecaster[] {
+  switch (model) {
+    case "moving-average":
+      return [7, 14, 28].filter((window) => window <= length).map(movingAverage);
+    case "holt":
+      return ALPHAS.flatMap((alpha) => BETAS.map((beta) => holt(alpha, beta)));
+    case "holt-winters":
+      if (length < SEASON_LENGTH * 2) return [];
+      return ALPHAS.flatMap((alpha) =>
+        BETAS.flatMap((beta) => GAMMAS.map((gamma) => holtWinters(alpha, beta, gamma))),
+      );
+    case "croston":
+      return ALPHAS.map(croston);
+  }
+}
+
+/**
+ * Forecasts average daily demand over the next `horizon` days. Returns undefined when the
+ * series has too few sale days to fit a model; callers then fall back to the flat average.
+ */
+export function forecastDemand(
+  series: number[],
+  horizon: number,
+  setting: ForecastModelSetting = "auto",
+): DemandForecast | undefined {
+  if (series.filter((value) => value > 0).length < MIN_FORECAST_SALE_DAYS) return undefined;
+
+  const holdout = Math.min(MAX_HOLDOUT_DAYS, Math.floor(series.length / 3));
+  const train = series.slice(0, series.length - holdout);
+  const actual = series.slice(series.length - holdout);
+  const models = setting === "auto" ? FORECAST_MODELS : [setting];
+
+  let best: { model: ForecastModel; forecaster: Forecaster; error: number } | undefined;
+  models.forEach((model) => {
+    candidatesFor(model, train.length).forEach((forecaster) => {
+      const error = holdout > 0 ? meanAbsoluteError(actual, forecaster(train, holdout)) : 0;
+      if (!best || error < best.error) best = { model, forecaster, error };
+    });
+  });
+  // A forced model that cannot be fitted (e.g. Holt-Winters on under two weeks) falls back to Croston.
+  if (!best) {
+    best = { model: "croston", forecaster: croston(ALPHAS[0]), error: 0 };
+  }
+
+  const forecast = best.forecaster(series, Math.max(1, horizon));
+  return {
+    model: best.model,
+    dailyRate: Math.max(0, mean(forecast)),
+    error: best.error,
+  };
+}
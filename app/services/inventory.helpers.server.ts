@@ -1,4 +1,5 @@
 import {
+  DEFAULT_FORECAST_MODEL,
   DEFAULT_OVERSTOCK_THRESHOLD_DAYS,
   DEFAULT_SHORTAGE_THRESHOLD_DAYS,
   DEFAULT_TARGET_COVERAGE,
@@ -6,20 +7,37 @@ import {
   MIN_DAILY_SALES,
   MIN_RECOMMENDED_QTY,
   MIN_SALES_FOR_FORECAST,
+  MIN_TARGET_COVERAGE_DAYS,
 } from "../config/inventory";
 import type {
   BudgetCandidate,
+  BudgetPeriod,
   BudgetPlan,
+  BudgetSettings,
   DashboardRow,
   DashboardTimeframe,
+  DemandCalendar,
+  DemandForecast,
+  ForecastModelSetting,
   KPICard,
+  LocationScope,
+  OrderConstraints,
+  PlanningOverride,
+  PlanningParams,
+  PlanningSource,
   Reminders,
   TimeframeKey,
   VariantDetail,
   VariantMetrics,
+  VariantSalesBuckets,
 } from "./inventory.types";
+import { buildAllocationPlan } from "./inventory.allocation";
+import { forecastDemand } from "./inventory.forecast";
+import { standardDeviation } from "./inventory.safety-stock";
 
 export const DEFAULT_HISTORY_WINDOW_DAYS = 30;
+export const UNATTRIBUTED_LOCATION = "";
+export const ALL_LOCATIONS_SCOPE = "all";
 
 export function parseHistoryWindowDays(historyWindow: string | undefined) {
   if (!historyWindow) return DEFAULT_HISTORY_WINDOW_DAYS;
@@ -59,6 +77,28 @@ export function median(values: number[]): number {
   return sorted[mid];
 }
 
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
 export function round1(value: number): number {
   return Math.round(value * 10) / 10;
 }
@@ -71,40 +111,296 @@ export function formatCurrency(value: number): string {
   });
 }
 
+export function emptySalesBuckets(): VariantSalesBuckets {
+  return { "30d": 0, "60d": 0, "90d": 0 };
+}
+
+export function sumSalesBuckets(buckets: VariantSalesBuckets[]): VariantSalesBuckets {
+  return buckets.reduce(
+    (total, bucket) => ({
+      "30d": total["30d"] + bucket["30d"],
+      "60d": total["60d"] + bucket["60d"],
+      "90d": total["90d"] + bucket["90d"],
+    }),
+    emptySalesBuckets(),
+  );
+}
+
+export function sumDailySales(series: number[][]): number[] {
+  const length = Math.max(0, ...series.map((values) => values.length));
+  return Array.from({ length }, (_, index) =>
+    series.reduce((total, values) => total + (values[index] ?? 0), 0),
+  );
+}
+
+/**
+ * A single requested location scopes to that location only; anything else scopes to the
+ * locations included in calculations, which also keeps orders not attributed to a location.
+ */
+export function resolveLocationScope(
+  locations: { id: string; name: string; selected: boolean }[],
+  requested?: string | null,
+): LocationScope {
+  const single =
+    requested && requested !== ALL_LOCATIONS_SCOPE
+      ? locations.find((location) => location.id === requested)
+      : undefined;
+  if (single) {
+    return {
+      scope: single.id,
+      label: single.name,
+      locationIds: [single.id],
+      includeUnattributed: false,
+    };
+  }
+
+  const selected = locations.filter((location) => location.selected);
+  return {
+    scope: ALL_LOCATIONS_SCOPE,
+    label: "All included locations",
+    locationIds: selected.length > 0 ? selected.map((location) => location.id) : undefined,
+    includeUnattributed: true,
+  };
+}
+
+export function scopeVariantMetrics(
+  variants: VariantMetrics[],
+  scope: LocationScope,
+): VariantMetrics[] {
+  const { locationIds } = scope;
+  if (!locationIds) return variants;
+
+  // Fallback location lists (Shopify unreachable) never match stored levels; scoping by
+  // them would zero every variant, so leave the shop-wide totals in place instead.
+  const knownLocations = new Set(
+    variants.flatMap((variant) => variant.levels?.map((level) => level.locationId) ?? []),
+  );
+  if (!locationIds.some((id) => knownLocations.has(id))) return variants;
+
+  const included = new Set(locationIds);
+  return variants.map((variant) => {
+    if (!variant.levels) return variant;
+    const scopedLevels = variant.levels.filter((level) => included.has(level.locationId));
+    const available = sum(scopedLevels.map((level) => level.available));
+    const incoming = sum(scopedLevels.map((level) => level.incoming ?? 0));
+    const inScope = (locationId: string) =>
+      included.has(locationId) ||
+      (scope.includeUnattributed && locationId === UNATTRIBUTED_LOCATION);
+    const sales = sumSalesBuckets(
+      Object.entries(variant.locationSales ?? {})
+        .filter(([locationId]) => inScope(locationId))
+        .map(([, buckets]) => buckets),
+    );
+    const dailySales = variant.locationDailySales
+      ? sumDailySales(
+          Object.entries(variant.locationDailySales)
+            .filter(([locationId]) => inScope(locationId))
+            .map(([, series]) => series),
+        )
+      : variant.dailySales;
+    return { ...variant, available, incoming, sales, dailySales };
+  });
+}
+
+export function computeTargetCoverage(leadTimeDays: number, safetyDays: number) {
+  return Math.max(leadTimeDays + safetyDays, MIN_TARGET_COVERAGE_DAYS);
+}
+
+/**
+ * Effective lead time and safety days for one SKU: a SKU override wins over its supplier's
+ * default, which wins over the shop-wide setting. Each value is resolved independently.
+ */
+export function resolvePlanningParams(
+  shop: { leadTimeDays: number; safetyDays: number },
+  overrides: { sku?: PlanningOverride; supplier?: PlanningOverride } = {},
+): PlanningParams {
+  const pick = (key: keyof PlanningOverride): [number, PlanningSource] => {
+    const skuValue = overrides.sku?.[key];
+    if (skuValue !== undefined) return [skuValue, "sku"];
+    const supplierValue = overrides.supplier?.[key];
+    if (supplierValue !== undefined) return [supplierValue, "supplier"];
+    return [shop[key], "shop"];
+  };
+  const [leadTimeDays, leadTimeSource] = pick("leadTimeDays");
+  const [safetyDays, safetyDaysSource] = pick("safetyDays");
+
+  return {
+    leadTimeDays,
+    safetyDays,
+    targetCoverage: computeTargetCoverage(leadTimeDays, safetyDays),
+    leadTimeSource,
+    safetyDaysSource,
+  };
+}
+
+/**
+ * Imputes sales on sold-out days: each one gets the average of the window's in-stock days, or
+ * its recorded sales when higher (the SKU may have sold out mid-day). A window with no in-stock
+ * day is left as recorded. `outOfStock` is aligned with `series`.
+ */
+export function adjustForStockouts(
+  series: number[],
+  outOfStock: boolean[] = [],
+): { series: number[]; stockoutDays: number; lostSales: number } {
+  const inStock = series.filter((_, index) => !outOfStock[index]);
+  const stockoutDays = series.length - inStock.length;
+  if (stockoutDays === 0 || inStock.length === 0) {
+    return { series, stockoutDays, lostSales: 0 };
+  }
+  const inStockRate = sum(inStock) / inStock.length;
+  const adjusted = series.map((value, index) =>
+    outOfStock[index] ? Math.max(value, inStockRate) : value,
+  );
+  return { series: adjusted, stockoutDays, lostSales: sum(adjusted) - sum(series) };
+}
+
+/**
+ * Daily demand for one variant over the last `days` days. Sold-out days are imputed first
+ * (`adjustForStockouts`) so stockouts don't read as lower demand. The forecast model is fitted
+ * on the adjusted daily ledger over `horizon`; variants without a usable daily series fall back
+ * to the flat window average plus imputed sales, which needs `MIN_SALES_FOR_FORECAST` units
+ * (otherwise 0).
+ *
+ * With a demand `calendar`, past event days are divided by their multiplier before fitting (so
+ * last month's promotion doesn't carry forward) and the resulting baseline is scaled by the
+ * average multiplier over the next `horizon` days, returned as `eventMultiplier`.
+ */
+export function resolveDailyDemand(
+  variant: Pick<VariantMetrics, "sku" | "category" | "dailySales" | "outOfStock">,
+  sales: number,
+  days: number,
+  horizon: number,
+  forecastModel: ForecastModelSetting = DEFAULT_FORECAST_MODEL,
+  calendar?: DemandCalendar,
+): {
+  dailyRate: number;
+  forecast?: DemandForecast;
+  hasEnoughSales: boolean;
+  stockoutDays: number;
+  lostSales: number;
+  demandStdDev: number;
+  eventMultiplier: number;
+} {
+  const adjusted = variant.dailySales
+    ? adjustForStockouts(variant.dailySales.slice(-days), variant.outOfStock?.slice(-days))
+    : { series: undefined, stockoutDays: 0, lostSales: 0 };
+  const { stockoutDays, lostSales } = adjusted;
+  const today = startOfUtcDay(new Date());
+  const pastMultipliers =
+    calendar && adjusted.series
+      ? calendar(variant, addDays(today, -adjusted.series.length), adjusted.series.length)
+      : [];
+  const series = adjusted.series?.map((value, index) => value / (pastMultipliers[index] ?? 1));
+  const upcoming = calendar ? calendar(variant, today, Math.max(1, Math.ceil(horizon))) : [];
+  const eventMultiplier = upcoming.length ? sum(upcoming) / upcoming.length : 1;
+  const demandStdDev = series ? standardDeviation(series) * eventMultiplier : 0;
+  const forecast = series ? forecastDemand(series, horizon, forecastModel) : undefined;
+  if (forecast) {
+    return {
+      dailyRate: forecast.dailyRate * eventMultiplier,
+      forecast,
+      hasEnoughSales: true,
+      stockoutDays,
+      lostSales,
+      demandStdDev,
+      eventMultiplier,
+    };
+  }
+  const hasEnoughSales = sales >= MIN_SALES_FOR_FORECAST;
+  const pastMultiplier = pastMultipliers.length ? sum(pastMultipliers) / pastMultipliers.length : 1;
+  const baseline = safeDivide(sales + lostSales, days, 0) / pastMultiplier;
+  return {
+    dailyRate: hasEnoughSales ? baseline * eventMultiplier : 0,
+    hasEnoughSales,
+    stockoutDays,
+    lostSales,
+    demandStdDev,
+    eventMultiplier,
+  };
+}
+
+/**
+ * Rows for one sales window, with daily demand from `resolveDailyDemand` (scaled by
+ * `demandCalendar` events over each row's coverage horizon). Stock is topped up to
+ * `targetCoverage` days of demand; with `safetyStockFor`, also to at least lead-time demand plus
+ * the returned safety stock (units), which sets `safetyQty` and `reorderPoint` on the row. A
+ * statistical safety stock (with `reviewDays`) instead orders up to lead-time plus review-period
+ * demand plus the safety stock.
+ */
 export function buildRowsForTimeframe(
   variants: VariantMetrics[],
   timeframe: TimeframeKey,
-  targetCoverage = DEFAULT_TARGET_COVERAGE,
+  targetCoverageFor: number | ((variant: VariantMetrics) => number) = DEFAULT_TARGET_COVERAGE,
+  forecastModel: ForecastModelSetting = DEFAULT_FORECAST_MODEL,
+  safetyStockFor?: (
+    variant: VariantMetrics,
+    demand: { dailyRate: number; demandStdDev: number },
+  ) => { leadTimeDays: number; safetyQty: number; reviewDays?: number },
+  demandCalendar?: DemandCalendar,
 ): DashboardRow[] {
   const days = timeframe === "30d" ? 30 : timeframe === "60d" ? 60 : 90;
 
   return variants.map((variant) => {
+    const targetCoverage =
+      typeof targetCoverageFor === "function" ? targetCoverageFor(variant) : targetCoverageFor;
     const sales = variant.sales[timeframe];
-    const hasEnoughSales = sales >= MIN_SALES_FOR_FORECAST;
-    const avgDailySalesRaw = hasEnoughSales ? safeDivide(sales, days, 0) : 0;
+    const {
+      dailyRate: avgDailySalesRaw,
+      forecast,
+      hasEnoughSales,
+      stockoutDays,
+      lostSales,
+      demandStdDev,
+      eventMultiplier,
+    } = resolveDailyDemand(variant, sales, days, targetCoverage, forecastModel, demandCalendar);
+    const safety = safetyStockFor?.(variant, { dailyRate: avgDailySalesRaw, demandStdDev });
+    const reorderPoint = safety
+      ? avgDailySalesRaw * safety.leadTimeDays + safety.safetyQty
+      : undefined;
+    const orderUpTo =
+      safety?.reviewDays !== undefined
+        ? avgDailySalesRaw * (safety.leadTimeDays + safety.reviewDays) + safety.safetyQty
+        : Math.max(avgDailySalesRaw * targetCoverage, reorderPoint ?? 0);
     const avgDailySales = round1(avgDailySalesRaw);
     const daysOfStock = computeCoverage(variant.available, avgDailySalesRaw);
+    const incoming = variant.incoming ?? 0;
+    const onOrder = variant.onOrder ?? 0;
+    // Stock already inbound (Shopify incoming + the app's open POs) counts toward the target.
     const recommendedQty =
       avgDailySalesRaw === 0
         ? 0
-        : Math.max(0, Math.ceil(avgDailySalesRaw * targetCoverage - variant.available));
+        : Math.max(0, Math.ceil(orderUpTo - variant.available - incoming - onOrder));
     const unitCost = variant.unitCost;
     const stockValue = (unitCost ?? 0) * variant.available;
 
     return {
+      variantId: variant.id,
       sku: variant.sku,
       name: variant.name,
       variant: variant.variant,
       available: variant.available,
+      incoming,
+      onOrder,
       avgDailySales,
+      forecastModel: forecast?.model,
       daysOfStock,
       recommendedQty,
       coverageDays: daysOfStock,
+      targetCoverage: avgDailySalesRaw > 0 ? round1(orderUpTo / avgDailySalesRaw) : targetCoverage,
       stockValue,
       unitCost,
+      price: variant.price,
       sales,
       salesValue: (unitCost ?? 0) * sales,
       insufficientSales: !hasEnoughSales,
+      stockoutDays,
+      lostSales: Math.round(lostSales),
+      demandStdDev,
+      safetyQty: safety ? Math.ceil(safety.safetyQty) : undefined,
+      reorderPoint: reorderPoint !== undefined ? Math.ceil(reorderPoint) : undefined,
+      abcClass: variant.abcClass,
+      xyzClass: variant.xyzClass,
+      eventMultiplier: eventMultiplier !== 1 ? Math.round(eventMultiplier * 100) / 100 : undefined,
     };
   });
 }
@@ -159,63 +455,45 @@ export function buildTimeframe(
   return { kpis, shortage, overstock, rows };
 }
 
-export function buildBudgetPlan(rows: BudgetCandidate[]): BudgetPlan {
-  const budget = 18000;
-  const picks: BudgetPlan["picks"] = [];
-
-  const candidates = rows
-    .filter((row) => row.recommendedQty > 0)
-    .map((row) => {
-      const unitCost =
-        row.unitCost ??
-        (row.stockValue && row.available > 0 ? row.stockValue / row.available : undefined) ??
-        0;
-      const spend = row.recommendedQty * unitCost;
-      const riskScore = row.daysOfStock > 0 ? 1 / row.daysOfStock : 2;
-      const importance =
-        row.salesValue ??
-        (row.sales
-          ? row.sales * Math.max(unitCost, 1)
-          : row.avgDailySales * 30 * Math.max(unitCost, 1));
-      const score = riskScore * (importance || 1);
-      return { row, unitCost, spend, score };
-    })
-    .sort((a, b) => b.score - a.score);
-
-  let used = 0;
-
-  candidates.forEach(({ row, spend }) => {
-    if (spend <= 0) return;
-    if (used + spend <= budget || picks.length === 0) {
-      used += spend;
-      picks.push({
-        sku: row.sku,
-        name: row.name,
-        qty: row.recommendedQty,
-        amount: formatCurrency(spend),
-        risk:
-          row.daysOfStock <= DEFAULT_SHORTAGE_THRESHOLD_DAYS ? "爆款防断货" : "库存紧张",
-      });
-    }
-  });
+/** Start of the budget period containing `now` (UTC), or undefined when budgets are not periodic. */
+export function budgetPeriodStart(period: BudgetPeriod, now = new Date()): Date | undefined {
+  if (period === "month") {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+  if (period === "quarter") {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (now.getUTCMonth() % 3), 1));
+  }
+  return undefined;
+}
 
-  const pickedSkus = new Set(picks.map((pick) => pick.sku));
-  const excludedAmount = candidates
-    .filter(({ row }) => !pickedSkus.has(row.sku))
-    .reduce((total, item) => total + item.spend, 0);
-  const excludedCount = Math.max(candidates.length - picks.length, 0);
-  const totalPool = used + excludedAmount || budget;
-  const coverageShare = totalPool > 0 ? Math.min(1, used / totalPool) : 0;
+/**
+ * Allocates the budget left in the period across the recommendations (see
+ * `inventory.allocation.ts`). Rows whose supplier has its own budget are also capped by what
+ * remains of that supplier's budget.
+ */
+export function buildBudgetPlan(rows: BudgetCandidate[], settings: BudgetSettings): BudgetPlan {
+  return buildAllocationPlan(
+    rows,
+    {
+      budget: settings.amount,
+      period: settings.period,
+      spentAmount: settings.spentAmount,
+      suppliers: settings.suppliers,
+    },
+    DEFAULT_TARGET_COVERAGE,
+  );
+}
 
+/**
+ * Effective MOQ and case pack for one SKU: the SKU's own values win, and the supplier's MOQ
+ * applies when the SKU has none. Without either the SKU is bought by the unit.
+ */
+export function resolveOrderConstraints(
+  overrides: { sku?: OrderConstraints; supplier?: OrderConstraints } = {},
+): Required<OrderConstraints> {
   return {
-    budget,
-    coverageDays: DEFAULT_TARGET_COVERAGE,
-    usedAmount: used,
-    excludedAmount,
-    coverageShare,
-    picks,
-    excludedValue: formatCurrency(Math.abs(excludedAmount)),
-    excludedCount,
+    moq: overrides.sku?.moq ?? overrides.supplier?.moq ?? 0,
+    casePack: overrides.sku?.casePack ?? 1,
   };
 }
 
@@ -240,22 +518,6 @@ export function buildReminders(
   return { reminders, missingCostCount: costMissing };
 }
 
-export function buildSeriesFromSales(total30d: number): { date: string; quantity: number }[] {
-  return Array.from({ length: 14 }).map((_, idx) => ({
-    date: `Day ${idx + 1}`,
-    quantity: Math.max(0, Math.round((total30d / 30) * (1 + Math.sin(idx) * 0.2))),
-  }));
-}
-
-export function buildSeriesFromInventory(
-  available: number,
-): { date: string; quantity: number }[] {
-  return Array.from({ length: 14 }).map((_, idx) => ({
-    date: `Day ${idx + 1}`,
-    quantity: Math.max(0, Math.round(available - idx * 2)),
-  }));
-}
-
 export function getSampleVariantDetail(): VariantDetail {
   const history = Array.from({ length: 14 }).map((_, idx) => ({
     date: `Day ${idx + 1}`,
@@ -275,6 +537,10 @@ export function getSampleVariantDetail(): VariantDetail {
     coverage60d: 8,
     coverage90d: 9,
     historicalStockouts: 2,
+    lostSales: { stockoutDays: 2, units: 11, revenue: 869 },
+    incoming: 0,
+    onOrder: 0,
+    locationBreakdown: [],
     salesHistory: history,
     inventoryHistory: history.map((item) => ({ ...item, quantity: item.quantity + 20 })),
   };
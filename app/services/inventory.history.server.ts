@@ -0,0 +1,136 @@
+import { DEFAULT_HISTORY_DAYS, SYNC_WRITE_BATCH_SIZE } from "../config/inventory";
+import prisma from "../db.server";
+import { addDays, chunk, startOfUtcDay, toDayKey } from "./inventory.helpers.server";
+
+type HistoryPoint = { date: string; quantity: number };
+
+function formatDayLabel(date: Date): string {
+  return toDayKey(date).slice(5);
+}
+
+export async function saveInventorySnapshots(
+  shopDomain: string,
+  levels: { variantId: string; available: number }[],
+) {
+  const date = startOfUtcDay(new Date());
+  for (const batch of chunk(levels, SYNC_WRITE_BATCH_SIZE)) {
+    await prisma.$transaction(
+      batch.map((level) =>
+        prisma.inventorySnapshot.upsert({
+          where: {
+            shopDomain_variantId_date: { shopDomain, variantId: level.variantId, date },
+          },
+          update: { available: level.available },
+          create: { shopDomain, variantId: level.variantId, date, available: level.available },
+        }),
+      ),
+    );
+  }
+}
+
+/**
+ * Daily units sold for the last `days` days (oldest first), with zero-sale days filled in.
+ */
+export async function getSalesHistory(
+  shopDomain: string,
+  variantId: string,
+  days: number,
+): Promise<HistoryPoint[]> {
+  const today = startOfUtcDay(new Date());
+  const start = addDays(today, -(days - 1));
+  const rows = await prisma.variantDailySales.findMany({
+    where: { shopDomain, variantId, date: { gte: start } },
+    select: { date: true, quantity: true },
+  });
+  const byDay = new Map(rows.map((row) => [toDayKey(row.date), row.quantity]));
+
+  return Array.from({ length: days }).map((_, idx) => {
+    const date = addDays(start, idx);
+    return { date: formatDayLabel(date), quantity: byDay.get(toDayKey(date)) ?? 0 };
+  });
+}
+
+/**
+ * Daily on-hand snapshots for the last `days` days. Days without a snapshot carry the
+ * previous known value forward; days before the first snapshot are left out.
+ */
+export async function getInventoryHistory(
+  shopDomain: string,
+  variantId: string,
+  days: number,
+): Promise<HistoryPoint[]> {
+  const today = startOfUtcDay(new Date());
+  const start = addDays(today, -(days - 1));
+  const [rows, previous] = await Promise.all([
+    prisma.inventorySnapshot.findMany({
+      where: { shopDomain, variantId, date: { gte: start } },
+      select: { date: true, available: true },
+    }),
+    prisma.inventorySnapshot.findFirst({
+      where: { shopDomain, variantId, date: { lt: start } },
+      select: { available: true },
+      orderBy: { date: "desc" },
+    }),
+  ]);
+  const byDay = new Map(rows.map((row) => [toDayKey(row.date), row.available]));
+
+  const history: HistoryPoint[] = [];
+  let last = previous?.available;
+  for (let idx = 0; idx < days; idx += 1) {
+    const date = addDays(start, idx);
+    last = byDay.get(toDayKey(date)) ?? last;
+    if (last !== undefined) {
+      history.push({ date: formatDayLabel(date), quantity: last });
+    }
+  }
+  return history;
+}
+
+/** Sold-out days of the variant, counted on the same calendar the demand imputation uses. */
+export async function countStockoutDays(
+  shopDomain: string,
+  variantId: string,
+  days = DEFAULT_HISTORY_DAYS,
+): Promise<number> {
+  const calendar = await getStockoutCalendar(shopDomain, days, variantId);
+  return (calendar.get(variantId) ?? []).filter(Boolean).length;
+}
+
+/**
+ * Per variant, whether on-hand stock was at or below zero on each of the last `days` complete
+ * days (oldest first, today excluded), aligned with the daily sales series. Days without a
+ * snapshot carry the previous one forward; days before a variant's first snapshot count as
+ * in stock. `variantId` limits the calendar to one variant.
+ */
+export async function getStockoutCalendar(
+  shopDomain: string,
+  days: number,
+  variantId?: string,
+): Promise<Map<string, boolean[]>> {
+  const today = startOfUtcDay(new Date());
+  const start = addDays(today, -days);
+  const rows = await prisma.inventorySnapshot.findMany({
+    where: { shopDomain, variantId, date: { gte: start, lt: today } },
+    select: { variantId: true, date: true, available: true },
+    orderBy: { date: "asc" },
+  });
+  const byVariant = new Map<string, Map<string, number>>();
+  rows.forEach((row) => {
+    const byDay = byVariant.get(row.variantId) ?? new Map<string, number>();
+    byDay.set(toDayKey(row.date), row.available);
+    byVariant.set(row.variantId, byDay);
+  });
+
+  const calendar = new Map<string, boolean[]>();
+  byVariant.forEach((byDay, id) => {
+    let last: number | undefined;
+    calendar.set(
+      id,
+      Array.from({ length: days }, (_, idx) => {
+        last = byDay.get(toDayKey(addDays(start, idx))) ?? last;
+        return last !== undefined && last <= 0;
+      }),
+    );
+  });
+  return calendar;
+}
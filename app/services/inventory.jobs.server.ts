@@ -0,0 +1,576 @@
+import { hostname } from "node:os";
+import {
+  DEFAULT_NIGHTLY_SYNC_HOUR,
+  SCHEDULER_INTERVAL_MS,
+  SYNC_JOB_HISTORY_LIMIT,
+  SYNC_JOB_MAX_ATTEMPTS,
+  SYNC_JOB_RETENTION_DAYS,
+  SYNC_JOB_RETRY_BASE_SECONDS,
+  SYNC_JOB_STALE_MINUTES,
+  SYNC_WORKER_IDLE_MS,
+} from "../config/inventory";
+import prisma from "../db.server";
+import { addDays, toDayKey } from "./inventory.helpers.server";
+import { deliverDigest } from "./inventory.notifications.server";
+import {
+  getVariantMetrics,
+  isVariantCacheStale,
+  logSyncEvent,
+  reconcileSalesLedger,
+  type SyncScope,
+} from "./inventory.sync.server";
+import type { SyncJobRecord, SyncJobStatus, SyncJobTrigger, SyncProgress } from "./inventory.types";
+import type { AdminApiClient } from "./shopify-graphql.server";
+import { executeGraphql } from "./shopify-graphql.server";
+
+/**
+ * Jobs the worker knows how to run: a full inventory sync, a forced order-ledger refetch, or a
+ * scheduled daily / weekly digest.
+ */
+export type SyncJobScope = Extract<SyncScope, "inventory" | "orders"> | "digest-daily" | "digest-weekly";
+
+const JOB_SCOPES: SyncJobScope[] = ["inventory", "orders", "digest-daily", "digest-weekly"];
+
+type SyncJobRow = {
+  id: string;
+  shopDomain: string;
+  scope: string;
+  trigger: string;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  progressDone: number;
+  progressTotal: number;
+  progressLabel: string | null;
+  message: string | null;
+  runAfter: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  createdAt: Date;
+};
+
+const JOB_STATUSES: SyncJobStatus[] = ["queued", "running", "succeeded", "failed", "retrying"];
+const ACTIVE_STATUSES: SyncJobStatus[] = ["queued", "running", "retrying"];
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : "sync failed");
+
+function toStatus(value: string): SyncJobStatus {
+  return JOB_STATUSES.find((status) => status === value) ?? "queued";
+}
+
+function toScope(value: string): SyncJobScope {
+  return JOB_SCOPES.find((scope) => scope === value) ?? "inventory";
+}
+
+function toTrigger(value: string): SyncJobTrigger {
+  return value === "nightly" || value === "scheduled" || value === "stale" ? value : "manual";
+}
+
+function toRecord(row: SyncJobRow): SyncJobRecord {
+  return {
+    id: row.id,
+    scope: row.scope,
+    trigger: toTrigger(row.trigger),
+    status: toStatus(row.status),
+    attempts: row.attempts,
+    maxAttempts: row.maxAttempts,
+    progress: { done: row.progressDone, total: row.progressTotal, label: row.progressLabel ?? "" },
+    message: row.message ?? undefined,
+    runAfter: row.runAfter.toISOString(),
+    startedAt: row.startedAt?.toISOString(),
+    finishedAt: row.finishedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Queues a sync for the worker. A job of the same scope that is still queued, running or
+ * waiting to retry is returned instead of queueing a second one.
+ */
+export async function enqueueSyncJob(
+  shopDomain: string,
+  scope: SyncJobScope = "inventory",
+  trigger: SyncJobTrigger = "manual",
+): Promise<SyncJobRecord> {
+  const active = await prisma.syncJob.findFirst({
+    where: { shopDomain, scope, status: { in: ACTIVE_STATUSES } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (active) return toRecord(active);
+
+  const job = await prisma.syncJob.create({
+    data: { shopDomain, scope, trigger, maxAttempts: SYNC_JOB_MAX_ATTEMPTS },
+  });
+  return toRecord(job);
+}
+
+/**
+ * Queues an inventory sync when the cached metrics are older than `CACHE_MAX_MINUTES`. Page
+ * loaders call this and render the cache they have, so only the worker talks to Shopify.
+ */
+export async function enqueueSyncIfStale(shopDomain: string) {
+  if (!(await isVariantCacheStale(shopDomain))) return undefined;
+  return enqueueSyncJob(shopDomain, "inventory", "stale");
+}
+
+export async function getSyncJob(shopDomain: string, id: string): Promise<SyncJobRecord | undefined> {
+  const job = await prisma.syncJob.findFirst({ where: { id, shopDomain } });
+  return job ? toRecord(job) : undefined;
+}
+
+/** Most recent jobs of the shop, newest first, for the run history in settings. */
+export async function getSyncJobHistory(
+  shopDomain: string,
+  limit = SYNC_JOB_HISTORY_LIMIT,
+): Promise<SyncJobRecord[]> {
+  const jobs = await prisma.syncJob.findMany({
+    where: { shopDomain },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+  return jobs.map(toRecord);
+}
+
+/** Fails the shop's jobs that have not started yet, e.g. once the app is uninstalled. */
+export async function cancelSyncJobs(shopDomain: string, message: string) {
+  const { count } = await prisma.syncJob.updateMany({
+    where: { shopDomain, status: { in: ["queued", "retrying"] } },
+    data: { status: "failed", message, finishedAt: new Date() },
+  });
+  return count;
+}
+
+/** Wall-clock date and hour in `timeZone`; an unknown zone is read as UTC. */
+function localClock(now: Date, timeZone: string) {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(now);
+  } catch (error) {
+    if (!(error instanceof RangeError) || timeZone === "UTC") throw error;
+    return localClock(now, "UTC");
+  }
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((item) => item.type === type)?.value ?? "";
+  const date = `${part("year")}-${part("month")}-${part("day")}`;
+  return { date, hour: Number(part("hour")), weekday: new Date(`${date}T00:00:00Z`).getUTCDay() };
+}
+
+/** The YYYY-MM-DD date `days` after `date`. */
+const shiftDate = (date: string, days: number) => toDayKey(addDays(new Date(`${date}T00:00:00Z`), days));
+
+/** Shops with an offline session, i.e. with the app installed. */
+async function installedShops() {
+  const sessions = await prisma.session.findMany({
+    where: { isOnline: false },
+    select: { shop: true },
+    distinct: ["shop"],
+  });
+  return sessions.map((session) => session.shop);
+}
+
+/**
+ * Queues the nightly full sync for every installed shop (one with an offline session) whose
+ * local time has reached its `nightlySyncHour` and that has not had one queued for that local
+ * date yet. A worker that was down at the hour catches up later the same day. A shop whose
+ * timezone is not known yet has it looked up through `adminFor` first; while a manual sync of
+ * the shop is still active the nightly one waits for a later tick rather than counting as run.
+ * Returns the shops queued.
+ */
+export async function scheduleNightlySyncs(
+  adminFor: (shopDomain: string) => Promise<AdminApiClient>,
+  now = new Date(),
+): Promise<string[]> {
+  const shops = await installedShops();
+  if (shops.length === 0) return [];
+
+  const [settings, states] = await Promise.all([
+    prisma.shopSetting.findMany({
+      where: { shopDomain: { in: shops } },
+      select: { shopDomain: true, nightlySyncHour: true },
+    }),
+    prisma.syncState.findMany({
+      where: { shopDomain: { in: shops } },
+      select: { shopDomain: true, timezone: true, nightlyRunDate: true },
+    }),
+  ]);
+  const hourByShop = new Map(settings.map((row) => [row.shopDomain, row.nightlySyncHour]));
+  const stateByShop = new Map(states.map((row) => [row.shopDomain, row]));
+
+  const queued: string[] = [];
+  for (const shopDomain of shops) {
+    const state = stateByShop.get(shopDomain);
+    try {
+      const timezone =
+        state?.timezone ?? (await refreshShopTimezone(await adminFor(shopDomain), shopDomain));
+      const clock = localClock(now, timezone);
+      const hour = hourByShop.get(shopDomain) ?? DEFAULT_NIGHTLY_SYNC_HOUR;
+      if (clock.hour < hour || state?.nightlyRunDate === clock.date) continue;
+
+      const job = await enqueueSyncJob(shopDomain, "inventory", "nightly");
+      if (job.trigger !== "nightly") continue;
+      await prisma.syncState.upsert({
+        where: { shopDomain },
+        create: { shopDomain, nightlyRunDate: clock.date },
+        update: { nightlyRunDate: clock.date },
+      });
+      await logSyncEvent(shopDomain, "inventory", "success", `nightly sync queued for ${clock.date}`);
+      queued.push(shopDomain);
+    } catch (error) {
+      await logSyncEvent(shopDomain, "inventory", "failure", `nightly sync not queued: ${errorMessage(error)}`);
+    }
+  }
+  return queued;
+}
+
+/**
+ * Latest daily and weekly digest slots (local dates) at or before `clock`: today once
+ * `sendHour` has passed, else yesterday; for weekly, the latest `weekday` on the same terms.
+ */
+function digestSlots(clock: ReturnType<typeof localClock>, sendHour: number, weekday: number) {
+  const started = clock.hour >= sendHour;
+  let daysBack = (clock.weekday - weekday + 7) % 7;
+  if (daysBack === 0 && !started) daysBack = 7;
+  return {
+    daily: started ? clock.date : shiftDate(clock.date, -1),
+    weekly: shiftDate(clock.date, -daysBack),
+  };
+}
+
+const laterDate = (stored: string | null | undefined, slot: string) =>
+  stored && stored > slot ? stored : slot;
+
+/**
+ * Queues digest jobs for installed shops at their `digestSendHour` in the shop timezone: daily
+ * when the daily digest is on, weekly on `digestWeekday`. Each slot is sent once; after downtime
+ * only the latest missed slot is sent. When both fall due together, one weekly digest goes out.
+ * Shops seen for the first time, and cadences that are switched off, only advance to the current
+ * slot, so turning a digest on never sends a backlog. Returns the shops queued.
+ */
+export async function scheduleDigests(now = new Date()): Promise<string[]> {
+  const shops = await installedShops();
+  if (shops.length === 0) return [];
+
+  const [settings, states] = await Promise.all([
+    prisma.shopSetting.findMany({
+      where: { shopDomain: { in: shops } },
+      select: {
+        shopDomain: true,
+        digestFrequency: true,
+        digestDailyEnabled: true,
+        digestWeeklyEnabled: true,
+        digestSendHour: true,
+        digestWeekday: true,
+      },
+    }),
+    prisma.syncState.findMany({
+      where: { shopDomain: { in: shops } },
+      select: { shopDomain: true, timezone: true, digestDailyPeriod: true, digestWeeklyPeriod: true },
+    }),
+  ]);
+  const stateByShop = new Map(states.map((row) => [row.shopDomain, row]));
+
+  const queued: string[] = [];
+  for (const setting of settings) {
+    const { shopDomain } = setting;
+    const state = stateByShop.get(shopDomain);
+    const slots = digestSlots(
+      localClock(now, state?.timezone ?? "UTC"),
+      setting.digestSendHour,
+      setting.digestWeekday,
+    );
+    const dailyPeriod = laterDate(state?.digestDailyPeriod, slots.daily);
+    const weeklyPeriod = laterDate(state?.digestWeeklyPeriod, slots.weekly);
+    if (state?.digestDailyPeriod === dailyPeriod && state.digestWeeklyPeriod === weeklyPeriod) continue;
+
+    try {
+      if (!state?.digestDailyPeriod || !state.digestWeeklyPeriod) {
+        await prisma.syncState.upsert({
+          where: { shopDomain },
+          create: { shopDomain, digestDailyPeriod: dailyPeriod, digestWeeklyPeriod: weeklyPeriod },
+          update: { digestDailyPeriod: dailyPeriod, digestWeeklyPeriod: weeklyPeriod },
+        });
+        continue;
+      }
+
+      // Conditional on the periods read above, so concurrent workers queue a slot only once.
+      const claimed = await prisma.syncState.updateMany({
+        where: {
+          shopDomain,
+          digestDailyPeriod: state.digestDailyPeriod,
+          digestWeeklyPeriod: state.digestWeeklyPeriod,
+        },
+        data: { digestDailyPeriod: dailyPeriod, digestWeeklyPeriod: weeklyPeriod },
+      });
+      if (claimed.count === 0) continue;
+
+      const active = setting.digestFrequency !== "off";
+      const dueWeekly =
+        active &&
+        (setting.digestWeeklyEnabled || setting.digestFrequency === "weekly") &&
+        weeklyPeriod !== state.digestWeeklyPeriod;
+      const dueDaily =
+        active &&
+        (setting.digestDailyEnabled || setting.digestFrequency === "daily") &&
+        dailyPeriod !== state.digestDailyPeriod;
+      if (!dueWeekly && !dueDaily) continue;
+
+      const scope = dueWeekly ? "digest-weekly" : "digest-daily";
+      await enqueueSyncJob(shopDomain, scope, "scheduled");
+      await logSyncEvent(
+        shopDomain,
+        "digest",
+        "success",
+        `${scope} queued for ${dueWeekly ? weeklyPeriod : dailyPeriod}`,
+      );
+      queued.push(shopDomain);
+    } catch (error) {
+      await logSyncEvent(shopDomain, "digest", "failure", `digest not queued: ${errorMessage(error)}`);
+    }
+  }
+  return queued;
+}
+
+/**
+ * Stores the shop's IANA timezone so the nightly sync and digest schedules follow its clock.
+ * Returns the timezone.
+ */
+async function refreshShopTimezone(admin: AdminApiClient, shopDomain: string) {
+  const data = await executeGraphql<{ shop: { ianaTimezone: string } }>(
+    admin,
+    shopDomain,
+    `#graphql
+      query ShopTimezone { shop { ianaTimezone } }
+    `,
+    undefined,
+    "shop.timezone",
+  );
+  const timezone = data.shop.ianaTimezone;
+  await prisma.syncState.upsert({
+    where: { shopDomain },
+    create: { shopDomain, timezone },
+    update: { timezone },
+  });
+  return timezone;
+}
+
+/** Retry delay after `attempts` failed attempts: the base delay, doubled per further attempt. */
+function retryDelayMs(attempts: number) {
+  return SYNC_JOB_RETRY_BASE_SECONDS * 1000 * 2 ** Math.max(0, attempts - 1);
+}
+
+/**
+ * Hands running jobs whose worker stopped sending heartbeats back to the queue (or fails them
+ * when out of attempts), and drops finished jobs past `SYNC_JOB_RETENTION_DAYS`.
+ */
+async function recoverStaleJobs(now: Date) {
+  const staleBefore = new Date(now.getTime() - SYNC_JOB_STALE_MINUTES * 60 * 1000);
+  const stale = await prisma.syncJob.findMany({
+    where: { status: "running", lockedAt: { lt: staleBefore } },
+  });
+  for (const job of stale) {
+    await finishAttempt(job, new Error("worker stopped responding"));
+  }
+  await prisma.syncJob.deleteMany({
+    where: {
+      status: { in: ["succeeded", "failed"] },
+      finishedAt: { lt: addDays(now, -SYNC_JOB_RETENTION_DAYS) },
+    },
+  });
+}
+
+/**
+ * Claims the next due job for `workerId`, skipping shops that already have a job running so
+ * each shop syncs one job at a time. Returns undefined when nothing is due.
+ */
+export async function claimNextSyncJob(workerId: string): Promise<SyncJobRow | undefined> {
+  const now = new Date();
+  await recoverStaleJobs(now);
+
+  const running = await prisma.syncJob.findMany({
+    where: { status: "running" },
+    select: { shopDomain: true },
+    distinct: ["shopDomain"],
+  });
+  const candidates = await prisma.syncJob.findMany({
+    where: {
+      status: { in: ["queued", "retrying"] },
+      runAfter: { lte: now },
+      shopDomain: { notIn: running.map((job) => job.shopDomain) },
+    },
+    orderBy: { runAfter: "asc" },
+    take: 10,
+  });
+
+  for (const candidate of candidates) {
+    const claimed = await prisma.syncJob.updateMany({
+      where: { id: candidate.id, status: candidate.status },
+      data: {
+        status: "running",
+        attempts: { increment: 1 },
+        lockedAt: now,
+        lockedBy: workerId,
+        startedAt: now,
+        progressDone: 0,
+        progressTotal: 0,
+        progressLabel: null,
+      },
+    });
+    if (claimed.count === 0) continue;
+
+    // Another worker may have claimed a different job of the same shop at the same moment.
+    const concurrent = await prisma.syncJob.count({
+      where: { shopDomain: candidate.shopDomain, status: "running", id: { not: candidate.id } },
+    });
+    if (concurrent > 0) {
+      await prisma.syncJob.update({
+        where: { id: candidate.id },
+        data: {
+          status: candidate.status,
+          attempts: candidate.attempts,
+          lockedAt: null,
+          lockedBy: null,
+          startedAt: candidate.startedAt,
+        },
+      });
+      continue;
+    }
+
+    return (await prisma.syncJob.findUnique({ where: { id: candidate.id } })) ?? undefined;
+  }
+  return undefined;
+}
+
+async function finishAttempt(job: SyncJobRow, error?: unknown, message?: string) {
+  const now = new Date();
+  if (!error) {
+    await prisma.syncJob.update({
+      where: { id: job.id },
+      data: { status: "succeeded", message, finishedAt: now, lockedAt: null, lockedBy: null },
+    });
+    return;
+  }
+
+  const retry = job.attempts < job.maxAttempts;
+  await prisma.syncJob.update({
+    where: { id: job.id },
+    data: {
+      status: retry ? "retrying" : "failed",
+      message: errorMessage(error),
+      runAfter: retry ? new Date(now.getTime() + retryDelayMs(job.attempts)) : job.runAfter,
+      finishedAt: retry ? null : now,
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+}
+
+/**
+ * Runs a claimed job, recording progress as a heartbeat and scheduling a retry on failure.
+ * Nightly jobs refetch the whole order ledger before recalculating the inventory metrics.
+ */
+export async function runSyncJob(job: SyncJobRow, admin: AdminApiClient) {
+  const onProgress = async (progress: SyncProgress) => {
+    await prisma.syncJob.update({
+      where: { id: job.id },
+      data: {
+        progressDone: progress.done,
+        progressTotal: progress.total,
+        progressLabel: progress.label,
+        lockedAt: new Date(),
+      },
+    });
+  };
+  // Bulk operations report no progress while Shopify works, for up to
+  // `BULK_OPERATION_TIMEOUT_MINUTES`; keep the job from looking stale meanwhile.
+  const heartbeat = async () => {
+    await prisma.syncJob.update({ where: { id: job.id }, data: { lockedAt: new Date() } });
+  };
+
+  const scope = toScope(job.scope);
+  const logScope: SyncScope = scope === "orders" || scope === "inventory" ? scope : "digest";
+  try {
+    await refreshShopTimezone(admin, job.shopDomain);
+    let message: string;
+    if (scope === "digest-daily" || scope === "digest-weekly") {
+      await onProgress({ done: 0, total: 1, label: "生成并发送 Digest" });
+      const result = await deliverDigest(
+        admin,
+        job.shopDomain,
+        "digest",
+        scope === "digest-daily" ? "daily" : "weekly",
+      );
+      // Retrying after a partial delivery would resend to the channels that worked.
+      if (!result.delivered) throw new Error(result.message);
+      await onProgress({ done: 1, total: 1, label: "完成" });
+      message = result.message;
+    } else if (scope === "orders") {
+      await onProgress({ done: 0, total: 1, label: "重新读取订单" });
+      await reconcileSalesLedger(admin, job.shopDomain, { force: true, heartbeat });
+      await onProgress({ done: 1, total: 1, label: "完成" });
+      message = "销售台账已重新对账";
+    } else {
+      if (job.trigger === "nightly") {
+        await onProgress({ done: 0, total: 1, label: "重新读取订单" });
+        await reconcileSalesLedger(admin, job.shopDomain, { force: true, heartbeat });
+      }
+      const variants = await getVariantMetrics(admin, job.shopDomain, { force: true, onProgress, heartbeat });
+      message = `已同步 ${variants.length} 个 SKU`;
+    }
+    await finishAttempt(job, undefined, message);
+    await logSyncEvent(job.shopDomain, logScope, "success", `job ${job.id}: ${message}`);
+  } catch (error) {
+    await finishAttempt(job, error);
+    await logSyncEvent(
+      job.shopDomain,
+      logScope,
+      "failure",
+      `job ${job.id} attempt ${job.attempts}/${job.maxAttempts}: ${errorMessage(error)}`,
+    );
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Worker loop: claims and runs due jobs one at a time until `signal` aborts, queueing the nightly
+ * syncs and scheduled digests every `SCHEDULER_INTERVAL_MS`. `adminFor` opens an offline Admin API
+ * client for the job's shop.
+ */
+export async function runSyncWorker(
+  adminFor: (shopDomain: string) => Promise<AdminApiClient>,
+  signal: AbortSignal,
+) {
+  const workerId = `${hostname()}:${process.pid}`;
+  let scheduledAt = 0;
+  while (!signal.aborted) {
+    try {
+      if (Date.now() - scheduledAt >= SCHEDULER_INTERVAL_MS) {
+        scheduledAt = Date.now();
+        await scheduleNightlySyncs(adminFor);
+        await scheduleDigests();
+      }
+      const job = await claimNextSyncJob(workerId);
+      if (job) {
+        try {
+          await runSyncJob(job, await adminFor(job.shopDomain));
+        } catch (error) {
+          // No offline session (e.g. the app was uninstalled): nothing to retry against.
+          await finishAttempt({ ...job, maxAttempts: job.attempts }, error);
+        }
+        continue;
+      }
+    } catch (error) {
+      // A transient database error (e.g. SQLite "database is locked") must not end the worker.
+      // Written to stderr, as the log table may be what is unavailable.
+      console.error(`[sync-worker] ${new Date().toISOString()} tick failed: ${errorMessage(error)}`);
+    }
+    await sleep(SYNC_WORKER_IDLE_MS);
+  }
+}
@@ -0,0 +1,64 @@
+import { NOTIFICATION_LOG_RETENTION_DAYS } from "../config/inventory";
+import prisma from "../db.server";
+import { addDays } from "./inventory.helpers.server";
+
+export type NotificationChannel = "email" | "slack";
+
+export type NotificationEntry = {
+  channel: NotificationChannel;
+  /** "digest" for scheduled / manual digests, "test" for test sends. */
+  kind: string;
+  /** Email addresses, or the masked Slack webhook. */
+  recipients: string[];
+  subject: string;
+  /** Set when the delivery failed. */
+  error?: string;
+};
+
+export type DeliveryStatus = {
+  lastSuccessAt?: Date;
+  lastFailureAt?: Date;
+  lastFailureChannel?: NotificationChannel;
+  lastError?: string;
+};
+
+/** Records one delivery attempt and drops entries past `NOTIFICATION_LOG_RETENTION_DAYS`. */
+export async function recordNotification(shopDomain: string, entry: NotificationEntry) {
+  await prisma.notificationLog.create({
+    data: {
+      shopDomain,
+      channel: entry.channel,
+      kind: entry.kind,
+      recipients: entry.recipients.join(", "),
+      subject: entry.subject,
+      status: entry.error ? "failure" : "success",
+      error: entry.error,
+    },
+  });
+  await prisma.notificationLog.deleteMany({
+    where: { shopDomain, createdAt: { lt: addDays(new Date(), -NOTIFICATION_LOG_RETENTION_DAYS) } },
+  });
+}
+
+/** Latest successful and failed deliveries on any of `channels`. */
+export async function getDeliveryStatus(
+  shopDomain: string,
+  channels: NotificationChannel[],
+): Promise<DeliveryStatus> {
+  const [lastSuccess, lastFailure] = await Promise.all([
+    prisma.notificationLog.findFirst({
+      where: { shopDomain, channel: { in: channels }, status: "success" },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.notificationLog.findFirst({
+      where: { shopDomain, channel: { in: channels }, status: "failure" },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+  return {
+    lastSuccessAt: lastSuccess?.createdAt,
+    lastFailureAt: lastFailure?.createdAt,
+    lastFailureChannel: lastFailure?.channel === "slack" ? "slack" : lastFailure ? "email" : undefined,
+    lastError: lastFailure?.error ?? undefined,
+  };
+}
@@ -0,0 +1,356 @@
+import { BUDGET_PERIOD_LABELS, DIGEST_TOP_ROWS, SLACK_WEBHOOK_PREFIX } from "../config/inventory";
+import { buildAlternativeMessage, splitRecipients } from "../utils/mime";
+import { escapeSlack, maskWebhook, postSlackMessage, type SlackMessage } from "../utils/slack.server";
+import { readSmtpConfig, sendMail } from "../utils/smtp.server";
+import { getDigestPreview } from "./inventory.digest.server";
+import { formatCurrency } from "./inventory.helpers.server";
+import { recordNotification, type NotificationChannel } from "./inventory.notification-log.server";
+import { readSettings } from "./inventory.settings.server";
+import { logSyncEvent } from "./inventory.sync.server";
+import type { DashboardRow, DigestPeriod, DigestPreview } from "./inventory.types";
+import type { AdminApiClient } from "./shopify-graphql.server";
+
+export type DigestKind = "digest" | "test";
+
+export type DigestEmail = { subject: string; text: string; html: string };
+
+/** `ok` when every channel succeeded; `delivered` when at least one did. */
+export type DeliveryResult = { ok: boolean; delivered: boolean; message: string };
+
+type DigestTable = {
+  title: string;
+  note: string;
+  columns: string[];
+  rows: DashboardRow[];
+  cells: (row: DashboardRow) => string[];
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : "unknown");
+
+/** Admin link that opens `path` in the embedded app; the shop's app list without an API key. */
+function appUrl(shopDomain: string, path = "") {
+  const apiKey = process.env.SHOPIFY_API_KEY;
+  return apiKey ? `https://${shopDomain}/admin/apps/${apiKey}${path}` : `https://${shopDomain}/admin/apps`;
+}
+
+function digestTables(digest: DigestPreview): DigestTable[] {
+  const tables: DigestTable[] = [
+    {
+      title: `缺货风险 Top ${DIGEST_TOP_ROWS}`,
+      note: `共 ${digest.summary.shortageCount} 个 SKU`,
+      columns: ["SKU / 产品", "可售库存", "日均销量", "预计可售天数", "建议补货"],
+      rows: digest.shortages,
+      cells: (row) => [
+        String(row.available),
+        row.avgDailySales.toFixed(1),
+        `${row.daysOfStock} 天`,
+        String(row.recommendedQty),
+      ],
+    },
+    {
+      title: `压货 / 滞销 Top ${DIGEST_TOP_ROWS}`,
+      note: `共 ${digest.summary.overstockCount} 个 SKU`,
+      columns: ["SKU / 产品", "当前库存", "日均销量", "覆盖天数", "库存金额"],
+      rows: digest.overstocks,
+      cells: (row) => [
+        String(row.available),
+        row.avgDailySales.toFixed(1),
+        `${row.coverageDays} 天`,
+        row.stockValue ? formatCurrency(row.stockValue) : "-",
+      ],
+    },
+    {
+      title: `缺货损失估算 Top ${DIGEST_TOP_ROWS}`,
+      note: `近 30 天 · 共 ${digest.lostSales.units} 件 / ${formatCurrency(digest.lostSales.revenue)}`,
+      columns: ["SKU / 产品", "缺货天数", "日均销量", "损失销量", "损失销售额"],
+      rows: digest.lostSales.rows,
+      cells: (row) => [
+        `${row.stockoutDays ?? 0} 天`,
+        row.avgDailySales.toFixed(1),
+        String(row.lostSales ?? 0),
+        row.price !== undefined ? formatCurrency((row.lostSales ?? 0) * row.price) : "-",
+      ],
+    },
+  ];
+  return tables.map((table) => ({ ...table, rows: table.rows.slice(0, DIGEST_TOP_ROWS) }));
+}
+
+function budgetLine(digest: DigestPreview) {
+  const { budget } = digest;
+  const label = budget.period === "none" ? "采购预算" : `${BUDGET_PERIOD_LABELS[budget.period]}预算剩余`;
+  return `${label} ${formatCurrency(budget.remaining)}（已下单 ${formatCurrency(budget.spentAmount)} / 预算 ${formatCurrency(budget.amount)} · 建议补货 ${formatCurrency(budget.plannedAmount)}）`;
+}
+
+/** Renders the digest preview as the email's plain-text and HTML bodies. */
+export function renderDigestEmail(digest: DigestPreview, shopDomain: string, kind: DigestKind): DigestEmail {
+  const subject = kind === "test" ? `[测试] ${digest.title}` : digest.title;
+  const tables = digestTables(digest);
+  const link = appUrl(shopDomain);
+  const overview = [
+    `库存金额：${digest.summary.inventoryValue}`,
+    `缺货风险：${digest.summary.shortageCount} 个 SKU · 压货：${digest.summary.overstockCount} 个 SKU`,
+    budgetLine(digest),
+    `数据更新：${digest.summary.updatedAt}`,
+  ];
+
+  const text = [
+    `${shopDomain} 库存摘要`,
+    "",
+    ...overview,
+    ...tables.flatMap((table) => [
+      "",
+      `${table.title}（${table.note}）`,
+      ...(table.rows.length === 0
+        ? ["- 无"]
+        : table.rows.map(
+            (row) => `- ${row.sku} ${row.name} · ${row.variant} | ${table.cells(row).join(" | ")}`,
+          )),
+    ]),
+    "",
+    `打开 Inventory Copilot 查看完整列表：${link}`,
+    "只读 Shopify，不会改库存或创建采购单。",
+  ].join("\n");
+
+  const cell = "padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:left;font-size:13px;";
+  const td = (content: string, style = "") => `<td style="${cell}${style}">${content}</td>`;
+  const htmlRow = (table: DigestTable, row: DashboardRow) =>
+    `<tr>${td(`<strong>${escapeHtml(row.sku)}</strong><br>${escapeHtml(`${row.name} · ${row.variant}`)}`)}${table
+      .cells(row)
+      .map((value) => td(escapeHtml(value)))
+      .join("")}</tr>`;
+  const htmlTables = tables
+    .map((table) => {
+      const head = table.columns
+        .map((column) => `<th style="${cell}color:#475569;">${escapeHtml(column)}</th>`)
+        .join("");
+      const body =
+        table.rows.length === 0
+          ? `<tr><td style="${cell}color:#64748b;" colspan="${table.columns.length}">无</td></tr>`
+          : table.rows.map((row) => htmlRow(table, row)).join("");
+      return `
+    <h3 style="margin:24px 0 4px;font-size:15px;">${escapeHtml(table.title)}</h3>
+    <div style="color:#64748b;font-size:12px;margin-bottom:6px;">${escapeHtml(table.note)}</div>
+    <table style="border-collapse:collapse;width:100%;">
+      <thead><tr>${head}</tr></thead>
+      <tbody>${body}</tbody>
+    </table>`;
+    })
+    .join("");
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f8fafc;font-family:-apple-system,'PingFang SC','Microsoft YaHei',sans-serif;color:#0f172a;">
+    <div style="max-width:720px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;">
+    <h2 style="margin:0 0 4px;font-size:18px;">${escapeHtml(subject)}</h2>
+    <div style="color:#64748b;font-size:13px;margin-bottom:16px;">${escapeHtml(shopDomain)}</div>
+    ${overview.map((line) => `<div style="font-size:14px;margin:2px 0;">${escapeHtml(line)}</div>`).join("")}
+    ${htmlTables}
+    <p style="margin:24px 0 8px;">
+      <a href="${escapeHtml(link)}" style="background:#111827;color:#ffffff;padding:10px 16px;border-radius:8px;text-decoration:none;">打开 Inventory Copilot 查看详情</a>
+    </p>
+    <div style="color:#94a3b8;font-size:12px;">只读 Shopify，不会改库存或创建采购单。</div>
+    </div>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+/** Renders the digest as a Slack Block Kit message; SKUs link to their variant page in the app. */
+export function renderDigestSlack(digest: DigestPreview, shopDomain: string, kind: DigestKind): SlackMessage {
+  const title = kind === "test" ? `[测试] ${digest.title}` : digest.title;
+  const link = appUrl(shopDomain);
+  const variantLink = (row: DashboardRow) =>
+    `<${appUrl(shopDomain, `/app/variant/${encodeURIComponent(row.sku)}`)}|${escapeSlack(row.sku)}>`;
+  const listSection = (table: DigestTable) => ({
+    type: "section",
+    text: {
+      type: "mrkdwn",
+      text: [
+        `*${escapeSlack(table.title)}*（${escapeSlack(table.note)}）`,
+        ...(table.rows.length === 0
+          ? ["无"]
+          : table.rows.map(
+              (row) =>
+                `• ${variantLink(row)} ${escapeSlack(`${row.name} · ${row.variant}`)}\n` +
+                `    ${escapeSlack(
+                  table.columns
+                    .slice(1)
+                    .map((column, index) => `${column} ${table.cells(row)[index]}`)
+                    .join(" · "),
+                )}`,
+            )),
+      ].join("\n"),
+    },
+  });
+  const [shortages, overstocks] = digestTables(digest);
+
+  return {
+    text: `${title}：缺货风险 ${digest.summary.shortageCount} 个 SKU，压货 ${digest.summary.overstockCount} 个 SKU`,
+    blocks: [
+      // Header text is limited to 150 characters.
+      { type: "header", text: { type: "plain_text", text: title.slice(0, 150), emoji: true } },
+      {
+        type: "section",
+        fields: [
+          `*库存金额*\n${digest.summary.inventoryValue}`,
+          `*缺货风险*\n${digest.summary.shortageCount} 个 SKU`,
+          `*压货*\n${digest.summary.overstockCount} 个 SKU`,
+          `*缺货损失（30 天）*\n${digest.lostSales.units} 件 / ${formatCurrency(digest.lostSales.revenue)}`,
+        ].map((text) => ({ type: "mrkdwn", text: escapeSlack(text) })),
+      },
+      { type: "context", elements: [{ type: "mrkdwn", text: escapeSlack(budgetLine(digest)) }] },
+      { type: "divider" },
+      listSection(shortages),
+      listSection(overstocks),
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: { type: "plain_text", text: "打开 Inventory Copilot" },
+            url: link,
+            style: "primary",
+          },
+        ],
+      },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: escapeSlack(`${shopDomain} · 数据更新：${digest.summary.updatedAt} · 只读 Shopify`),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+type DigestLoader = () => Promise<DigestPreview>;
+
+/** Builds the digest at most once per delivery, however many channels use it. */
+function digestLoader(
+  admin: AdminApiClient,
+  shopDomain: string,
+  period: DigestPeriod = "weekly",
+): DigestLoader {
+  let digest: Promise<DigestPreview> | undefined;
+  return () => (digest ??= getDigestPreview(admin, shopDomain, period));
+}
+
+async function finishDelivery(
+  shopDomain: string,
+  entry: { channel: NotificationChannel; kind: DigestKind; recipients: string[]; subject: string },
+  error: string | undefined,
+): Promise<DeliveryResult> {
+  const label = entry.channel === "slack" ? "Slack" : "Email";
+  const target = entry.recipients.join(", ") || "-";
+  await recordNotification(shopDomain, { ...entry, error });
+  await logSyncEvent(
+    shopDomain,
+    "digest",
+    error ? "failure" : "success",
+    `${entry.kind} ${entry.channel} to ${target}${error ? `: ${error}` : ""}`,
+  );
+  return error
+    ? { ok: false, delivered: false, message: `${label} 发送失败：${error}` }
+    : { ok: true, delivered: true, message: `已通过 ${label} 发送${entry.kind === "test" ? "测试 " : ""}Digest（${target}）` };
+}
+
+/** Sends the digest over SMTP to `recipients` and records the outcome. */
+async function sendDigestEmail(
+  shopDomain: string,
+  recipients: string[],
+  loadDigest: DigestLoader,
+  kind: DigestKind,
+): Promise<DeliveryResult> {
+  let subject = kind === "test" ? "[测试] Digest" : "Digest";
+  let error: string | undefined;
+  if (recipients.length === 0) {
+    error = "未配置邮件收件人";
+  } else {
+    try {
+      const email = renderDigestEmail(await loadDigest(), shopDomain, kind);
+      subject = email.subject;
+      const config = readSmtpConfig();
+      const message = buildAlternativeMessage({ from: config.from, to: recipients, ...email });
+      await sendMail(config, recipients, message);
+    } catch (caught) {
+      error = errorMessage(caught);
+    }
+  }
+  return finishDelivery(shopDomain, { channel: "email", kind, recipients, subject }, error);
+}
+
+/** Posts the digest to the Slack `webhook` (with retries) and records the outcome. */
+async function sendDigestSlack(
+  shopDomain: string,
+  webhook: string,
+  loadDigest: DigestLoader,
+  kind: DigestKind,
+): Promise<DeliveryResult> {
+  let subject = kind === "test" ? "[测试] Digest" : "Digest";
+  let error: string | undefined;
+  if (!webhook.startsWith(SLACK_WEBHOOK_PREFIX)) {
+    error = "未配置有效的 Slack Webhook";
+  } else {
+    try {
+      const message = renderDigestSlack(await loadDigest(), shopDomain, kind);
+      subject = message.text;
+      const attempts = await postSlackMessage(webhook, message);
+      if (attempts > 1) {
+        await logSyncEvent(shopDomain, "digest", "success", `slack delivered after ${attempts} attempts`);
+      }
+    } catch (caught) {
+      error = errorMessage(caught);
+    }
+  }
+  return finishDelivery(
+    shopDomain,
+    { channel: "slack", kind, recipients: webhook ? [maskWebhook(webhook)] : [], subject },
+    error,
+  );
+}
+
+/**
+ * Sends the digest by email to the shop's `emailRecipients` and, when Slack is enabled, to its
+ * webhook. Every channel's outcome is recorded in `NotificationLog`; failures (no recipients,
+ * digest, SMTP or Slack errors) are returned rather than thrown.
+ */
+export async function deliverDigest(
+  admin: AdminApiClient,
+  shopDomain: string,
+  kind: DigestKind = "digest",
+  period: DigestPeriod = "weekly",
+): Promise<DeliveryResult> {
+  const settings = await readSettings(shopDomain);
+  const loadDigest = digestLoader(admin, shopDomain, period);
+  const results = [
+    await sendDigestEmail(shopDomain, splitRecipients(settings?.emailRecipients ?? ""), loadDigest, kind),
+  ];
+  if (settings?.slackEnabled) {
+    results.push(await sendDigestSlack(shopDomain, settings.slackWebhook, loadDigest, kind));
+  }
+  return {
+    ok: results.every((result) => result.ok),
+    delivered: results.some((result) => result.ok),
+    message: results.map((result) => result.message).join("；"),
+  };
+}
+
+/** Posts a test digest to `webhook`, which may not be saved yet. */
+export async function sendSlackTest(
+  admin: AdminApiClient,
+  shopDomain: string,
+  webhook: string,
+): Promise<DeliveryResult> {
+  return sendDigestSlack(shopDomain, webhook, digestLoader(admin, shopDomain), "test");
+}
@@ -2,24 +2,42 @@ import {
   DEFAULT_MILD_OVERSTOCK_THRESHOLD_DAYS,
   DEFAULT_OVERSTOCK_THRESHOLD_DAYS,
 } from "../config/inventory";
-import { computeCoverage, safeDivide, sum } from "./inventory.helpers.server";
+import {
+  computeCoverage,
+  resolveLocationScope,
+  safeDivide,
+  scopeVariantMetrics,
+  sum,
+} from "./inventory.helpers.server";
+import { readClassPolicies } from "./inventory.settings.server";
 import type { AdminApiClient } from "./shopify-graphql.server";
 import type { OverstockPayload, OverstockRow } from "./inventory.types";
-import { getInventoryLastUpdated, getVariantMetrics } from "./inventory.sync.server";
+import {
+  buildDashboardLocations,
+  getInventoryLastUpdated,
+  getVariantMetrics,
+} from "./inventory.sync.server";
 
-type OverstockThresholds = {
+type OverstockOptions = {
   overstockThresholdDays?: number;
   mildOverstockThresholdDays?: number;
+  locationId?: string | null;
 };
 
 export async function getOverstockData(
   admin: AdminApiClient,
   shopDomain: string,
-  thresholds: OverstockThresholds = {},
+  options: OverstockOptions = {},
 ): Promise<OverstockPayload> {
-  const variants = await getVariantMetrics(admin, shopDomain);
-  const overstockThreshold = thresholds.overstockThresholdDays ?? DEFAULT_OVERSTOCK_THRESHOLD_DAYS;
-  const mildThreshold = thresholds.mildOverstockThresholdDays ?? DEFAULT_MILD_OVERSTOCK_THRESHOLD_DAYS;
+  const locations = await buildDashboardLocations(admin, shopDomain);
+  const scope = resolveLocationScope(locations, options.locationId);
+  // A bundle's stock is its components' stock, which is already listed.
+  const variants = scopeVariantMetrics(await getVariantMetrics(admin, shopDomain), scope).filter(
+    (variant) => !variant.bundleComponents,
+  );
+  const overstockThreshold = options.overstockThresholdDays ?? DEFAULT_OVERSTOCK_THRESHOLD_DAYS;
+  const mildThreshold = options.mildOverstockThresholdDays ?? DEFAULT_MILD_OVERSTOCK_THRESHOLD_DAYS;
+  const classPolicies = await readClassPolicies(shopDomain);
 
   const rows: OverstockRow[] = variants
     .map((variant) => {
@@ -27,8 +45,12 @@ export async function getOverstockData(
       const avgDailySales = safeDivide(sales30d, 30, 0);
       const coverageDays = computeCoverage(variant.available, avgDailySales);
       const stockValue = (variant.unitCost ?? 0) * variant.available;
+      // A class-specific overstock threshold replaces the shop's; the mild threshold stays shared.
+      const rowThreshold =
+        (variant.abcClass && classPolicies[variant.abcClass]?.overstockThreshold) ??
+        overstockThreshold;
       const severity =
-        sales30d === 0 || coverageDays >= overstockThreshold
+        sales30d === 0 || coverageDays >= rowThreshold
           ? "severe"
           : coverageDays >= mildThreshold
             ? "mild"
@@ -45,13 +67,16 @@ export async function getOverstockData(
         stockValue,
         unitCost: variant.unitCost,
         severity,
+        overstockThreshold: rowThreshold,
+        abcClass: variant.abcClass,
+        xyzClass: variant.xyzClass,
       };
     })
     .filter((row) => row.available > 0);
 
   const severeRows = rows.filter((row) => row.severity === "severe");
   const summary = {
-    overstockCount: rows.filter((row) => row.coverageDays >= overstockThreshold).length,
+    overstockCount: rows.filter((row) => row.coverageDays >= row.overstockThreshold).length,
     severeCount: severeRows.length,
     totalStockValue: sum(rows.map((row) => row.stockValue)),
     severeStockValue: sum(severeRows.map((row) => row.stockValue)),
@@ -62,6 +87,8 @@ export async function getOverstockData(
     summary,
     overstockThresholdDays: overstockThreshold,
     mildOverstockThresholdDays: mildThreshold,
+    locations,
+    locationScope: scope.scope,
     lastCalculated: await getInventoryLastUpdated(shopDomain),
   };
 }
@@ -0,0 +1,241 @@
+import { encodeHeader, wrapBase64 } from "../utils/mime";
+import { buildPdf, fitText, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH } from "../utils/pdf";
+import type { PdfPage } from "../utils/pdf";
+import type { PurchaseOrderDetail } from "./inventory.types";
+import type { AdminApiClient } from "./shopify-graphql.server";
+import { executeGraphql } from "./shopify-graphql.server";
+
+export type ShopProfile = {
+  name: string;
+  email: string;
+  domain: string;
+};
+
+const SHOP_PROFILE_QUERY = `#graphql
+  query ShopProfile {
+    shop {
+      name
+      email
+    }
+  }
+`;
+
+const MARGIN = 48;
+const ROW_HEIGHT = 18;
+const FOOTER_Y = 36;
+
+/** Column layout of the lines table: left edge, width and alignment. */
+const COLUMNS = [
+  { key: "sku", label: "SKU", x: MARGIN, width: 100, align: "left" },
+  { key: "product", label: "商品 Product", x: MARGIN + 104, width: 190, align: "left" },
+  { key: "quantity", label: "数量 Qty", x: MARGIN + 298, width: 60, align: "right" },
+  { key: "unitCost", label: "单价 Unit", x: MARGIN + 362, width: 65, align: "right" },
+  { key: "total", label: "小计 Subtotal", x: MARGIN + 431, width: 68, align: "right" },
+] as const;
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+
+const formatDate = (value?: string) => (value ? value.slice(0, 10) : "—");
+
+/** Shop name and contact email for document headers; falls back to the domain when the query fails. */
+export async function fetchShopProfile(admin: AdminApiClient, shopDomain: string): Promise<ShopProfile> {
+  try {
+    const data = await executeGraphql<{ shop: { name: string; email: string } }>(
+      admin,
+      shopDomain,
+      SHOP_PROFILE_QUERY,
+      undefined,
+      "shop-profile",
+    );
+    return { name: data.shop.name || shopDomain, email: data.shop.email ?? "", domain: shopDomain };
+  } catch {
+    return { name: shopDomain, email: "", domain: shopDomain };
+  }
+}
+
+export function purchaseOrderFileName(order: PurchaseOrderDetail, extension: "pdf" | "eml") {
+  return `${order.number}.${extension}`;
+}
+
+function orderTotals(order: PurchaseOrderDetail) {
+  return order.lines.reduce(
+    (sum, line) => ({ quantity: sum.quantity + line.quantity, amount: sum.amount + line.total }),
+    { quantity: 0, amount: 0 },
+  );
+}
+
+/** Renders the order as an A4 PDF; long orders continue on extra pages with the table header repeated. */
+export function renderPurchaseOrderPdf(order: PurchaseOrderDetail, shop: ShopProfile): string {
+  const pages: PdfPage[] = [];
+  let ops: PdfPage = [];
+  let y = PDF_PAGE_HEIGHT - MARGIN;
+  const right = PDF_PAGE_WIDTH - MARGIN;
+
+  const tableHeader = () => {
+    ops.push({ kind: "rect", x: MARGIN, y: y - 6, width: right - MARGIN, height: ROW_HEIGHT, gray: 0.92 });
+    COLUMNS.forEach((column) =>
+      ops.push({
+        kind: "text",
+        x: column.align === "right" ? column.x + column.width : column.x,
+        y,
+        size: 9,
+        text: column.label,
+        align: column.align,
+      }),
+    );
+    y -= ROW_HEIGHT;
+  };
+
+  const newPage = () => {
+    pages.push(ops);
+    ops = [];
+    y = PDF_PAGE_HEIGHT - MARGIN;
+    ops.push({ kind: "text", x: MARGIN, y, size: 10, text: `${order.number} · ${shop.name}` });
+    y -= ROW_HEIGHT * 1.5;
+    tableHeader();
+  };
+
+  ops.push({ kind: "text", x: MARGIN, y, size: 16, text: shop.name });
+  ops.push({ kind: "text", x: right, y, size: 16, text: "PURCHASE ORDER 采购单", align: "right" });
+  y -= 16;
+  ops.push({ kind: "text", x: MARGIN, y, size: 9, text: [shop.domain, shop.email].filter(Boolean).join(" · ") });
+  y -= 12;
+  ops.push({ kind: "line", x1: MARGIN, y1: y, x2: right, y2: y, width: 1 });
+  y -= 22;
+
+  const supplierLines = [
+    order.supplierName,
+    order.supplierContact?.contactName,
+    order.supplierContact?.email,
+    order.supplierContact?.phone,
+  ].filter((value): value is string => Boolean(value));
+  const orderLines = [
+    `单号 No.: ${order.number}`,
+    `日期 Date: ${formatDate(order.sentAt ?? order.createdAt)}`,
+    `预计到货 Expected: ${formatDate(order.expectedAt)}`,
+  ];
+
+  ops.push({ kind: "text", x: MARGIN, y, size: 9, text: "供应商 Supplier" });
+  ops.push({ kind: "text", x: right, y, size: 9, text: "采购单信息 Order", align: "right" });
+  y -= 15;
+  for (let index = 0; index < Math.max(supplierLines.length, orderLines.length); index += 1) {
+    if (supplierLines[index]) {
+      ops.push({ kind: "text", x: MARGIN, y, size: 11, text: fitText(supplierLines[index], 11, 260) });
+    }
+    if (orderLines[index]) {
+      ops.push({ kind: "text", x: right, y, size: 11, text: orderLines[index], align: "right" });
+    }
+    y -= 15;
+  }
+  y -= 15;
+
+  tableHeader();
+  order.lines.forEach((line) => {
+    if (y < FOOTER_Y + ROW_HEIGHT * 4) newPage();
+    const cells: Record<(typeof COLUMNS)[number]["key"], string> = {
+      sku: line.sku,
+      product: [line.name, line.variant].filter(Boolean).join(" · "),
+      quantity: String(line.quantity),
+      unitCost: formatCurrency(line.unitCost),
+      total: formatCurrency(line.total),
+    };
+    COLUMNS.forEach((column) =>
+      ops.push({
+        kind: "text",
+        x: column.align === "right" ? column.x + column.width : column.x,
+        y,
+        size: 9,
+        text: fitText(cells[column.key], 9, column.width),
+        align: column.align,
+      }),
+    );
+    ops.push({ kind: "line", x1: MARGIN, y1: y - 6, x2: right, y2: y - 6, width: 0.25 });
+    y -= ROW_HEIGHT;
+  });
+
+  const totals = orderTotals(order);
+  y -= 6;
+  ops.push({ kind: "text", x: MARGIN, y, size: 10, text: `合计 Total · ${order.lines.length} SKU` });
+  ops.push({ kind: "text", x: COLUMNS[2].x + COLUMNS[2].width, y, size: 10, text: String(totals.quantity), align: "right" });
+  ops.push({ kind: "text", x: right, y, size: 10, text: formatCurrency(totals.amount), align: "right" });
+  y -= ROW_HEIGHT * 1.5;
+
+  if (order.note) {
+    if (y < FOOTER_Y + ROW_HEIGHT * 3) newPage();
+    ops.push({ kind: "text", x: MARGIN, y, size: 9, text: "备注 Note" });
+    y -= 14;
+    order.note.split(/\r?\n/).forEach((line) => {
+      if (y < FOOTER_Y + ROW_HEIGHT) newPage();
+      ops.push({ kind: "text", x: MARGIN, y, size: 10, text: fitText(line, 10, right - MARGIN) });
+      y -= 14;
+    });
+  }
+  pages.push(ops);
+
+  pages.forEach((page, index) => {
+    page.push({ kind: "line", x1: MARGIN, y1: FOOTER_Y + 12, x2: right, y2: FOOTER_Y + 12, width: 0.25 });
+    page.push({ kind: "text", x: MARGIN, y: FOOTER_Y, size: 8, text: `${shop.name} · ${order.number}` });
+    page.push({ kind: "text", x: right, y: FOOTER_Y, size: 8, text: `${index + 1} / ${pages.length}`, align: "right" });
+  });
+
+  return buildPdf(pages, `${order.number} ${order.supplierName}`);
+}
+
+/** Plain-text email body listing the order, ready to paste into a mail client. */
+export function renderPurchaseOrderEmailBody(order: PurchaseOrderDetail, shop: ShopProfile): string {
+  const totals = orderTotals(order);
+  const greeting = order.supplierContact?.contactName || order.supplierName;
+  const lines = [
+    `${greeting}，您好：`,
+    "",
+    `以下是 ${shop.name} 的采购单 ${order.number}，详见附件 PDF。`,
+    `预计到货日期：${formatDate(order.expectedAt)}`,
+    "",
+    ...order.lines.map(
+      (line) =>
+        `- ${line.sku} ${line.name} · ${line.variant} × ${line.quantity} | 单价 ${formatCurrency(line.unitCost)} | 小计 ${formatCurrency(line.total)}`,
+    ),
+    "",
+    `合计：${totals.quantity} 件，${formatCurrency(totals.amount)}`,
+  ];
+  if (order.note) {
+    lines.push("", `备注：${order.note}`);
+  }
+  lines.push("", "请确认交期与数量，谢谢！", shop.name);
+  return lines.join("\n");
+}
+
+/** RFC 5322 message with the text body and the PDF attached, addressed to the supplier's email. */
+export function renderPurchaseOrderEml(order: PurchaseOrderDetail, shop: ShopProfile): string {
+  const boundary = `po-${order.id}-${Date.now().toString(36)}`;
+  const fileName = purchaseOrderFileName(order, "pdf");
+  const pdf = Buffer.from(renderPurchaseOrderPdf(order, shop), "latin1");
+  const body = Buffer.from(renderPurchaseOrderEmailBody(order, shop), "utf8");
+  const headers = [
+    shop.email ? `From: ${encodeHeader(shop.name)} <${shop.email}>` : undefined,
+    order.supplierContact?.email ? `To: ${order.supplierContact.email}` : undefined,
+    `Subject: ${encodeHeader(`采购单 ${order.number} - ${shop.name}`)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ].filter((header): header is string => Boolean(header));
+
+  return [
+    ...headers,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(body),
+    `--${boundary}`,
+    `Content-Type: application/pdf; name="${fileName}"`,
+    "Content-Transfer-Encoding: base64",
+    `Content-Disposition: attachment; filename="${fileName}"`,
+    "",
+    wrapBase64(pdf),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
@@ -0,0 +1,402 @@
+import { Prisma } from "@prisma/client";
+import {
+  MIN_LEAD_TIME_SAMPLES,
+  PURCHASE_ORDER_CREATE_ATTEMPTS,
+  UNASSIGNED_SUPPLIER_LABEL,
+} from "../config/inventory";
+import prisma from "../db.server";
+import { standardDeviation } from "./inventory.safety-stock";
+import type {
+  PurchaseOrderDetail,
+  PurchaseOrderStatus,
+  PurchaseOrderSummary,
+  PurchaseOrdersPayload,
+  ReplenishmentRow,
+} from "./inventory.types";
+
+type PurchaseOrderRow = Prisma.PurchaseOrderGetPayload<{ include: { lines: true } }>;
+
+type DraftGroup = { supplierId?: string; supplierName: string; rows: ReplenishmentRow[] };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  "draft",
+  "sent",
+  "partially_received",
+  "received",
+  "cancelled",
+];
+
+/**
+ * Manual status changes. `partially_received` is only reached by recording received
+ * quantities; `received` marks every line as fully received.
+ */
+const PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ["sent", "cancelled"],
+  sent: ["received", "cancelled"],
+  partially_received: ["received", "cancelled"],
+  received: [],
+  cancelled: [],
+};
+
+function toStatus(value: string): PurchaseOrderStatus {
+  return PURCHASE_ORDER_STATUSES.includes(value as PurchaseOrderStatus)
+    ? (value as PurchaseOrderStatus)
+    : "draft";
+}
+
+function toSummary(order: PurchaseOrderRow): PurchaseOrderSummary {
+  return {
+    id: order.id,
+    number: order.number,
+    supplierId: order.supplierId ?? undefined,
+    supplierName: order.supplierName,
+    status: toStatus(order.status),
+    lineCount: order.lines.length,
+    totalQuantity: order.lines.reduce((sum, line) => sum + line.quantity, 0),
+    totalAmount: order.lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0),
+    createdAt: order.createdAt.toISOString(),
+    sentAt: order.sentAt?.toISOString(),
+    receivedAt: order.receivedAt?.toISOString(),
+  };
+}
+
+async function nextOrderNumber(tx: Prisma.TransactionClient, shopDomain: string) {
+  const count = await tx.purchaseOrder.count({ where: { shopDomain } });
+  return `PO-${String(count + 1).padStart(4, "0")}`;
+}
+
+/** A concurrent request took the same PO number (P2002) or the write lock first (P2034). */
+function isNumberingConflict(error: unknown) {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    (error.code === "P2002" || error.code === "P2034")
+  );
+}
+
+/**
+ * Creates one draft per supplier from the selected replenishment rows, using each row's
+ * recommended quantity and unit cost. Rows without a recommendation are skipped. The expected
+ * date defaults to the longest lead time among the order's rows.
+ */
+export async function createDraftsFromRows(
+  shopDomain: string,
+  rows: ReplenishmentRow[],
+): Promise<PurchaseOrderSummary[]> {
+  const groups = new Map<string, DraftGroup>();
+  rows
+    .filter((row) => row.recommendedQty > 0)
+    .forEach((row) => {
+      const key = row.supplierId ?? "";
+      const group = groups.get(key) ?? {
+        supplierId: row.supplierId,
+        supplierName: row.supplierId ? row.supplier : UNASSIGNED_SUPPLIER_LABEL,
+        rows: [],
+      };
+      group.rows.push(row);
+      groups.set(key, group);
+    });
+
+  if (groups.size === 0) return [];
+
+  const now = Date.now();
+  // Numbers come from the shop's order count, so two requests at once can pick the same one;
+  // the loser rolls back and numbers its drafts again after the winner's.
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      const created = await insertDrafts(shopDomain, [...groups.values()], now);
+      return created.map(toSummary);
+    } catch (error) {
+      if (attempt >= PURCHASE_ORDER_CREATE_ATTEMPTS || !isNumberingConflict(error)) throw error;
+    }
+  }
+}
+
+function insertDrafts(
+  shopDomain: string,
+  groups: DraftGroup[],
+  now: number,
+) {
+  return prisma.$transaction(async (tx) => {
+    const orders: PurchaseOrderRow[] = [];
+    for (const group of groups) {
+      const leadTimeDays = Math.max(...group.rows.map((row) => row.leadTimeDays));
+      orders.push(
+        await tx.purchaseOrder.create({
+          data: {
+            shopDomain,
+            number: await nextOrderNumber(tx, shopDomain),
+            supplierId: group.supplierId ?? null,
+            supplierName: group.supplierName,
+            expectedAt: new Date(now + leadTimeDays * DAY_MS),
+            lines: {
+              create: group.rows.map((row) => ({
+                variantId: row.variantId ?? null,
+                sku: row.sku,
+                name: row.name,
+                variant: row.variant,
+                quantity: row.recommendedQty,
+                unitCost: row.unitCost,
+              })),
+            },
+          },
+          include: { lines: true },
+        }),
+      );
+    }
+    return orders;
+  });
+}
+
+export async function getPurchaseOrdersData(shopDomain: string): Promise<PurchaseOrdersPayload> {
+  const rows = await prisma.purchaseOrder.findMany({
+    where: { shopDomain },
+    include: { lines: true },
+    orderBy: { createdAt: "desc" },
+  });
+  const orders = rows.map(toSummary);
+
+  const statusCounts = Object.fromEntries(
+    PURCHASE_ORDER_STATUSES.map((status) => [status, 0]),
+  ) as Record<PurchaseOrderStatus, number>;
+  orders.forEach((order) => {
+    statusCounts[order.status] += 1;
+  });
+
+  return { orders, statusCounts };
+}
+
+export async function getPurchaseOrder(
+  shopDomain: string,
+  id: string,
+): Promise<PurchaseOrderDetail | null> {
+  const order = await prisma.purchaseOrder.findFirst({
+    where: { id, shopDomain },
+    include: { lines: { orderBy: { sku: "asc" } }, supplier: true },
+  });
+  if (!order) return null;
+
+  const status = toStatus(order.status);
+  return {
+    ...toSummary(order),
+    note: order.note,
+    expectedAt: order.expectedAt?.toISOString(),
+    cancelledAt: order.cancelledAt?.toISOString(),
+    supplierContact: order.supplier
+      ? {
+          contactName: order.supplier.contactName,
+          email: order.supplier.email,
+          phone: order.supplier.phone,
+        }
+      : undefined,
+    lines: order.lines.map((line) => ({
+      id: line.id,
+      variantId: line.variantId ?? undefined,
+      sku: line.sku,
+      name: line.name,
+      variant: line.variant,
+      quantity: line.quantity,
+      receivedQuantity: line.receivedQuantity,
+      unitCost: line.unitCost,
+      total: line.quantity * line.unitCost,
+    })),
+    allowedTransitions: PURCHASE_ORDER_TRANSITIONS[status],
+  };
+}
+
+/**
+ * Units ordered but not yet received on sent / partially received orders, keyed by variant
+ * id (or by SKU for lines without one). Drafts are not counted until they are sent.
+ */
+export async function getOnOrderQuantities(shopDomain: string): Promise<Map<string, number>> {
+  const lines = await prisma.purchaseOrderLine.findMany({
+    where: {
+      purchaseOrder: { shopDomain, status: { in: ["sent", "partially_received"] } },
+    },
+    select: { variantId: true, sku: true, quantity: true, receivedQuantity: true },
+  });
+
+  const onOrder = new Map<string, number>();
+  lines.forEach((line) => {
+    const key = line.variantId ?? line.sku;
+    const open = Math.max(0, line.quantity - line.receivedQuantity);
+    onOrder.set(key, (onOrder.get(key) ?? 0) + open);
+  });
+  return onOrder;
+}
+
+/**
+ * Amount committed on orders sent since `since` (sent, partially received or received), in
+ * total and per supplier id. Drafts and cancelled orders do not count against the budget.
+ */
+export async function getCommittedSpend(
+  shopDomain: string,
+  since: Date,
+): Promise<{ total: number; bySupplier: Map<string, number> }> {
+  const lines = await prisma.purchaseOrderLine.findMany({
+    where: {
+      purchaseOrder: {
+        shopDomain,
+        status: { in: ["sent", "partially_received", "received"] },
+        sentAt: { gte: since },
+      },
+    },
+    select: { quantity: true, unitCost: true, purchaseOrder: { select: { supplierId: true } } },
+  });
+
+  let total = 0;
+  const bySupplier = new Map<string, number>();
+  lines.forEach((line) => {
+    const amount = line.quantity * line.unitCost;
+    total += amount;
+    const supplierId = line.purchaseOrder.supplierId;
+    if (supplierId) bySupplier.set(supplierId, (bySupplier.get(supplierId) ?? 0) + amount);
+  });
+  return { total, bySupplier };
+}
+
+/**
+ * Observed lead-time spread per supplier id: the standard deviation of days from sent to fully
+ * received, over orders that completed. Suppliers with fewer than `MIN_LEAD_TIME_SAMPLES`
+ * completed orders are left out.
+ */
+export async function getLeadTimeStdDays(shopDomain: string): Promise<Map<string, number>> {
+  const orders = await prisma.purchaseOrder.findMany({
+    where: {
+      shopDomain,
+      status: "received",
+      supplierId: { not: null },
+      sentAt: { not: null },
+      receivedAt: { not: null },
+    },
+    select: { supplierId: true, sentAt: true, receivedAt: true },
+  });
+
+  const daysBySupplier = new Map<string, number[]>();
+  orders.forEach((order) => {
+    if (!order.supplierId || !order.sentAt || !order.receivedAt) return;
+    const days = (order.receivedAt.getTime() - order.sentAt.getTime()) / DAY_MS;
+    daysBySupplier.set(order.supplierId, [...(daysBySupplier.get(order.supplierId) ?? []), days]);
+  });
+
+  const spread = new Map<string, number>();
+  daysBySupplier.forEach((days, supplierId) => {
+    if (days.length >= MIN_LEAD_TIME_SAMPLES) spread.set(supplierId, standardDeviation(days));
+  });
+  return spread;
+}
+
+/**
+ * Edits a draft before it is sent. Lines set to 0 are removed. Returns false when the order
+ * is missing or no longer a draft.
+ */
+export async function updateDraftLines(
+  shopDomain: string,
+  id: string,
+  data: {
+    note: string;
+    expectedAt: Date | null;
+    lines: { id: string; quantity: number; unitCost: number }[];
+  },
+): Promise<boolean> {
+  const order = await prisma.purchaseOrder.findFirst({
+    where: { id, shopDomain, status: "draft" },
+    select: { id: true },
+  });
+  if (!order) return false;
+
+  await prisma.$transaction([
+    prisma.purchaseOrder.update({ where: { id }, data: { note: data.note, expectedAt: data.expectedAt } }),
+    ...data.lines.map((line) =>
+      line.quantity === 0
+        ? prisma.purchaseOrderLine.deleteMany({ where: { id: line.id, purchaseOrderId: id } })
+        : prisma.purchaseOrderLine.updateMany({
+            where: { id: line.id, purchaseOrderId: id },
+            data: { quantity: line.quantity, unitCost: line.unitCost },
+          }),
+    ),
+  ]);
+  return true;
+}
+
+/** Applies a manual status change. Returns false when the transition is not allowed. */
+export async function transitionPurchaseOrder(
+  shopDomain: string,
+  id: string,
+  next: PurchaseOrderStatus,
+): Promise<boolean> {
+  const order = await prisma.purchaseOrder.findFirst({
+    where: { id, shopDomain },
+    include: { lines: true },
+  });
+  if (!order || !PURCHASE_ORDER_TRANSITIONS[toStatus(order.status)].includes(next)) {
+    return false;
+  }
+
+  const now = new Date();
+  if (next === "received") {
+    await prisma.$transaction([
+      ...order.lines.map((line) =>
+        prisma.purchaseOrderLine.update({
+          where: { id: line.id },
+          data: { receivedQuantity: line.quantity },
+        }),
+      ),
+      prisma.purchaseOrder.update({ where: { id }, data: { status: next, receivedAt: now } }),
+    ]);
+    return true;
+  }
+
+  await prisma.purchaseOrder.update({
+    where: { id },
+    data: {
+      status: next,
+      ...(next === "sent" ? { sentAt: now } : {}),
+      ...(next === "cancelled" ? { cancelledAt: now } : {}),
+    },
+  });
+  return true;
+}
+
+/**
+ * Records cumulative received quantities for a sent order and derives the status:
+ * `received` once every line is complete, otherwise `partially_received`.
+ */
+export async function receivePurchaseOrder(
+  shopDomain: string,
+  id: string,
+  received: { id: string; receivedQuantity: number }[],
+): Promise<boolean> {
+  const order = await prisma.purchaseOrder.findFirst({
+    where: { id, shopDomain, status: { in: ["sent", "partially_received"] } },
+    include: { lines: true },
+  });
+  if (!order) return false;
+
+  const receivedById = new Map(received.map((line) => [line.id, line.receivedQuantity]));
+  const lines = order.lines.map((line) => ({
+    id: line.id,
+    quantity: line.quantity,
+    receivedQuantity: Math.min(line.quantity, receivedById.get(line.id) ?? line.receivedQuantity),
+  }));
+  const complete = lines.every((line) => line.receivedQuantity >= line.quantity);
+  const anyReceived = lines.some((line) => line.receivedQuantity > 0);
+
+  await prisma.$transaction([
+    ...lines.map((line) =>
+      prisma.purchaseOrderLine.update({
+        where: { id: line.id },
+        data: { receivedQuantity: line.receivedQuantity },
+      }),
+    ),
+    prisma.purchaseOrder.update({
+      where: { id },
+      data: {
+        status: complete ? "received" : anyReceived ? "partially_received" : "sent",
+        receivedAt: complete ? new Date() : null,
+      },
+    }),
+  ]);
+  return true;
+}
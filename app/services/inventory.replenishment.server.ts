@@ -1,80 +1,141 @@
 import {
+  DEFAULT_HISTORY_DAYS,
   DEFAULT_LEAD_TIME_DAYS,
   DEFAULT_SAFETY_DAYS,
   DEFAULT_SHORTAGE_THRESHOLD_DAYS,
   MIN_RECOMMENDED_QTY,
+  UNASSIGNED_SUPPLIER_LABEL,
 } from "../config/inventory";
-import { buildBudgetPlan, buildRowsForTimeframe, parseHistoryWindowDays } from "./inventory.helpers.server";
+import {
+  buildBudgetPlan,
+  buildRowsForTimeframe,
+  computeTargetCoverage,
+  parseHistoryWindowDays,
+  resolveLocationScope,
+  resolveOrderConstraints,
+  scopeVariantMetrics,
+} from "./inventory.helpers.server";
 import type { AdminApiClient } from "./shopify-graphql.server";
-import type { ReplenishmentPayload, ReplenishmentRow } from "./inventory.types";
+import type { AbcClass, ReplenishmentPayload, ReplenishmentRow } from "./inventory.types";
+import { getBudgetSettings } from "./inventory.budget.server";
+import { getDemandCalendar } from "./inventory.events.server";
+import { toForecastModelSetting } from "./inventory.forecast";
 import { buildDashboardLocations, getInventoryLastUpdated, getVariantMetrics } from "./inventory.sync.server";
-import { readSettings } from "./inventory.settings.server";
+import { getSafetyStockPolicy } from "./inventory.safety-stock.server";
+import { readClassPolicies, readSettings } from "./inventory.settings.server";
+import { getSkuSettings, listSuppliers } from "./inventory.suppliers.server";
 
 export async function getReplenishmentData(
   admin: AdminApiClient,
   shopDomain: string,
+  options: { locationId?: string | null } = {},
 ): Promise<ReplenishmentPayload> {
   const settings = await readSettings(shopDomain);
   const shortageThreshold = settings?.shortageThreshold ?? DEFAULT_SHORTAGE_THRESHOLD_DAYS;
   const safetyDays = settings?.safetyDays ?? DEFAULT_SAFETY_DAYS;
   const leadTimeDays = settings?.leadTime ?? DEFAULT_LEAD_TIME_DAYS;
-  const targetCoverage = Math.max(leadTimeDays + safetyDays, 30);
+  const targetCoverage = computeTargetCoverage(leadTimeDays, safetyDays);
   const historyWindowDays = parseHistoryWindowDays(settings?.historyWindow);
-  const variants = await getVariantMetrics(admin, shopDomain);
-  const missingCostCount = variants.filter((variant) => !variant.unitCost || variant.unitCost === 0).length;
-  const metrics30d = buildRowsForTimeframe(variants, "30d", targetCoverage);
+  const forecastModel = toForecastModelSetting(settings?.forecastModel);
   const locations = await buildDashboardLocations(admin, shopDomain);
-  const primaryLocation = locations.find((location) => location.selected) ?? locations[0];
-  const suppliers = [
-    "Default supplier",
-    "Alpha Sports",
-    "Blue Motion",
-    "Gadget Labs",
-    "Hydro Made",
-    "EverWool",
-  ];
+  const scope = resolveLocationScope(locations, options.locationId);
+  // Bundles are assembled from their components, which is what gets purchased.
+  const variants = scopeVariantMetrics(await getVariantMetrics(admin, shopDomain), scope).filter(
+    (variant) => !variant.bundleComponents,
+  );
+  const missingCostCount = variants.filter((variant) => !variant.unitCost || variant.unitCost === 0).length;
+  const [supplierRecords, skuSettings, budgetSettings, classPolicies, demandCalendar] = await Promise.all([
+    listSuppliers(shopDomain),
+    getSkuSettings(shopDomain),
+    getBudgetSettings(shopDomain),
+    readClassPolicies(shopDomain),
+    getDemandCalendar(shopDomain, DEFAULT_HISTORY_DAYS),
+  ]);
+  const shortageThresholdFor = (row: { abcClass?: AbcClass }) =>
+    (row.abcClass && classPolicies[row.abcClass]?.shortageThreshold) ?? shortageThreshold;
+  const safetyStock = await getSafetyStockPolicy(shopDomain, skuSettings);
+  const metrics30d = buildRowsForTimeframe(
+    variants,
+    "30d",
+    safetyStock.targetCoverageFor,
+    forecastModel,
+    safetyStock.safetyStockFor,
+    demandCalendar,
+  );
+  const suppliers = [UNASSIGNED_SUPPLIER_LABEL, ...supplierRecords.map((supplier) => supplier.name)];
 
   const rows: ReplenishmentRow[] = metrics30d
     .map((metric) => {
       const note = metric.insufficientSales
         ? "销量不足以预测"
-        : metric.daysOfStock <= shortageThreshold
+        : metric.daysOfStock <= shortageThresholdFor(metric)
           ? "缺货风险"
           : undefined;
+      const supplier = skuSettings.get(metric.sku)?.supplier;
+      const planning = safetyStock.planningFor(metric.sku);
+      const constraints = resolveOrderConstraints(skuSettings.get(metric.sku));
 
       return {
+        variantId: metric.variantId,
         sku: metric.sku,
         name: metric.name,
         variant: metric.variant,
-        location: primaryLocation?.name ?? "All included locations",
+        location: scope.label,
         available: metric.available,
+        incoming: metric.incoming ?? 0,
+        onOrder: metric.onOrder ?? 0,
         avgDailySales: metric.avgDailySales,
+        forecastModel: metric.forecastModel,
         daysOfStock: metric.daysOfStock,
         recommendedQty: metric.recommendedQty,
-        targetCoverage: targetCoverage,
+        targetCoverage: metric.targetCoverage ?? planning.targetCoverage,
+        leadTimeDays: planning.leadTimeDays,
+        safetyDays: planning.safetyDays,
+        leadTimeSource: planning.leadTimeSource,
+        safetyDaysSource: planning.safetyDaysSource,
+        safetyQty: metric.safetyQty ?? 0,
+        reorderPoint: metric.reorderPoint ?? 0,
+        serviceLevel: safetyStock.serviceLevelFor(metric),
+        abcClass: metric.abcClass,
+        xyzClass: metric.xyzClass,
+        shortageThreshold: shortageThresholdFor(metric),
+        eventMultiplier: metric.eventMultiplier,
         unitCost: metric.unitCost ?? 0,
-        supplier: "Default supplier",
+        price: metric.price,
+        moq: constraints.moq,
+        casePack: constraints.casePack,
+        supplier: supplier?.name ?? UNASSIGNED_SUPPLIER_LABEL,
+        supplierId: supplier?.id,
         note,
       };
     })
     .filter((row) => row.available > 0 || row.recommendedQty > 0);
 
-  const shortageCandidates = metrics30d.filter(
-    (row) =>
-      row.daysOfStock <= shortageThreshold ||
-      row.recommendedQty >= MIN_RECOMMENDED_QTY,
-  );
+  const shortageCandidates = metrics30d
+    .filter(
+      (row) =>
+        row.daysOfStock <= shortageThresholdFor(row) ||
+        row.recommendedQty >= MIN_RECOMMENDED_QTY,
+    )
+    .map((row) => ({
+      ...row,
+      ...resolveOrderConstraints(skuSettings.get(row.sku)),
+      supplierId: skuSettings.get(row.sku)?.supplier?.id,
+    }));
 
-  const budgetPlan = buildBudgetPlan(shortageCandidates);
+  const budgetPlan = buildBudgetPlan(shortageCandidates, budgetSettings);
 
   return {
     rows,
     budgetPlan,
     missingCostCount,
     locations,
+    locationScope: scope.scope,
     suppliers,
     safetyDays,
     leadTimeDays,
+    safetyStockMethod: safetyStock.method,
+    serviceLevel: safetyStock.serviceLevel,
     shortageThreshold,
     historyWindowDays,
     targetCoverageDays: targetCoverage,
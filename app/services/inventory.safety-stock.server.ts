@@ -0,0 +1,103 @@
+import {
+  DEFAULT_LEAD_TIME_DAYS,
+  DEFAULT_LEAD_TIME_STD_DAYS,
+  DEFAULT_SAFETY_DAYS,
+  DEFAULT_SERVICE_LEVEL,
+  REVIEW_PERIOD_DAYS,
+} from "../config/inventory";
+import { resolvePlanningParams } from "./inventory.helpers.server";
+import { getLeadTimeStdDays } from "./inventory.purchase-orders.server";
+import { computeSafetyStock } from "./inventory.safety-stock";
+import { readClassPolicies, readSettings, toSafetyStockMethod } from "./inventory.settings.server";
+import type { SkuSettingRecord } from "./inventory.suppliers.server";
+import type {
+  PlanningParams,
+  SafetyStockMethod,
+  VariantMetrics,
+} from "./inventory.types";
+
+export type SafetyStockPolicy = {
+  method: SafetyStockMethod;
+  serviceLevel: number;
+  planningFor: (sku: string) => PlanningParams;
+  /** Service level (%) for a variant's class; undefined with the flat safety days method. */
+  serviceLevelFor: (variant: Pick<VariantMetrics, "abcClass">) => number | undefined;
+  targetCoverageFor: (variant: VariantMetrics) => number;
+  safetyStockFor: (
+    variant: VariantMetrics,
+    demand: { dailyRate: number; demandStdDev: number },
+  ) => SafetyStock;
+};
+
+type SafetyStock = {
+  leadTimeDays: number;
+  safetyQty: number;
+  /** Statistical only: stock is ordered up to (lead time + review period) demand + `safetyQty`. */
+  reviewDays?: number;
+};
+
+/**
+ * Safety stock for the shop's planning rows. With the "days" method safety stock is the SKU's
+ * safety days of demand, as before. With "statistical" it comes from daily demand variability,
+ * lead-time variability (the supplier's observed spread on received orders, else the shop
+ * setting) and the service level of the variant's ABC class, else the shop's level. Stock is
+ * then ordered up to lead-time plus `REVIEW_PERIOD_DAYS` demand on top of the safety stock, without
+ * the flat safety days or the `MIN_TARGET_COVERAGE_DAYS` floor, so service level and demand
+ * variability move the order quantity.
+ */
+export async function getSafetyStockPolicy(
+  shopDomain: string,
+  skuSettings: Map<string, SkuSettingRecord>,
+): Promise<SafetyStockPolicy> {
+  const [settings, classPolicies, leadTimeSpread] = await Promise.all([
+    readSettings(shopDomain),
+    readClassPolicies(shopDomain),
+    getLeadTimeStdDays(shopDomain),
+  ]);
+  const method = toSafetyStockMethod(settings?.safetyStockMethod);
+  const serviceLevel = settings?.serviceLevel ?? DEFAULT_SERVICE_LEVEL;
+  const shop = {
+    leadTimeDays: settings?.leadTime ?? DEFAULT_LEAD_TIME_DAYS,
+    safetyDays: settings?.safetyDays ?? DEFAULT_SAFETY_DAYS,
+  };
+  const planningFor = (sku: string) => resolvePlanningParams(shop, skuSettings.get(sku));
+  const classLevelFor = (variant: Pick<VariantMetrics, "abcClass">) =>
+    (variant.abcClass && classPolicies[variant.abcClass]?.serviceLevel) ?? serviceLevel;
+
+  return {
+    method,
+    serviceLevel,
+    planningFor,
+    serviceLevelFor: (variant) => (method === "statistical" ? classLevelFor(variant) : undefined),
+    targetCoverageFor: (variant) => {
+      const planning = planningFor(variant.sku);
+      return method === "statistical"
+        ? planning.leadTimeDays + REVIEW_PERIOD_DAYS
+        : planning.targetCoverage;
+    },
+    safetyStockFor: (variant, demand) => {
+      const planning = planningFor(variant.sku);
+      if (method === "days") {
+        return {
+          leadTimeDays: planning.leadTimeDays,
+          safetyQty: demand.dailyRate * planning.safetyDays,
+        };
+      }
+      const supplierId = skuSettings.get(variant.sku)?.supplier?.id;
+      return {
+        leadTimeDays: planning.leadTimeDays,
+        reviewDays: REVIEW_PERIOD_DAYS,
+        safetyQty: computeSafetyStock({
+          dailyRate: demand.dailyRate,
+          demandStdDev: demand.demandStdDev,
+          leadTimeDays: planning.leadTimeDays,
+          leadTimeStdDays:
+            (supplierId ? leadTimeSpread.get(supplierId) : undefined) ??
+            settings?.leadTimeStdDays ??
+            DEFAULT_LEAD_TIME_STD_DAYS,
+          serviceLevel: classLevelFor(variant),
+        }),
+      };
+    },
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Statistical safety stock (pure, no I/O).
+ *
+ * Safety stock covers demand and lead-time uncertainty at a target service level (the chance of
+ * not running out during one replenishment cycle):
+ *
+ *   safety = z × √(L × σd² + d² × σL²)
+ *
+ * with d / σd the mean and standard deviation of daily demand, L / σL those of the lead time in
+ * days and z the standard normal quantile of the service level.
+ */
+
+/** Standard normal quantile (Acklam's rational approximation, relative error < 1.2e-9). */
+export function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    const z =
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < low ? z : -z;
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/** Sample standard deviation; 0 for fewer than two values. */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((total, value) => total + value, 0) / values.length;
+  const variance =
+    values.reduce((total, value) => total + (value - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/** Safety stock in units for a service level given in percent (e.g. 95). */
+export function computeSafetyStock(params: {
+  dailyRate: number;
+  demandStdDev: number;
+  leadTimeDays: number;
+  leadTimeStdDays: number;
+  serviceLevel: number;
+}): number {
+  const { dailyRate, demandStdDev, leadTimeDays, leadTimeStdDays, serviceLevel } = params;
+  const z = Math.max(0, normalQuantile(serviceLevel / 100));
+  const spread = Math.sqrt(
+    leadTimeDays * demandStdDev ** 2 + dailyRate ** 2 * leadTimeStdDays ** 2,
+  );
+  return z * spread;
+}
@@ -1,45 +1,50 @@
 import {
   DEFAULT_DIGEST_DAILY_ENABLED,
   DEFAULT_DIGEST_SEND_HOUR,
+  DEFAULT_DIGEST_WEEKDAY,
   DEFAULT_DIGEST_WEEKLY_ENABLED,
   DEFAULT_HISTORY_DAYS,
   DEFAULT_LEAD_TIME_DAYS,
+  DEFAULT_LEAD_TIME_STD_DAYS,
   DEFAULT_MILD_OVERSTOCK_THRESHOLD_DAYS,
+  DEFAULT_NIGHTLY_SYNC_HOUR,
   DEFAULT_OVERSTOCK_THRESHOLD_DAYS,
+  DEFAULT_PURCHASE_BUDGET,
   DEFAULT_SAFETY_DAYS,
+  DEFAULT_SERVICE_LEVEL,
   DEFAULT_SHORTAGE_THRESHOLD_DAYS,
+  SUBSCRIBED_WEBHOOK_TOPICS,
 } from "../config/inventory";
 import prisma from "../db.server";
+import { toBudgetPeriod } from "./inventory.budget.server";
+import { toAbcBasis } from "./inventory.classification";
+import { toForecastModelSetting } from "./inventory.forecast";
 import { getSampleVariantMetrics } from "./inventory.helpers.server";
-import { logEvent } from "./logger.server";
-import { fetchLocations, getCachedVariantMetrics, getInventoryLastUpdated, getSyncStatus } from "./inventory.sync.server";
+import { getLastEvent, logEvent } from "./logger.server";
+import {
+  buildDashboardLocations,
+  getCachedVariantMetrics,
+  getInventoryLastUpdated,
+} from "./inventory.sync.server";
 import type { AdminApiClient } from "./shopify-graphql.server";
-import type { SettingsPayload } from "./inventory.types";
+import type {
+  AbcClass,
+  ClassPolicies,
+  SafetyStockMethod,
+  SettingsPayload,
+} from "./inventory.types";
+
+const ABC_CLASSES: AbcClass[] = ["A", "B", "C"];
+
+export function toSafetyStockMethod(value?: string | null): SafetyStockMethod {
+  return value === "statistical" ? "statistical" : "days";
+}
 
 export async function getSettingsData(
   admin: AdminApiClient,
   shopDomain?: string,
 ): Promise<SettingsPayload> {
-  let locations: { id: string; name: string; selected?: boolean }[] = [];
-  try {
-    locations = await fetchLocations(admin, shopDomain ?? "");
-  } catch (error) {
-    await logEvent(
-      shopDomain ?? "unknown-shop",
-      "sync",
-      "failure",
-      `Failed to fetch locations, using fallback: ${error instanceof Error ? error.message : "unknown"}`,
-    );
-  }
-
-  const withSelection =
-    locations.length > 0
-      ? locations.map((loc, index) => ({ ...loc, selected: index < 2 }))
-      : [
-          { id: "us-east", name: "US East (primary)", selected: true },
-          { id: "eu-fulfillment", name: "EU Fulfillment", selected: true },
-          { id: "pop-up", name: "Pop-up Store", selected: false },
-        ];
+  const withSelection = await buildDashboardLocations(admin, shopDomain ?? "");
 
   let missingCostCount = 0;
   try {
@@ -63,7 +68,11 @@ export async function getSettingsData(
   const lastCalculated = shopDomain
     ? await getInventoryLastUpdated(shopDomain)
     : "使用样本数据";
-  const syncStatus = shopDomain ? await getSyncStatus(shopDomain) : {};
+  const lastWebhook = shopDomain ? await getLastEvent(shopDomain, "webhook") : null;
+  const classPolicies = shopDomain ? await readClassPolicies(shopDomain) : {};
+  const syncState = shopDomain
+    ? await prisma.syncState.findUnique({ where: { shopDomain }, select: { timezone: true } })
+    : null;
 
   return {
     locations: withSelection,
@@ -75,17 +84,28 @@ export async function getSettingsData(
     leadTime: saved?.leadTime ?? DEFAULT_LEAD_TIME_DAYS,
     digestFrequency: (saved?.digestFrequency as SettingsPayload["digestFrequency"]) ?? "weekly",
     digestSendHour: saved?.digestSendHour ?? DEFAULT_DIGEST_SEND_HOUR,
+    digestWeekday: saved?.digestWeekday ?? DEFAULT_DIGEST_WEEKDAY,
     digestDailyEnabled: saved?.digestDailyEnabled ?? DEFAULT_DIGEST_DAILY_ENABLED,
     digestWeeklyEnabled: saved?.digestWeeklyEnabled ?? DEFAULT_DIGEST_WEEKLY_ENABLED,
-    emailRecipients: saved?.emailRecipients ?? "ops@brand.com, founder@brand.com",
-    slackWebhook: saved?.slackWebhook ?? "https://hooks.slack.com/...",
-    slackEnabled: saved?.slackEnabled ?? true,
+    emailRecipients: saved?.emailRecipients ?? "",
+    slackWebhook: saved?.slackWebhook ?? "",
+    slackEnabled: saved?.slackEnabled ?? false,
+    purchaseBudget: saved?.purchaseBudget ?? DEFAULT_PURCHASE_BUDGET,
+    budgetPeriod: toBudgetPeriod(saved?.budgetPeriod),
+    forecastModel: toForecastModelSetting(saved?.forecastModel),
+    safetyStockMethod: toSafetyStockMethod(saved?.safetyStockMethod),
+    serviceLevel: saved?.serviceLevel ?? DEFAULT_SERVICE_LEVEL,
+    leadTimeStdDays: saved?.leadTimeStdDays ?? DEFAULT_LEAD_TIME_STD_DAYS,
+    abcBasis: toAbcBasis(saved?.abcBasis),
+    classPolicies,
+    nightlySyncHour: saved?.nightlySyncHour ?? DEFAULT_NIGHTLY_SYNC_HOUR,
+    timezone: syncState?.timezone ?? "UTC",
     missingCostCount,
     lastCalculated,
-    webhookStatus: "orders/paid · inventory_levels/update · products/update",
-    lastWebhook: syncStatus.lastSuccess
-      ? `最近成功：${syncStatus.lastSuccess}`
-      : "尚无同步记录",
+    webhookStatus: SUBSCRIBED_WEBHOOK_TOPICS.join(" · "),
+    lastWebhook: lastWebhook
+      ? `最近 Webhook：${lastWebhook.createdAt.toLocaleString()}${lastWebhook.status === "failure" ? "（处理失败）" : ""}`
+      : "尚未收到 Webhook",
   };
 }
 
@@ -98,11 +118,21 @@ export async function saveSettings(shopDomain: string, data: {
   historyWindow: string;
   digestFrequency: string;
   digestSendHour: number;
+  digestWeekday: number;
   digestDailyEnabled: boolean;
   digestWeeklyEnabled: boolean;
   emailRecipients: string;
   slackWebhook: string;
   slackEnabled: boolean;
+  purchaseBudget: number;
+  budgetPeriod: string;
+  forecastModel: string;
+  safetyStockMethod: string;
+  serviceLevel: number;
+  leadTimeStdDays: number;
+  abcBasis: string;
+  nightlySyncHour: number;
+  classPolicies: ClassPolicies;
   locations: { id: string; selected: boolean }[];
 }) {
   await prisma.shopSetting.upsert({
@@ -117,11 +147,20 @@ export async function saveSettings(shopDomain: string, data: {
       historyWindow: data.historyWindow,
       digestFrequency: data.digestFrequency,
       digestSendHour: data.digestSendHour,
+      digestWeekday: data.digestWeekday,
       digestDailyEnabled: data.digestDailyEnabled,
       digestWeeklyEnabled: data.digestWeeklyEnabled,
       emailRecipients: data.emailRecipients,
       slackWebhook: data.slackWebhook,
       slackEnabled: data.slackEnabled,
+      purchaseBudget: data.purchaseBudget,
+      budgetPeriod: data.budgetPeriod,
+      forecastModel: data.forecastModel,
+      safetyStockMethod: data.safetyStockMethod,
+      serviceLevel: data.serviceLevel,
+      leadTimeStdDays: data.leadTimeStdDays,
+      abcBasis: data.abcBasis,
+      nightlySyncHour: data.nightlySyncHour,
     },
     update: {
       shortageThreshold: data.shortageThreshold,
@@ -132,14 +171,71 @@ export async function saveSettings(shopDomain: string, data: {
       historyWindow: data.historyWindow,
       digestFrequency: data.digestFrequency,
       digestSendHour: data.digestSendHour,
+      digestWeekday: data.digestWeekday,
       digestDailyEnabled: data.digestDailyEnabled,
       digestWeeklyEnabled: data.digestWeeklyEnabled,
       emailRecipients: data.emailRecipients,
       slackWebhook: data.slackWebhook,
       slackEnabled: data.slackEnabled,
+      purchaseBudget: data.purchaseBudget,
+      budgetPeriod: data.budgetPeriod,
+      forecastModel: data.forecastModel,
+      safetyStockMethod: data.safetyStockMethod,
+      serviceLevel: data.serviceLevel,
+      leadTimeStdDays: data.leadTimeStdDays,
+      abcBasis: data.abcBasis,
+      nightlySyncHour: data.nightlySyncHour,
     },
   });
-  // Persisting locations would happen here if backed by DB; today we rely on Shopify locations.
+  await saveClassPolicies(shopDomain, data.classPolicies);
+  await saveLocationSelection(shopDomain, data.locations);
+}
+
+/** Overrides set per ABC class; classes or values left unset use the shop setting. */
+export async function readClassPolicies(shopDomain: string): Promise<ClassPolicies> {
+  const rows = await prisma.classPolicy.findMany({ where: { shopDomain } });
+  const policies: ClassPolicies = {};
+  rows.forEach((row) => {
+    if (!ABC_CLASSES.includes(row.abcClass as AbcClass)) return;
+    policies[row.abcClass as AbcClass] = {
+      serviceLevel: row.serviceLevel ?? undefined,
+      shortageThreshold: row.shortageThreshold ?? undefined,
+      overstockThreshold: row.overstockThreshold ?? undefined,
+    };
+  });
+  return policies;
+}
+
+async function saveClassPolicies(shopDomain: string, policies: ClassPolicies) {
+  await prisma.$transaction(
+    ABC_CLASSES.map((abcClass) => {
+      const data = {
+        serviceLevel: policies[abcClass]?.serviceLevel ?? null,
+        shortageThreshold: policies[abcClass]?.shortageThreshold ?? null,
+        overstockThreshold: policies[abcClass]?.overstockThreshold ?? null,
+      };
+      return prisma.classPolicy.upsert({
+        where: { shopDomain_abcClass: { shopDomain, abcClass } },
+        create: { shopDomain, abcClass, ...data },
+        update: data,
+      });
+    }),
+  );
+}
+
+export async function saveLocationSelection(
+  shopDomain: string,
+  locations: { id: string; selected: boolean }[],
+) {
+  await prisma.$transaction(
+    locations.map((location) =>
+      prisma.shopLocation.upsert({
+        where: { shopDomain_locationId: { shopDomain, locationId: location.id } },
+        create: { shopDomain, locationId: location.id, selected: location.selected },
+        update: { selected: location.selected },
+      }),
+    ),
+  );
 }
 
 export async function readSettings(shopDomain: string) {
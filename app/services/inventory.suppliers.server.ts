@@ -0,0 +1,251 @@
+import type { Prisma } from "@prisma/client";
+import { DEFAULT_LEAD_TIME_DAYS, DEFAULT_SAFETY_DAYS } from "../config/inventory";
+import prisma from "../db.server";
+import type { SkuPlanningForm, SupplierCsvRow, SupplierForm } from "../validation/suppliers";
+import { getSampleVariantMetrics } from "./inventory.helpers.server";
+import { readSettings } from "./inventory.settings.server";
+import { getCachedVariantMetrics } from "./inventory.sync.server";
+import type {
+  OrderConstraints,
+  PlanningOverride,
+  SupplierRecord,
+  SuppliersPayload,
+} from "./inventory.types";
+
+type SupplierRow = Prisma.SupplierGetPayload<{ include: { _count: { select: { skuSettings: true } } } }>;
+
+export type SkuSettingRecord = {
+  supplier?: { id: string; name: string } & PlanningOverride & OrderConstraints;
+  sku: PlanningOverride & OrderConstraints;
+};
+
+function toSupplierRecord(row: SupplierRow): SupplierRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    contactName: row.contactName,
+    email: row.email,
+    phone: row.phone,
+    currency: row.currency,
+    leadTimeDays: row.leadTimeDays ?? undefined,
+    safetyDays: row.safetyDays ?? undefined,
+    moq: row.moq ?? undefined,
+    budget: row.budget ?? undefined,
+    skuCount: row._count.skuSettings,
+  };
+}
+
+export async function listSuppliers(shopDomain: string): Promise<SupplierRecord[]> {
+  const rows = await prisma.supplier.findMany({
+    where: { shopDomain },
+    include: { _count: { select: { skuSettings: true } } },
+    orderBy: { name: "asc" },
+  });
+  return rows.map(toSupplierRecord);
+}
+
+/**
+ * Creates or updates a supplier. Returns false when another supplier of the shop already
+ * uses the name.
+ */
+export async function saveSupplier(shopDomain: string, data: SupplierForm): Promise<boolean> {
+  const duplicate = await prisma.supplier.findFirst({
+    where: { shopDomain, name: data.name, ...(data.id ? { id: { not: data.id } } : {}) },
+    select: { id: true },
+  });
+  if (duplicate) return false;
+
+  const fields = {
+    name: data.name,
+    contactName: data.contactName,
+    email: data.email,
+    phone: data.phone,
+    currency: data.currency,
+    leadTimeDays: data.leadTimeDays,
+    safetyDays: data.safetyDays,
+    moq: data.moq,
+    budget: data.budget,
+  };
+
+  if (data.id) {
+    await prisma.supplier.updateMany({ where: { id: data.id, shopDomain }, data: fields });
+  } else {
+    await prisma.supplier.create({ data: { shopDomain, ...fields } });
+  }
+  return true;
+}
+
+export async function deleteSupplier(shopDomain: string, id: string) {
+  // SkuSetting.supplierId is ON DELETE SET NULL, so assigned SKUs fall back to unassigned.
+  await prisma.supplier.deleteMany({ where: { id, shopDomain } });
+}
+
+export async function assignSupplier(
+  shopDomain: string,
+  sku: string,
+  supplierId: string | null,
+): Promise<boolean> {
+  if (supplierId) {
+    const supplier = await prisma.supplier.findFirst({ where: { id: supplierId, shopDomain } });
+    if (!supplier) return false;
+  }
+
+  await prisma.skuSetting.upsert({
+    where: { shopDomain_sku: { shopDomain, sku } },
+    create: { shopDomain, sku, supplierId },
+    update: { supplierId },
+  });
+  return true;
+}
+
+export async function saveSkuPlanning(shopDomain: string, data: SkuPlanningForm) {
+  await prisma.skuSetting.upsert({
+    where: { shopDomain_sku: { shopDomain, sku: data.sku } },
+    create: {
+      shopDomain,
+      sku: data.sku,
+      leadTimeDays: data.leadTimeDays,
+      safetyDays: data.safetyDays,
+      moq: data.moq,
+      casePack: data.casePack,
+    },
+    update: {
+      leadTimeDays: data.leadTimeDays,
+      safetyDays: data.safetyDays,
+      moq: data.moq,
+      casePack: data.casePack,
+    },
+  });
+}
+
+/**
+ * Per-SKU supplier assignment, planning overrides and order constraints, keyed by SKU. SKUs
+ * missing from the map have no supplier, use the shop-wide lead time / safety days and are
+ * ordered by the unit.
+ */
+export async function getSkuSettings(shopDomain: string): Promise<Map<string, SkuSettingRecord>> {
+  const rows = await prisma.skuSetting.findMany({
+    where: { shopDomain },
+    select: {
+      sku: true,
+      leadTimeDays: true,
+      safetyDays: true,
+      moq: true,
+      casePack: true,
+      supplier: {
+        select: { id: true, name: true, leadTimeDays: true, safetyDays: true, moq: true },
+      },
+    },
+  });
+
+  return new Map(
+    rows.map((row) => [
+      row.sku,
+      {
+        supplier: row.supplier
+          ? {
+              id: row.supplier.id,
+              name: row.supplier.name,
+              leadTimeDays: row.supplier.leadTimeDays ?? undefined,
+              safetyDays: row.supplier.safetyDays ?? undefined,
+              moq: row.supplier.moq ?? undefined,
+            }
+          : undefined,
+        sku: {
+          leadTimeDays: row.leadTimeDays ?? undefined,
+          safetyDays: row.safetyDays ?? undefined,
+          moq: row.moq ?? undefined,
+          casePack: row.casePack ?? undefined,
+        },
+      },
+    ]),
+  );
+}
+
+/**
+ * Applies parsed CSV rows: suppliers are matched by name and created when missing (using the
+ * optional detail columns of the first row that names them), then each SKU is (re)assigned.
+ */
+export async function importSupplierAssignments(shopDomain: string, rows: SupplierCsvRow[]) {
+  const existing = await prisma.supplier.findMany({
+    where: { shopDomain },
+    select: { id: true, name: true },
+  });
+  const idsByName = new Map(existing.map((supplier) => [supplier.name, supplier.id]));
+
+  let createdSuppliers = 0;
+  for (const row of rows) {
+    if (idsByName.has(row.supplier)) continue;
+    const created = await prisma.supplier.create({
+      data: {
+        shopDomain,
+        name: row.supplier,
+        contactName: row.contactName ?? "",
+        email: row.email ?? "",
+        phone: row.phone ?? "",
+        currency: row.currency ?? "USD",
+        leadTimeDays: row.leadTimeDays ?? null,
+        safetyDays: row.safetyDays ?? null,
+        moq: row.moq ?? null,
+      },
+    });
+    idsByName.set(row.supplier, created.id);
+    createdSuppliers += 1;
+  }
+
+  await prisma.$transaction(
+    rows.map((row) => {
+      const supplierId = idsByName.get(row.supplier) ?? null;
+      return prisma.skuSetting.upsert({
+        where: { shopDomain_sku: { shopDomain, sku: row.sku } },
+        create: { shopDomain, sku: row.sku, supplierId },
+        update: { supplierId },
+      });
+    }),
+  );
+
+  return { assigned: rows.length, createdSuppliers };
+}
+
+export async function getSuppliersData(shopDomain: string): Promise<SuppliersPayload> {
+  const [suppliers, skuSettings, settings] = await Promise.all([
+    listSuppliers(shopDomain),
+    getSkuSettings(shopDomain),
+    readSettings(shopDomain),
+  ]);
+
+  let variants = await getCachedVariantMetrics(shopDomain);
+  if (!variants.length) {
+    variants = getSampleVariantMetrics();
+  }
+
+  const seen = new Set<string>();
+  const skus = variants
+    .filter((variant) => {
+      if (!variant.sku || seen.has(variant.sku)) return false;
+      seen.add(variant.sku);
+      return true;
+    })
+    .map((variant) => {
+      const setting = skuSettings.get(variant.sku);
+      return {
+        sku: variant.sku,
+        name: variant.name,
+        variant: variant.variant,
+        supplierId: setting?.supplier?.id,
+        leadTimeDays: setting?.sku.leadTimeDays,
+        safetyDays: setting?.sku.safetyDays,
+        moq: setting?.sku.moq,
+        casePack: setting?.sku.casePack,
+      };
+    })
+    .sort((a, b) => a.sku.localeCompare(b.sku));
+
+  return {
+    suppliers,
+    skus,
+    unassignedCount: skus.filter((row) => !row.supplierId).length,
+    defaultLeadTimeDays: settings?.leadTime ?? DEFAULT_LEAD_TIME_DAYS,
+    defaultSafetyDays: settings?.safetyDays ?? DEFAULT_SAFETY_DAYS,
+  };
+}
@@ -1,16 +1,42 @@
-import { CACHE_MAX_MINUTES } from "../config/inventory";
+import {
+  CACHE_MAX_MINUTES,
+  DEFAULT_HISTORY_DAYS,
+  SALES_RECONCILE_HOURS,
+  SYNC_WRITE_BATCH_SIZE,
+} from "../config/inventory";
 import prisma from "../db.server";
 import { logEvent } from "./logger.server";
+import { applyBundles, getBillOfMaterials } from "./inventory.bundles.server";
+import { evaluateForecastSnapshots, recordForecastSnapshots } from "./inventory.forecast-accuracy.server";
+import { getStockoutCalendar, saveInventorySnapshots } from "./inventory.history.server";
+import { getOnOrderQuantities } from "./inventory.purchase-orders.server";
+import {
+  classifyVariants,
+  toAbcBasis,
+  toAbcClass,
+  toXyzClass,
+} from "./inventory.classification";
 import {
+  addDays,
+  adjustForStockouts,
+  chunk,
+  emptySalesBuckets,
   getSampleVariantMetrics,
+  startOfUtcDay,
+  sumDailySales,
+  sumSalesBuckets,
+  toDayKey,
+  UNATTRIBUTED_LOCATION,
 } from "./inventory.helpers.server";
 import type {
+  SyncProgress,
   VariantInventory,
   VariantMetrics,
   VariantSalesBuckets,
 } from "./inventory.types";
 import type { AdminApiClient } from "./shopify-graphql.server";
-import { paginate } from "./shopify-graphql.server";
+import { runBulkQuery } from "./shopify-bulk.server";
+import { paginate, paginateWithState } from "./shopify-graphql.server";
 
 export type SyncScope =
   | "inventory"
@@ -22,17 +48,29 @@ export type SyncScope =
   | "export-overstock"
   | "budget-plan";
 
+type InventoryLevelNode = {
+  location: { id: string; name: string } | null;
+  quantities: { name: string; quantity: number }[];
+};
+
 type ProductVariantNode = {
   id: string;
   sku: string | null;
   title: string;
+  price: string | null;
   inventoryQuantity: number | null;
-  product: { title: string | null } | null;
-  inventoryItem: { unitCost: { amount: string | null } | null } | null;
+  product: { title: string | null; productType: string | null } | null;
+  inventoryItem: {
+    id: string;
+    unitCost: { amount: string | null } | null;
+    inventoryLevels: { nodes: InventoryLevelNode[] } | null;
+  } | null;
 };
 
 type OrderLineNode = {
   quantity: number;
+  /** Quantity after refunds and order edits removed units. */
+  currentQuantity: number | null;
   variant: {
     id: string;
     sku: string | null;
@@ -44,52 +82,153 @@ type OrderLineNode = {
 type OrderNode = {
   id: string;
   createdAt: string;
-  lineItems: {
+  updatedAt: string | null;
+  cancelledAt: string | null;
+  displayFinancialStatus: string | null;
+  retailLocation: { id: string } | null;
+  fulfillments: { location: { id: string } | null }[] | null;
+  /** Absent on bulk results, where line items are separate records. */
+  lineItems?: {
     edges: { node: OrderLineNode }[];
   };
 };
 
 type LocationNode = { id: string; name: string };
 
+/** An order read back from Shopify with the ledger lines it should have now. */
+type OrderSales = { orderId: string; updatedAt?: Date; lines: OrderSalesLine[] };
+
+type OrderSalesLine = {
+  orderId: string;
+  variantId: string;
+  locationId: string;
+  date: Date;
+  quantity: number;
+};
+
+type LocationSales = Map<string, Record<string, VariantSalesBuckets>>;
+
+type LocationDailySales = Map<string, Record<string, number[]>>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ORDER_PAGE_SIZE = 80;
+const ORDER_PAGE_LIMIT = 5;
+
+export type SyncOptions = {
+  /**
+   * Sync from Shopify and throw on failure. Only the sync worker sets this; without it the
+   * cached metrics are returned whatever their age (see `enqueueSyncIfStale`).
+   */
+  force?: boolean;
+  onProgress?: (progress: SyncProgress) => Promise<void> | void;
+  /** Called while waiting on a bulk operation, which can take many minutes. */
+  heartbeat?: () => Promise<void> | void;
+};
+
+const SYNC_STEPS = ["读取 Shopify 商品与订单", "计算库存指标", "保存库存数据", "记录预测快照"];
+
+/**
+ * Variant metrics for calculations, with units still open on the app's own purchase orders
+ * attached as `onOrder`.
+ */
 export async function getVariantMetrics(
   admin: AdminApiClient,
   shopDomain: string,
+  options: SyncOptions = {},
+): Promise<VariantMetrics[]> {
+  const [variants, onOrder] = await Promise.all([
+    loadVariantMetrics(admin, shopDomain, options),
+    getOnOrderQuantities(shopDomain),
+  ]);
+  return variants.map((variant) => ({
+    ...variant,
+    // Lines created without a variant id are keyed by SKU; a variant can have both kinds.
+    onOrder: (onOrder.get(variant.id) ?? 0) + (onOrder.get(variant.sku) ?? 0),
+  }));
+}
+
+async function loadVariantMetrics(
+  admin: AdminApiClient,
+  shopDomain: string,
+  options: SyncOptions,
 ): Promise<VariantMetrics[]> {
-  const freshCached = await getCachedVariantMetrics(shopDomain, CACHE_MAX_MINUTES);
-  if (freshCached.length > 0) {
-    return freshCached;
+  if (!options.force) {
+    const cached = await getCachedVariantMetrics(shopDomain);
+    if (cached.length > 0 || process.env.NODE_ENV === "production") {
+      return cached;
+    }
+    await logEvent(shopDomain, "sync", "failure", "Fallback to sample metrics（dev only）");
+    return getSampleVariantMetrics();
   }
 
+  const step = (done: number) =>
+    options.onProgress?.({ done, total: SYNC_STEPS.length, label: SYNC_STEPS[done] ?? "完成" });
+
   try {
-    const [inventory, sales] = await Promise.all([
-      fetchVariantInventory(admin, shopDomain),
-      fetchOrderSales(admin, shopDomain),
+    await step(0);
+    // Both may run a bulk operation, and Shopify allows only one per shop at a time.
+    await reconcileSalesLedger(admin, shopDomain, { heartbeat: options.heartbeat });
+    const [inventory, excludedLocations] = await Promise.all([
+      fetchVariantInventory(admin, shopDomain, options.heartbeat),
+      readExcludedLocationIds(shopDomain),
+    ]);
+    await step(1);
+    const [sales, daily, stockouts, bom] = await Promise.all([
+      readSalesBuckets(shopDomain),
+      readDailySales(shopDomain),
+      getStockoutCalendar(shopDomain, DEFAULT_HISTORY_DAYS),
+      getBillOfMaterials(shopDomain),
     ]);
 
     const inventoryById = new Map(inventory.map((item) => [item.id, item]));
 
-    const variants: VariantMetrics[] = [];
+    const synced: VariantMetrics[] = [];
 
     const ids = new Set([...inventoryById.keys(), ...sales.keys()]);
     ids.forEach((id) => {
       const inventoryItem = inventoryById.get(id);
-      const salesBuckets = sales.get(id) ?? { "30d": 0, "60d": 0, "90d": 0 };
-      variants.push({
+      const locationSales = sales.get(id) ?? {};
+      const locationDailySales = daily.get(id) ?? {};
+      synced.push({
         id,
         sku: inventoryItem?.sku ?? "Unknown SKU",
         name: inventoryItem?.name ?? "Unknown product",
         variant: inventoryItem?.variant ?? "",
-        available: inventoryItem?.available ?? 0,
+        category: inventoryItem?.category,
+        inventoryItemId: inventoryItem?.inventoryItemId,
+        available: includedQuantity(inventoryItem, excludedLocations, "available"),
+        incoming: includedQuantity(inventoryItem, excludedLocations, "incoming"),
         unitCost: inventoryItem?.unitCost,
-        sales: salesBuckets,
+        price: inventoryItem?.price,
+        levels: inventoryItem?.levels ?? [],
+        sales: sumSalesBuckets(Object.values(locationSales)),
+        locationSales,
+        dailySales: sumDailySales(Object.values(locationDailySales)),
+        locationDailySales,
+        outOfStock: stockouts.get(id),
       });
     });
+    const variants = applyBundles(synced, bom);
 
     if (variants.length > 0) {
+      await assignClasses(shopDomain, variants);
+      await step(2);
       await saveVariantMetrics(shopDomain, variants);
+      await saveInventoryLevels(shopDomain, inventory);
+      await saveInventorySnapshots(
+        shopDomain,
+        inventory.map((item) => ({
+          variantId: item.id,
+          available: includedQuantity(item, excludedLocations, "available"),
+        })),
+      );
+      await step(3);
+      await evaluateForecastSnapshots(shopDomain);
+      await recordForecastSnapshots(shopDomain, variants);
+      await step(SYNC_STEPS.length);
       await logEvent(shopDomain, "sync", "success", `Variants synced: ${variants.length}`);
-      return variants;
     }
+    return variants;
   } catch (error) {
     await logEvent(
       shopDomain,
@@ -97,94 +236,317 @@ export async function getVariantMetrics(
       "failure",
       `Failed to load Shopify data: ${error instanceof Error ? error.message : "unknown error"}`,
     );
+    throw error;
   }
+}
 
-  const anyCached = await getCachedVariantMetrics(shopDomain);
-  if (anyCached.length > 0) {
-    return anyCached;
-  }
-
-  if (process.env.NODE_ENV === "production") {
-    await logEvent(
-      shopDomain,
-      "sync",
-      "failure",
-      "No Shopify data available and cache is empty",
-    );
-    throw new Error("无法从 Shopify 获取库存数据，且没有可用缓存，请稍后重试同步。");
-  }
+/** True when no metric of the shop was calculated within `CACHE_MAX_MINUTES`. */
+export async function isVariantCacheStale(shopDomain: string) {
+  const since = new Date(Date.now() - CACHE_MAX_MINUTES * 60 * 1000);
+  const fresh = await prisma.inventoryMetric.findFirst({
+    where: { shopDomain, lastCalculated: { gte: since } },
+    select: { id: true },
+  });
+  return !fresh;
+}
 
-  await logEvent(shopDomain, "sync", "failure", "Fallback to sample metrics（dev only）");
-  return getSampleVariantMetrics();
+function includedQuantity(
+  item: VariantInventory | undefined,
+  excluded: Set<string>,
+  key: "available" | "incoming",
+) {
+  if (!item) return 0;
+  if (!item.levels || item.levels.length === 0) return item[key] ?? 0;
+  return item.levels
+    .filter((level) => !excluded.has(level.locationId))
+    .reduce((total, level) => total + (level[key] ?? 0), 0);
 }
 
+const VARIANT_FIELDS = `
+  id
+  sku
+  title
+  price
+  inventoryQuantity
+  product { title productType }
+`;
+
+const LEVEL_FIELDS = `
+  location { id name }
+  quantities(names: ["available", "incoming"]) { name quantity }
+`;
+
+/**
+ * Reads the catalog page by page. Once a shop outgrows the page guard it is flagged on
+ * `SyncState.bulkCatalog` and read with a bulk operation from then on.
+ */
 async function fetchVariantInventory(
   admin: AdminApiClient,
   shopDomain: string,
+  heartbeat?: SyncOptions["heartbeat"],
 ): Promise<VariantInventory[]> {
+  const state = await prisma.syncState.findUnique({
+    where: { shopDomain },
+    select: { bulkCatalog: true },
+  });
+  if (state?.bulkCatalog) {
+    return fetchVariantInventoryBulk(admin, shopDomain, heartbeat);
+  }
+
   const query = `#graphql
     query InventorySnapshot($cursor: String) {
       productVariants(first: 50, after: $cursor) {
         pageInfo { hasNextPage endCursor }
         nodes {
-          id
-          sku
-          title
-          inventoryQuantity
-          product { title }
+          ${VARIANT_FIELDS}
           inventoryItem {
+            id
             unitCost { amount }
+            inventoryLevels(first: 20) {
+              nodes { ${LEVEL_FIELDS} }
+            }
           }
         }
       }
     }
   `;
 
-  const nodes = await paginate<ProductVariantNode>(
+  const { records: nodes, complete } = await paginateWithState<ProductVariantNode>(
     admin,
     shopDomain,
     query,
     ["productVariants"],
   );
+  if (complete) {
+    return nodes.map(toVariantInventory);
+  }
 
-  return nodes.map((node) => ({
+  await prisma.syncState.upsert({
+    where: { shopDomain },
+    create: { shopDomain, bulkCatalog: true },
+    update: { bulkCatalog: true },
+  });
+  await logEvent(
+    shopDomain,
+    "sync",
+    "success",
+    "Catalog exceeds the page guard, switching to bulk sync",
+  );
+  return fetchVariantInventoryBulk(admin, shopDomain, heartbeat);
+}
+
+async function fetchVariantInventoryBulk(
+  admin: AdminApiClient,
+  shopDomain: string,
+  heartbeat?: SyncOptions["heartbeat"],
+): Promise<VariantInventory[]> {
+  const query = `{
+    productVariants {
+      edges {
+        node {
+          ${VARIANT_FIELDS}
+          inventoryItem {
+            id
+            unitCost { amount }
+            inventoryLevels {
+              edges { node { ${LEVEL_FIELDS} } }
+            }
+          }
+        }
+      }
+    }
+  }`;
+
+  // Levels arrive as their own lines after their variant, pointing back at it through
+  // `__parentId` (the variant, or its inventory item on some API versions).
+  const nodes = new Map<string, ProductVariantNode>();
+  const byInventoryItem = new Map<string, ProductVariantNode>();
+  await runBulkQuery(
+    admin,
+    shopDomain,
+    query,
+    (record) => {
+      if (!record.__parentId) {
+        const node = record as unknown as ProductVariantNode;
+        if (node.inventoryItem) {
+          node.inventoryItem.inventoryLevels = { nodes: [] };
+          byInventoryItem.set(node.inventoryItem.id, node);
+        }
+        nodes.set(node.id, node);
+        return;
+      }
+      const parent = nodes.get(record.__parentId) ?? byInventoryItem.get(record.__parentId);
+      parent?.inventoryItem?.inventoryLevels?.nodes.push(record as unknown as InventoryLevelNode);
+    },
+    "productVariants",
+    heartbeat,
+  );
+
+  return Array.from(nodes.values(), toVariantInventory);
+}
+
+function toVariantInventory(node: ProductVariantNode): VariantInventory {
+  const levels = (node.inventoryItem?.inventoryLevels?.nodes ?? [])
+    .filter((level) => level.location)
+    .map((level) => {
+      const quantityOf = (name: string) =>
+        Number(level.quantities.find((quantity) => quantity.name === name)?.quantity ?? 0);
+      return {
+        locationId: level.location!.id,
+        locationName: level.location!.name,
+        available: quantityOf("available"),
+        incoming: quantityOf("incoming"),
+      };
+    });
+
+  return {
     id: node.id,
     sku: node.sku ?? "Unknown SKU",
     name: node.product?.title ?? "Unknown product",
     variant: node.title ?? "",
-    available: Number(node.inventoryQuantity ?? 0),
+    category: node.product?.productType || undefined,
+    inventoryItemId: node.inventoryItem?.id,
+    available:
+      levels.length > 0
+        ? levels.reduce((total, level) => total + level.available, 0)
+        : Number(node.inventoryQuantity ?? 0),
+    incoming: levels.reduce((total, level) => total + level.incoming, 0),
     unitCost: Number(node.inventoryItem?.unitCost?.amount ?? 0) || undefined,
-  }));
+    price: Number(node.price ?? 0) || undefined,
+    levels,
+  };
 }
 
-async function fetchOrderSales(
+/**
+ * Reconciles the sales ledger against Shopify and re-totals `VariantDailySales` over the days it
+ * touched. The order webhooks keep the ledger current in between, so this only runs when the
+ * last pass is older than `SALES_RECONCILE_HOURS`, unless forced.
+ *
+ * The first run, or one whose cursor fell out of the history window, backfills the window with a
+ * bulk operation and replaces it in one transaction once it has been read in full. Later runs
+ * read the orders updated since the cursor, an exact timestamp, so late payments, refunds,
+ * cancellations and fulfillment locations are picked up, and replace those orders' lines. When
+ * the page guard trips the cursor moves to the last order read and the next run continues from
+ * there; an instant with more updates than the guard holds is read with a bulk operation.
+ */
+export async function reconcileSalesLedger(
   admin: AdminApiClient,
   shopDomain: string,
-): Promise<Map<string, VariantSalesBuckets>> {
-  const since = new Date();
-  since.setDate(since.getDate() - 90);
-  const queryString = `created_at:>=${since.toISOString().slice(0, 10)} AND financial_status:paid`;
+  options: Pick<SyncOptions, "force" | "heartbeat"> = {},
+) {
+  const now = new Date();
+  const backfillStart = addDays(startOfUtcDay(now), -DEFAULT_HISTORY_DAYS);
+  const state = await prisma.syncState.findUnique({ where: { shopDomain } });
+  const reconcileAfter = new Date(now.getTime() - SALES_RECONCILE_HOURS * 60 * 60 * 1000);
+  if (!options.force && state?.salesReconciledAt && state.salesReconciledAt > reconcileAfter) {
+    return;
+  }
+  const cursor = state?.salesCursor && state.salesCursor >= backfillStart ? state.salesCursor : undefined;
+
+  let orders: OrderSales[];
+  let since: Date | undefined;
+  let nextCursor = now;
+  let complete = true;
+  let bulk = false;
+  if (!cursor) {
+    orders = await fetchOrderSalesBulk(
+      admin,
+      shopDomain,
+      paidOrdersSince(backfillStart),
+      options.heartbeat,
+    );
+    bulk = true;
+    const lines = orders.flatMap((order) => order.lines).filter((line) => line.date >= backfillStart);
+    // The window is replaced only once it has been read in full, so a failed or timed-out fetch
+    // leaves the ledger as it was.
+    await prisma.$transaction([
+      prisma.orderSalesLine.deleteMany({ where: { shopDomain, date: { gte: backfillStart } } }),
+      ...chunk(lines, SYNC_WRITE_BATCH_SIZE).map((batch) =>
+        prisma.orderSalesLine.createMany({ data: batch.map((line) => ({ shopDomain, ...line })) }),
+      ),
+    ]);
+    since = backfillStart;
+  } else {
+    const query = `updated_at:>='${cursor.toISOString()}'`;
+    const paged = await fetchOrderSales(admin, shopDomain, query);
+    orders = paged.orders;
+    if (!paged.complete) {
+      const lastUpdated = orders.at(-1)?.updatedAt;
+      if (lastUpdated && lastUpdated > cursor) {
+        nextCursor = lastUpdated;
+        complete = false;
+      } else {
+        orders = await fetchOrderSalesBulk(admin, shopDomain, query, options.heartbeat);
+        bulk = true;
+      }
+    }
+    since = await replaceOrderSales(shopDomain, orders, backfillStart);
+  }
+  const variantDays = since ? await retotalDailySales(shopDomain, since) : 0;
+
+  // A run cut short by the page guard leaves the last reconcile time alone, so the next sync
+  // carries on from the new cursor.
+  const reconciled = complete ? { salesReconciledAt: now } : {};
+  await prisma.$transaction([
+    // Order lines before the history window are no longer needed by any webhook.
+    prisma.orderSalesLine.deleteMany({ where: { shopDomain, date: { lt: backfillStart } } }),
+    prisma.syncState.upsert({
+      where: { shopDomain },
+      create: { shopDomain, salesCursor: nextCursor, ...reconciled },
+      update: { salesCursor: nextCursor, ...reconciled },
+    }),
+  ]);
 
+  await logEvent(
+    shopDomain,
+    "sync",
+    "success",
+    `Sales ledger reconciled ${cursor ? `from ${cursor.toISOString()}` : `from ${toDayKey(backfillStart)}`}${bulk ? " (bulk)" : ""}${complete ? "" : `, continuing from ${nextCursor.toISOString()}`}: ${orders.length} orders, ${variantDays} variant-days`,
+  );
+}
+
+const ORDER_FIELDS = `
+  id
+  createdAt
+  updatedAt
+  cancelledAt
+  displayFinancialStatus
+  retailLocation { id }
+  fulfillments(first: 1) { location { id } }
+`;
+
+const ORDER_LINE_FIELDS = `
+  quantity
+  currentQuantity
+  variant {
+    id
+    sku
+    title
+    product { title }
+  }
+`;
+
+/** Financial states whose units count as sold. */
+const SOLD_STATUSES = ["PAID", "PARTIALLY_REFUNDED"];
+
+function paidOrdersSince(since: Date) {
+  return `created_at:>=${toDayKey(since)} AND (financial_status:paid OR financial_status:partially_refunded)`;
+}
+
+async function fetchOrderSales(
+  admin: AdminApiClient,
+  shopDomain: string,
+  search: string,
+): Promise<{ orders: OrderSales[]; complete: boolean }> {
   const query = `#graphql
     query OrdersForInventory($query: String!, $first: Int!, $cursor: String) {
-      orders(first: $first, after: $cursor, query: $query, sortKey: CREATED_AT, reverse: true) {
+      orders(first: $first, after: $cursor, query: $query, sortKey: UPDATED_AT) {
         pageInfo { hasNextPage endCursor }
         edges {
           node {
-            id
-            createdAt
+            ${ORDER_FIELDS}
             lineItems(first: 50) {
-              edges {
-                node {
-                  quantity
-                  variant {
-                    id
-                    sku
-                    title
-                    product { title }
-                  }
-                }
-              }
+              edges { node { ${ORDER_LINE_FIELDS} } }
             }
           }
         }
@@ -192,47 +554,212 @@ async function fetchOrderSales(
     }
   `;
 
-  const orders = await paginate<OrderNode>(
+  const { records: orders, complete } = await paginateWithState<OrderNode>(
     admin,
     shopDomain,
     query,
     ["orders"],
-    { query: queryString, first: 80 },
-    5,
+    { query: search, first: ORDER_PAGE_SIZE },
+    ORDER_PAGE_LIMIT,
   );
 
-  const sales = new Map<string, VariantSalesBuckets>();
-  const now = Date.now();
-
-  orders.forEach((order) => {
-    if (!order.createdAt) return;
-    const createdAt = new Date(order.createdAt).getTime();
-    const diffDays = Math.floor((now - createdAt) / (1000 * 60 * 60 * 24));
-
-    order.lineItems?.edges?.forEach((lineEdge) => {
-      const line = lineEdge?.node;
-      const variantId = line?.variant?.id;
-      if (!variantId) return;
-      const quantity = Number(line.quantity ?? 0);
-      const buckets = sales.get(variantId) ?? { "30d": 0, "60d": 0, "90d": 0 };
+  return {
+    orders: orders.map((order) => toOrderSales(order, order.lineItems?.edges?.map((edge) => edge.node) ?? [])),
+    complete,
+  };
+}
 
-      if (diffDays <= 30) {
-        buckets["30d"] += quantity;
-      }
-      if (diffDays <= 60) {
-        buckets["60d"] += quantity;
+/** Reads the orders matching `search` through a bulk operation. */
+async function fetchOrderSalesBulk(
+  admin: AdminApiClient,
+  shopDomain: string,
+  search: string,
+  heartbeat?: SyncOptions["heartbeat"],
+): Promise<OrderSales[]> {
+  const query = `{
+    orders(query: ${JSON.stringify(search)}, sortKey: UPDATED_AT) {
+      edges {
+        node {
+          ${ORDER_FIELDS}
+          lineItems {
+            edges { node { ${ORDER_LINE_FIELDS} } }
+          }
+        }
       }
-      if (diffDays <= 90) {
-        buckets["90d"] += quantity;
+    }
+  }`;
+
+  // Line items are written right after their order, so an order is complete once the next
+  // order line appears.
+  let current: { order: OrderNode; lineItems: OrderLineNode[] } | undefined;
+  const orders: OrderSales[] = [];
+  const closeOrder = () => {
+    if (current) orders.push(toOrderSales(current.order, current.lineItems));
+    current = undefined;
+  };
+
+  await runBulkQuery(
+    admin,
+    shopDomain,
+    query,
+    async (record) => {
+      if (record.__parentId) {
+        if (record.__parentId === current?.order.id) {
+          current.lineItems.push(record as unknown as OrderLineNode);
+        }
+        return;
       }
+      closeOrder();
+      current = { order: record as unknown as OrderNode, lineItems: [] };
+    },
+    "orders",
+    heartbeat,
+  );
+  closeOrder();
+
+  return orders;
+}
+
+/** The order's ledger lines; none once it is cancelled, unpaid or fully refunded. */
+function toOrderSales(order: OrderNode, lineItems: OrderLineNode[]): OrderSales {
+  const sales: OrderSales = {
+    orderId: order.id,
+    updatedAt: order.updatedAt ? new Date(order.updatedAt) : undefined,
+    lines: [],
+  };
+  if (!order.createdAt || order.cancelledAt || !SOLD_STATUSES.includes(order.displayFinancialStatus ?? "")) {
+    return sales;
+  }
+  const date = startOfUtcDay(new Date(order.createdAt));
+  // Orders are attributed to the location that fulfilled them (or the POS location);
+  // unfulfilled online orders stay unattributed until a later sync sees the fulfillment.
+  const locationId =
+    order.fulfillments?.[0]?.location?.id ?? order.retailLocation?.id ?? UNATTRIBUTED_LOCATION;
+
+  const lines = new Map<string, OrderSalesLine>();
+  lineItems.forEach((line) => {
+    const variantId = line?.variant?.id;
+    if (!variantId) return;
+    const quantity = Number(line.currentQuantity ?? line.quantity ?? 0);
+    if (quantity <= 0) return;
+    const entry = lines.get(variantId) ?? { orderId: order.id, variantId, locationId, date, quantity: 0 };
+    entry.quantity += quantity;
+    lines.set(variantId, entry);
+  });
+  sales.lines = Array.from(lines.values());
+  return sales;
+}
+
+/**
+ * Replaces the ledger lines of `orders`, in batches, so an order a webhook already wrote is
+ * overwritten rather than duplicated and one that lost its units drops out. Returns the earliest
+ * day whose totals changed.
+ */
+async function replaceOrderSales(
+  shopDomain: string,
+  orders: OrderSales[],
+  backfillStart: Date,
+): Promise<Date | undefined> {
+  let earliest: Date | undefined;
+  const touch = (date: Date) => {
+    if (!earliest || date < earliest) earliest = date;
+  };
+  for (const batch of chunk(orders, SYNC_WRITE_BATCH_SIZE)) {
+    const orderIds = batch.map((order) => order.orderId);
+    const lines = batch.flatMap((order) => order.lines).filter((line) => line.date >= backfillStart);
+    const previous = await prisma.orderSalesLine.aggregate({
+      where: { shopDomain, orderId: { in: orderIds } },
+      _min: { date: true },
+    });
+    if (previous._min.date) touch(previous._min.date);
+    lines.forEach((line) => touch(line.date));
+    await prisma.$transaction([
+      prisma.orderSalesLine.deleteMany({ where: { shopDomain, orderId: { in: orderIds } } }),
+      prisma.orderSalesLine.createMany({ data: lines.map((line) => ({ shopDomain, ...line })) }),
+    ]);
+  }
+  return earliest;
+}
+
+/** Rebuilds `VariantDailySales` from the order lines from `since` on. Returns the variant-days written. */
+async function retotalDailySales(shopDomain: string, since: Date): Promise<number> {
+  const totals = await prisma.orderSalesLine.groupBy({
+    by: ["variantId", "locationId", "date"],
+    where: { shopDomain, date: { gte: since } },
+    _sum: { quantity: true },
+  });
+  const rows = totals
+    .filter((row) => (row._sum.quantity ?? 0) > 0)
+    .map((row) => ({
+      shopDomain,
+      variantId: row.variantId,
+      locationId: row.locationId,
+      date: row.date,
+      quantity: row._sum.quantity ?? 0,
+    }));
+
+  await prisma.$transaction([
+    prisma.variantDailySales.deleteMany({ where: { shopDomain, date: { gte: since } } }),
+    ...chunk(rows, SYNC_WRITE_BATCH_SIZE).map((data) => prisma.variantDailySales.createMany({ data })),
+  ]);
+  return rows.length;
+}
+
+/**
+ * Derives the 30/60/90-day sales buckets from the daily ledger, per variant and location.
+ */
+async function readSalesBuckets(shopDomain: string): Promise<LocationSales> {
+  const today = startOfUtcDay(new Date());
+  const windows = [30, 60, 90] as const;
+  const grouped = await Promise.all(
+    windows.map((days) =>
+      prisma.variantDailySales.groupBy({
+        by: ["variantId", "locationId"],
+        where: { shopDomain, date: { gte: addDays(today, -days) } },
+        _sum: { quantity: true },
+      }),
+    ),
+  );
 
-      sales.set(variantId, buckets);
+  const sales: LocationSales = new Map();
+  grouped.forEach((rows, index) => {
+    const bucket = `${windows[index]}d` as keyof VariantSalesBuckets;
+    rows.forEach((row) => {
+      const byLocation = sales.get(row.variantId) ?? {};
+      const buckets = byLocation[row.locationId] ?? emptySalesBuckets();
+      buckets[bucket] = row._sum.quantity ?? 0;
+      byLocation[row.locationId] = buckets;
+      sales.set(row.variantId, byLocation);
     });
   });
 
   return sales;
 }
 
+/**
+ * Daily units sold per variant and location over the last `DEFAULT_HISTORY_DAYS` complete
+ * days (oldest first, today excluded as it is still partial), for demand forecasting.
+ */
+async function readDailySales(shopDomain: string): Promise<LocationDailySales> {
+  const today = startOfUtcDay(new Date());
+  const start = addDays(today, -DEFAULT_HISTORY_DAYS);
+  const rows = await prisma.variantDailySales.findMany({
+    where: { shopDomain, date: { gte: start, lt: today } },
+    select: { variantId: true, locationId: true, date: true, quantity: true },
+  });
+
+  const daily: LocationDailySales = new Map();
+  rows.forEach((row) => {
+    const byLocation = daily.get(row.variantId) ?? {};
+    const series = byLocation[row.locationId] ?? Array<number>(DEFAULT_HISTORY_DAYS).fill(0);
+    const index = Math.round((startOfUtcDay(row.date).getTime() - start.getTime()) / DAY_MS);
+    if (index >= 0 && index < DEFAULT_HISTORY_DAYS) series[index] += row.quantity;
+    byLocation[row.locationId] = series;
+    daily.set(row.variantId, byLocation);
+  });
+  return daily;
+}
+
 export async function fetchLocations(
   admin: AdminApiClient,
   shopDomain: string,
@@ -264,51 +791,133 @@ export async function getCachedVariantMetrics(
     where,
     orderBy: { lastCalculated: "desc" },
   });
+  if (rows.length === 0) return [];
+
+  const [sales, daily, stockouts, levels, bom] = await Promise.all([
+    readSalesBuckets(shopDomain),
+    readDailySales(shopDomain),
+    getStockoutCalendar(shopDomain, DEFAULT_HISTORY_DAYS),
+    prisma.inventoryLevel.findMany({ where: { shopDomain } }),
+    getBillOfMaterials(shopDomain),
+  ]);
+  const levelsByVariant = new Map<string, VariantInventory["levels"]>();
+  levels.forEach((level) => {
+    const list = levelsByVariant.get(level.variantId) ?? [];
+    list.push({
+      locationId: level.locationId,
+      locationName: level.locationName,
+      available: level.available,
+      incoming: level.incoming,
+    });
+    levelsByVariant.set(level.variantId, list);
+  });
 
-  return rows.map((row) => ({
-    id: row.variantId,
-    sku: row.sku,
-    name: row.name,
-    variant: row.variantTitle,
-    available: row.available,
-    unitCost: row.unitCost ?? undefined,
-    sales: { "30d": row.sales30d, "60d": row.sales60d, "90d": row.sales90d },
-  }));
+  const variants = rows.map((row) => {
+    const locationSales = sales.get(row.variantId) ?? {};
+    const locationDailySales = daily.get(row.variantId) ?? {};
+    return {
+      id: row.variantId,
+      sku: row.sku,
+      name: row.name,
+      variant: row.variantTitle,
+      category: row.category ?? undefined,
+      inventoryItemId: row.inventoryItemId ?? undefined,
+      abcClass: toAbcClass(row.abcClass),
+      xyzClass: toXyzClass(row.xyzClass),
+      available: row.available,
+      incoming: row.incoming,
+      unitCost: row.unitCost ?? undefined,
+      price: row.price ?? undefined,
+      levels: levelsByVariant.get(row.variantId) ?? [],
+      sales: sumSalesBuckets(Object.values(locationSales)),
+      locationSales,
+      dailySales: sumDailySales(Object.values(locationDailySales)),
+      locationDailySales,
+      outOfStock: stockouts.get(row.variantId),
+    };
+  });
+  return applyBundles(variants, bom);
+}
+
+/**
+ * Sets ABC / XYZ classes on freshly synced variants, across the whole shop. XYZ is graded on the
+ * stockout-adjusted daily series so sold-out weeks don't read as erratic demand.
+ */
+async function assignClasses(shopDomain: string, variants: VariantMetrics[]) {
+  const setting = await prisma.shopSetting.findUnique({
+    where: { shopDomain },
+    select: { abcBasis: true },
+  });
+  const classes = classifyVariants(
+    variants.map((variant) => ({
+      ...variant,
+      dailySales: adjustForStockouts(variant.dailySales ?? [], variant.outOfStock).series,
+    })),
+    toAbcBasis(setting?.abcBasis),
+  );
+  variants.forEach((variant) => {
+    Object.assign(variant, classes.get(variant.id));
+  });
 }
 
 async function saveVariantMetrics(shopDomain: string, variants: VariantMetrics[]) {
   const now = new Date();
-  await prisma.$transaction(
-    variants.map((variant) =>
-      prisma.inventoryMetric.upsert({
-        where: { shopDomain_variantId: { shopDomain, variantId: variant.id } },
-        update: {
-          sku: variant.sku,
-          name: variant.name,
-          variantTitle: variant.variant,
-          available: variant.available,
-          unitCost: variant.unitCost ?? null,
-          sales30d: variant.sales["30d"],
-          sales60d: variant.sales["60d"],
-          sales90d: variant.sales["90d"],
-          lastCalculated: now,
-        },
-        create: {
-          shopDomain,
-          variantId: variant.id,
-          sku: variant.sku,
-          name: variant.name,
-          variantTitle: variant.variant,
-          available: variant.available,
-          unitCost: variant.unitCost ?? null,
-          sales30d: variant.sales["30d"],
-          sales60d: variant.sales["60d"],
-          sales90d: variant.sales["90d"],
-          lastCalculated: now,
-        },
-      }),
-    ),
+  for (const batch of chunk(variants, SYNC_WRITE_BATCH_SIZE)) {
+    await prisma.$transaction(
+      batch.map((variant) =>
+        prisma.inventoryMetric.upsert({
+          where: { shopDomain_variantId: { shopDomain, variantId: variant.id } },
+          update: {
+            sku: variant.sku,
+            name: variant.name,
+            variantTitle: variant.variant,
+            category: variant.category ?? null,
+            inventoryItemId: variant.inventoryItemId ?? null,
+            available: variant.available,
+            incoming: variant.incoming ?? 0,
+            unitCost: variant.unitCost ?? null,
+            price: variant.price ?? null,
+            abcClass: variant.abcClass ?? null,
+            xyzClass: variant.xyzClass ?? null,
+            lastCalculated: now,
+          },
+          create: {
+            shopDomain,
+            variantId: variant.id,
+            sku: variant.sku,
+            name: variant.name,
+            variantTitle: variant.variant,
+            category: variant.category ?? null,
+            inventoryItemId: variant.inventoryItemId ?? null,
+            available: variant.available,
+            incoming: variant.incoming ?? 0,
+            unitCost: variant.unitCost ?? null,
+            price: variant.price ?? null,
+            abcClass: variant.abcClass ?? null,
+            xyzClass: variant.xyzClass ?? null,
+            lastCalculated: now,
+          },
+        }),
+      ),
+    );
+  }
+}
+
+async function saveInventoryLevels(shopDomain: string, inventory: VariantInventory[]) {
+  const rows = inventory.flatMap((item) =>
+    (item.levels ?? []).map((level) => ({
+      shopDomain,
+      variantId: item.id,
+      locationId: level.locationId,
+      locationName: level.locationName,
+      available: level.available,
+      incoming: level.incoming ?? 0,
+    })),
   );
+  await prisma.$transaction([
+    prisma.inventoryLevel.deleteMany({ where: { shopDomain } }),
+    ...chunk(rows, SYNC_WRITE_BATCH_SIZE).map((data) => prisma.inventoryLevel.createMany({ data })),
+  ]);
 }
 
 export async function getInventoryLastUpdated(shopDomain: string): Promise<string> {
@@ -329,13 +938,28 @@ export async function getInventoryLastUpdated(shopDomain: string): Promise<strin
   return "暂无库存数据 · 请先同步";
 }
 
+/**
+ * Locations unchecked in settings. Locations without a saved choice (e.g. opened after the
+ * last save) are included by default.
+ */
+export async function readExcludedLocationIds(shopDomain: string): Promise<Set<string>> {
+  const rows = await prisma.shopLocation.findMany({
+    where: { shopDomain, selected: false },
+    select: { locationId: true },
+  });
+  return new Set(rows.map((row) => row.locationId));
+}
+
 export async function buildDashboardLocations(admin: AdminApiClient, shopDomain: string) {
   try {
-    const locations = await fetchLocations(admin, shopDomain);
+    const [locations, excluded] = await Promise.all([
+      fetchLocations(admin, shopDomain),
+      readExcludedLocationIds(shopDomain),
+    ]);
     if (locations.length > 0) {
-      return locations.map((location, index) => ({
+      return locations.map((location) => ({
         ...location,
-        selected: index < 2,
+        selected: !excluded.has(location.id),
       }));
     }
   } catch (error) {
@@ -356,7 +980,7 @@ export async function buildDashboardLocations(admin: AdminApiClient, shopDomain:
 
 export async function logSyncEvent(
   shopDomain: string,
-  scope: "inventory" | "orders" | "digest" | "sync-replenishment" | "sync-overstock" | "export-replenishment" | "export-overstock" | "budget-plan",
+  scope: "inventory" | "orders" | "digest" | "sync-replenishment" | "sync-overstock" | "export-replenishment" | "export-overstock" | "budget-plan" | "suppliers" | "bundles" | "demand-events" | "purchase-order",
   status: "success" | "failure",
   message?: string,
 ) {
@@ -370,53 +994,25 @@ export async function logSyncEvent(
   );
 }
 
-export async function requestSync(shopDomain: string, scope: SyncScope = "inventory") {
-  const job = await prisma.syncLog.create({
-    data: { shopDomain, scope, status: "pending", message: "queued" },
-  });
-  return job.id;
-}
-
-export async function performSync(
-  admin: AdminApiClient,
-  shopDomain: string,
-  jobId: string,
-) {
-  try {
-    await getVariantMetrics(admin, shopDomain);
-    await prisma.syncLog.update({
-      where: { id: jobId },
-      data: { status: "success", message: "sync completed" },
-    });
-  } catch (error) {
-    await prisma.syncLog.update({
-      where: { id: jobId },
-      data: {
-        status: "failure",
-        message: error instanceof Error ? error.message : "sync failed",
-      },
-    });
-    throw error;
-  }
-}
-
 export async function getSyncStatus(shopDomain: string): Promise<{
   lastSuccess?: string;
   lastFailure?: string;
 }> {
+  // Digest jobs run on the same queue but do not sync data.
+  const scope = { in: ["inventory", "orders"] };
   const [lastSuccess, lastFailure] = await Promise.all([
-    prisma.syncLog.findFirst({
-      where: { shopDomain, status: "success" },
-      orderBy: { createdAt: "desc" },
+    prisma.syncJob.findFirst({
+      where: { shopDomain, scope, status: "succeeded" },
+      orderBy: { finishedAt: "desc" },
     }),
-    prisma.syncLog.findFirst({
-      where: { shopDomain, status: "failure" },
-      orderBy: { createdAt: "desc" },
+    prisma.syncJob.findFirst({
+      where: { shopDomain, scope, status: "failed" },
+      orderBy: { finishedAt: "desc" },
     }),
   ]);
 
   return {
-    lastSuccess: lastSuccess?.createdAt?.toLocaleString(),
-    lastFailure: lastFailure?.createdAt?.toLocaleString(),
+    lastSuccess: lastSuccess?.finishedAt?.toLocaleString(),
+    lastFailure: lastFailure?.finishedAt?.toLocaleString(),
   };
 }
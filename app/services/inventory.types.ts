@@ -16,14 +16,39 @@ export type BudgetCandidate = {
   daysOfStock: number;
   recommendedQty: number;
   unitCost?: number;
+  /** Selling price; the value of a prevented lost sale. */
+  price?: number;
   sales?: number;
   salesValue?: number;
   stockValue?: number;
+  supplierId?: string;
+  moq?: number;
+  casePack?: number;
 };
 
 export type DashboardRow = BudgetCandidate & {
+  variantId?: string;
+  /** Model behind `avgDailySales`; undefined when the flat window average was used. */
+  forecastModel?: ForecastModel;
+  incoming?: number;
+  onOrder?: number;
   coverageDays?: number;
+  targetCoverage?: number;
   insufficientSales?: boolean;
+  /** Sold-out days in the sales window; their sales are imputed in `avgDailySales`. */
+  stockoutDays?: number;
+  /** Estimated units not sold on sold-out days in the sales window. */
+  lostSales?: number;
+  /** Standard deviation of daily demand in the sales window (sold-out days imputed). */
+  demandStdDev?: number;
+  /** Safety stock in units, set when rows are built with a safety stock policy. */
+  safetyQty?: number;
+  /** Demand over the lead time plus safety stock: reorder once stock falls to this level. */
+  reorderPoint?: number;
+  abcClass?: AbcClass;
+  xyzClass?: XyzClass;
+  /** Average demand-event multiplier over the coverage horizon, already in `avgDailySales`. */
+  eventMultiplier?: number;
 };
 
 export type DashboardTimeframe = {
@@ -33,12 +58,109 @@ export type DashboardTimeframe = {
   rows: DashboardRow[];
 };
 
+export type BudgetPeriod = "none" | "month" | "quarter";
+
+/** "days" keeps the flat safety day count; "statistical" derives it from demand variability. */
+export type SafetyStockMethod = "days" | "statistical";
+
+/** Pareto class by 90-day contribution (revenue or gross margin, see `AbcBasis`). */
+export type AbcClass = "A" | "B" | "C";
+
+/** Demand variability class: X steady, Y fluctuating, Z erratic or intermittent. */
+export type XyzClass = "X" | "Y" | "Z";
+
+export type AbcBasis = "revenue" | "margin";
+
+/** Planning overrides for one ABC class; unset values use the shop setting. */
+export type ClassPolicy = {
+  serviceLevel?: number;
+  shortageThreshold?: number;
+  overstockThreshold?: number;
+};
+
+export type ClassPolicies = Partial<Record<AbcClass, ClassPolicy>>;
+
+export type ForecastModel = "moving-average" | "holt" | "holt-winters" | "croston";
+
+/** "auto" picks the model with the lowest backtest error per SKU. */
+export type ForecastModelSetting = "auto" | ForecastModel;
+
+/** Accuracy of evaluated forecast snapshots in one group (model, category, supplier or SKU). */
+export type ForecastAccuracyGroup = {
+  key: string;
+  label: string;
+  count: number;
+  forecastQty: number;
+  actualQty: number;
+  /** Mean absolute percentage error over snapshots with sales; undefined when none sold. */
+  mape?: number;
+  /** (forecast − actual) / actual over the group; positive means over-forecast. */
+  bias?: number;
+};
+
+export type ForecastAccuracyPayload = {
+  windowDays: number;
+  horizonDays: number;
+  summary: ForecastAccuracyGroup;
+  pendingCount: number;
+  lastEvaluated?: string;
+  byModel: ForecastAccuracyGroup[];
+  byCategory: ForecastAccuracyGroup[];
+  bySupplier: ForecastAccuracyGroup[];
+  bySku: ForecastAccuracyGroup[];
+};
+
+export type DemandForecast = {
+  model: ForecastModel;
+  /** Forecast units per day, averaged over the horizon. */
+  dailyRate: number;
+  /** Mean absolute error (units / day) on the backtest holdout. */
+  error: number;
+};
+
+export type SupplierBudget = {
+  supplierId: string;
+  supplierName: string;
+  budget: number;
+  spentAmount: number;
+};
+
+/** Persisted budget for the current period and what sent purchase orders already committed. */
+export type BudgetSettings = {
+  amount: number;
+  period: BudgetPeriod;
+  periodStart?: string;
+  spentAmount: number;
+  suppliers: SupplierBudget[];
+};
+
+export type AllocationStatus = "included" | "trimmed" | "excluded";
+
+/** Outcome of the budget allocation for one SKU, with the reason shown to the merchant. */
+export type AllocationDecision = {
+  sku: string;
+  name: string;
+  supplierId?: string;
+  recommendedQty: number;
+  qty: number;
+  amount: number;
+  preventedRevenue: number;
+  status: AllocationStatus;
+  reason: string;
+};
+
 export type BudgetPlan = {
   budget: number;
+  period: BudgetPeriod;
+  spentAmount: number;
+  availableBudget: number;
+  suppliers: (SupplierBudget & { plannedAmount: number })[];
   coverageDays: number;
   usedAmount: number;
   excludedAmount: number;
   coverageShare: number;
+  preventedRevenue: number;
+  decisions: AllocationDecision[];
   picks: {
     sku: string;
     name: string;
@@ -46,6 +168,7 @@ export type BudgetPlan = {
     amount: string;
     supplier?: string;
     risk?: string;
+    reason?: string;
   }[];
   excludedValue: string;
   excludedCount: number;
@@ -71,6 +194,7 @@ export type DashboardPayload = {
   lastCalculated: string;
   budgetPlan: BudgetPlan;
   locations: { id: string; name: string; selected: boolean }[];
+  locationScope: string;
   targetCoverages: number[];
   safetyDays: number;
   leadTimeDays: number;
@@ -78,17 +202,38 @@ export type DashboardPayload = {
 };
 
 export type ReplenishmentRow = {
+  variantId?: string;
   sku: string;
   name: string;
   variant: string;
   location: string;
   available: number;
+  incoming: number;
+  onOrder: number;
   avgDailySales: number;
+  forecastModel?: ForecastModel;
   daysOfStock: number;
   recommendedQty: number;
   targetCoverage: number;
+  leadTimeDays: number;
+  safetyDays: number;
+  leadTimeSource: PlanningSource;
+  safetyDaysSource: PlanningSource;
+  safetyQty: number;
+  reorderPoint: number;
+  /** Target service level (%) behind `safetyQty`; undefined with the flat safety days method. */
+  serviceLevel?: number;
+  abcClass?: AbcClass;
+  xyzClass?: XyzClass;
+  /** Shortage threshold (days) for this row's ABC class. */
+  shortageThreshold: number;
+  eventMultiplier?: number;
   unitCost: number;
+  price?: number;
+  moq: number;
+  casePack: number;
   supplier: string;
+  supplierId?: string;
   note?: string;
 };
 
@@ -97,9 +242,12 @@ export type ReplenishmentPayload = {
   budgetPlan: BudgetPlan;
   missingCostCount: number;
   locations: { id: string; name: string; selected: boolean }[];
+  locationScope: string;
   suppliers: string[];
   safetyDays: number;
   leadTimeDays: number;
+  safetyStockMethod: SafetyStockMethod;
+  serviceLevel: number;
   shortageThreshold: number;
   historyWindowDays: number;
   targetCoverageDays: number;
@@ -117,6 +265,10 @@ export type OverstockRow = {
   stockValue: number;
   unitCost?: number;
   severity: "severe" | "mild" | "normal";
+  /** Overstock threshold (days) for this row's ABC class. */
+  overstockThreshold: number;
+  abcClass?: AbcClass;
+  xyzClass?: XyzClass;
 };
 
 export type OverstockPayload = {
@@ -129,6 +281,8 @@ export type OverstockPayload = {
   };
   overstockThresholdDays: number;
   mildOverstockThresholdDays: number;
+  locations: { id: string; name: string; selected: boolean }[];
+  locationScope: string;
   lastCalculated: string;
 };
 
@@ -142,11 +296,23 @@ export type SettingsPayload = {
   leadTime: number;
   digestFrequency: "daily" | "weekly" | "off";
   digestSendHour: number;
+  digestWeekday: number;
   digestDailyEnabled: boolean;
   digestWeeklyEnabled: boolean;
   emailRecipients: string;
   slackWebhook: string;
   slackEnabled: boolean;
+  purchaseBudget: number;
+  budgetPeriod: BudgetPeriod;
+  forecastModel: ForecastModelSetting;
+  safetyStockMethod: SafetyStockMethod;
+  serviceLevel: number;
+  leadTimeStdDays: number;
+  abcBasis: AbcBasis;
+  classPolicies: ClassPolicies;
+  nightlySyncHour: number;
+  /** Shop IANA timezone the nightly sync hour is read in; "UTC" until the first sync job. */
+  timezone: string;
   missingCostCount: number;
   lastCalculated: string;
   webhookStatus: string;
@@ -168,6 +334,18 @@ export type VariantDetail = {
   coverage60d: number;
   coverage90d: number;
   historicalStockouts: number;
+  /** Estimated sales missed on sold-out days over the last 30 days. */
+  lostSales: { stockoutDays: number; units: number; revenue?: number };
+  incoming: number;
+  onOrder: number;
+  locationBreakdown: {
+    locationId: string;
+    name: string;
+    available: number;
+    incoming: number;
+    avgDailySales: number;
+    coverageDays: number;
+  }[];
   salesHistory: { date: string; quantity: number }[];
   inventoryHistory: { date: string; quantity: number }[];
 };
@@ -180,8 +358,25 @@ export type DigestPreview = {
     overstockCount: number;
     updatedAt: string;
   };
+  budget: {
+    amount: number;
+    period: BudgetPeriod;
+    spentAmount: number;
+    remaining: number;
+    plannedAmount: number;
+  };
   shortages: DashboardRow[];
   overstocks: DashboardRow[];
+  /** Estimated sales missed on sold-out days in the 30-day window, largest first. */
+  lostSales: { units: number; revenue: number; rows: DashboardRow[] };
+};
+
+export type InventoryLocationLevel = {
+  locationId: string;
+  locationName: string;
+  available: number;
+  /** Shopify's `incoming` quantity (transfers / purchase orders recorded in Shopify). */
+  incoming?: number;
 };
 
 export type VariantInventory = {
@@ -189,8 +384,18 @@ export type VariantInventory = {
   sku: string;
   name: string;
   variant: string;
+  /** Shopify product type; empty when the product has none. */
+  category?: string;
+  /** Shopify inventory item gid, the key of inventory level webhooks. */
+  inventoryItemId?: string;
+  /** Classes computed at sync time across the whole shop. */
+  abcClass?: AbcClass;
+  xyzClass?: XyzClass;
   available: number;
   unitCost?: number;
+  price?: number;
+  incoming?: number;
+  levels?: InventoryLocationLevel[];
 };
 
 export type VariantSalesBuckets = {
@@ -201,4 +406,222 @@ export type VariantSalesBuckets = {
 
 export type VariantMetrics = VariantInventory & {
   sales: VariantSalesBuckets;
+  /** Sales keyed by fulfilling location id; "" holds orders not yet attributed to a location. */
+  locationSales?: Record<string, VariantSalesBuckets>;
+  /** Units sold per day over the ledger history (oldest first), across the scoped locations. */
+  dailySales?: number[];
+  /** Daily series keyed by fulfilling location id, like `locationSales`. */
+  locationDailySales?: Record<string, number[]>;
+  /**
+   * Per day of `dailySales`, whether shop-wide on-hand stock was zero (from the daily
+   * inventory snapshots; not split by location).
+   */
+  outOfStock?: boolean[];
+  /** Units still open on the app's sent / partially received purchase orders. */
+  onOrder?: number;
+  /**
+   * Set when the variant is a bundle / kit: components consumed per unit sold. Its stock is then
+   * derived from the components and its sales also count as component demand.
+   */
+  bundleComponents?: BundleComponentRef[];
+};
+
+export type LocationScope = {
+  scope: string;
+  label: string;
+  locationIds?: string[];
+  includeUnattributed: boolean;
+};
+
+export type SupplierRecord = {
+  id: string;
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  currency: string;
+  leadTimeDays?: number;
+  safetyDays?: number;
+  moq?: number;
+  budget?: number;
+  skuCount: number;
+};
+
+export type SupplierSkuRow = {
+  sku: string;
+  name: string;
+  variant: string;
+  supplierId?: string;
+  leadTimeDays?: number;
+  safetyDays?: number;
+  moq?: number;
+  casePack?: number;
+};
+
+export type SuppliersPayload = {
+  suppliers: SupplierRecord[];
+  skus: SupplierSkuRow[];
+  unassignedCount: number;
+  defaultLeadTimeDays: number;
+  defaultSafetyDays: number;
+};
+
+export type DemandEventScope = "all" | "sku" | "category";
+
+export type DemandEventRecord = {
+  id: string;
+  name: string;
+  /** First and last day of the event (inclusive), as YYYY-MM-DD in UTC. */
+  startDate: string;
+  endDate: string;
+  multiplier: number;
+  scope: DemandEventScope;
+  /** SKUs (for "sku") or the Shopify product type (for "category"); empty for "all". */
+  scopeValues: string[];
+  status: "upcoming" | "active" | "past";
+};
+
+export type DemandEventsPayload = {
+  events: DemandEventRecord[];
+  categories: string[];
+};
+
+/**
+ * Demand multiplier for each of `days` UTC days from `start` for one variant; 1 when no event
+ * applies, the product of all overlapping events otherwise.
+ */
+export type DemandCalendar = (
+  variant: Pick<VariantMetrics, "sku" | "category">,
+  start: Date,
+  days: number,
+) => number[];
+
+export type BundleComponentRef = {
+  sku: string;
+  quantity: number;
+};
+
+/** Component lines keyed by bundle SKU. */
+export type BillOfMaterials = Map<string, BundleComponentRef[]>;
+
+export type BundleComponentRecord = BundleComponentRef & {
+  name: string;
+  variant: string;
+  available: number;
+};
+
+export type BundleRecord = {
+  sku: string;
+  name: string;
+  variant: string;
+  /** Bundles that can be assembled from component stock. */
+  available: number;
+  /** Component that caps `available`. */
+  limitingSku?: string;
+  components: BundleComponentRecord[];
+};
+
+export type BundlesPayload = {
+  bundles: BundleRecord[];
+  skus: { sku: string; name: string; variant: string }[];
+};
+
+/** Which level an effective lead time / safety days value came from. */
+export type PlanningSource = "sku" | "supplier" | "shop";
+
+export type PlanningOverride = {
+  leadTimeDays?: number;
+  safetyDays?: number;
+};
+
+/** Purchase quantity rules; a SKU value wins over the supplier's MOQ. */
+export type OrderConstraints = {
+  moq?: number;
+  casePack?: number;
+};
+
+export type PlanningParams = {
+  leadTimeDays: number;
+  safetyDays: number;
+  targetCoverage: number;
+  leadTimeSource: PlanningSource;
+  safetyDaysSource: PlanningSource;
+};
+
+export type PurchaseOrderStatus =
+  | "draft"
+  | "sent"
+  | "partially_received"
+  | "received"
+  | "cancelled";
+
+export type PurchaseOrderLineRecord = {
+  id: string;
+  variantId?: string;
+  sku: string;
+  name: string;
+  variant: string;
+  quantity: number;
+  receivedQuantity: number;
+  unitCost: number;
+  total: number;
+};
+
+export type PurchaseOrderSummary = {
+  id: string;
+  number: string;
+  supplierId?: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  lineCount: number;
+  totalQuantity: number;
+  totalAmount: number;
+  createdAt: string;
+  sentAt?: string;
+  receivedAt?: string;
+};
+
+export type PurchaseOrderDetail = PurchaseOrderSummary & {
+  note: string;
+  expectedAt?: string;
+  cancelledAt?: string;
+  supplierContact?: {
+    contactName: string;
+    email: string;
+    phone: string;
+  };
+  lines: PurchaseOrderLineRecord[];
+  allowedTransitions: PurchaseOrderStatus[];
+};
+
+export type PurchaseOrdersPayload = {
+  orders: PurchaseOrderSummary[];
+  statusCounts: Record<PurchaseOrderStatus, number>;
+};
+
+export type SyncJobStatus = "queued" | "running" | "succeeded" | "failed" | "retrying";
+
+export type SyncJobTrigger = "manual" | "nightly" | "scheduled" | "stale";
+
+export type DigestPeriod = "daily" | "weekly";
+
+export type SyncProgress = {
+  done: number;
+  total: number;
+  label: string;
+};
+
+export type SyncJobRecord = {
+  id: string;
+  scope: string;
+  trigger: SyncJobTrigger;
+  status: SyncJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  progress: SyncProgress;
+  message?: string;
+  runAfter: string;
+  startedAt?: string;
+  finishedAt?: string;
+  createdAt: string;
 };
@@ -0,0 +1,241 @@
+import { Prisma } from "@prisma/client";
+
+import { DEFAULT_HISTORY_DAYS, WEBHOOK_RECEIPT_RETENTION_DAYS } from "../config/inventory";
+import prisma from "../db.server";
+import { refreshBundleStock } from "./inventory.bundles.server";
+import { addDays, startOfUtcDay, toDayKey, UNATTRIBUTED_LOCATION } from "./inventory.helpers.server";
+import { readExcludedLocationIds } from "./inventory.sync.server";
+
+/** The parts of the REST order webhook payload (orders/paid, orders/cancelled) the ledger uses. */
+export type OrderWebhookPayload = {
+  id: number;
+  admin_graphql_api_id?: string;
+  created_at: string;
+  /** POS location the order was placed at. */
+  location_id?: number | null;
+  fulfillments?: { location_id?: number | null }[];
+  line_items?: { variant_id: number | null; quantity: number; current_quantity?: number | null }[];
+};
+
+export type RefundWebhookPayload = {
+  order_id: number;
+  refund_line_items?: { quantity: number; line_item?: { variant_id: number | null } | null }[];
+};
+
+export type InventoryLevelWebhookPayload = {
+  inventory_item_id: number;
+  location_id: number;
+  available: number | null;
+};
+
+type LedgerKey = { variantId: string; locationId: string; date: Date };
+
+const orderGid = (id: number) => `gid://shopify/Order/${id}`;
+const variantGid = (id: number) => `gid://shopify/ProductVariant/${id}`;
+const locationGid = (id: number) => `gid://shopify/Location/${id}`;
+
+/**
+ * Runs `apply` unless this webhook id was already handled. The receipt is written first, so of
+ * concurrent or retried deliveries only the one whose insert wins the unique key applies the
+ * change; it is released again if `apply` throws. Returns false for a repeated delivery.
+ * Receipts older than `WEBHOOK_RECEIPT_RETENTION_DAYS` are purged.
+ */
+export async function handleWebhookOnce(
+  shopDomain: string,
+  webhookId: string,
+  topic: string,
+  apply: () => Promise<void>,
+): Promise<boolean> {
+  try {
+    await prisma.webhookReceipt.create({ data: { shopDomain, webhookId, topic } });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") return false;
+    throw error;
+  }
+
+  try {
+    await apply();
+  } catch (error) {
+    await prisma.webhookReceipt.deleteMany({ where: { shopDomain, webhookId } });
+    throw error;
+  }
+  await prisma.webhookReceipt.deleteMany({
+    where: { createdAt: { lt: addDays(new Date(), -WEBHOOK_RECEIPT_RETENTION_DAYS) } },
+  });
+  return true;
+}
+
+/** Re-sums `VariantDailySales` for the given variant / location / day keys from the order lines. */
+async function rebuildDailySales(shopDomain: string, keys: LedgerKey[]) {
+  const unique = new Map(
+    keys.map((key) => [`${key.variantId}|${key.locationId}|${toDayKey(key.date)}`, key]),
+  );
+  for (const key of unique.values()) {
+    const total = await prisma.orderSalesLine.aggregate({
+      where: { shopDomain, variantId: key.variantId, locationId: key.locationId, date: key.date },
+      _sum: { quantity: true },
+    });
+    const quantity = total._sum.quantity ?? 0;
+    const where = {
+      shopDomain_variantId_locationId_date: {
+        shopDomain,
+        variantId: key.variantId,
+        locationId: key.locationId,
+        date: key.date,
+      },
+    };
+    if (quantity > 0) {
+      await prisma.variantDailySales.upsert({
+        where,
+        create: { shopDomain, ...key, quantity },
+        update: { quantity },
+      });
+    } else {
+      await prisma.variantDailySales.deleteMany({ where: { shopDomain, ...key } });
+    }
+  }
+}
+
+async function replaceOrderLines(
+  shopDomain: string,
+  orderId: string,
+  lines: (LedgerKey & { quantity: number })[],
+) {
+  const previous = await prisma.orderSalesLine.findMany({
+    where: { shopDomain, orderId },
+    select: { variantId: true, locationId: true, date: true },
+  });
+  await prisma.$transaction([
+    prisma.orderSalesLine.deleteMany({ where: { shopDomain, orderId } }),
+    prisma.orderSalesLine.createMany({ data: lines.map((line) => ({ shopDomain, orderId, ...line })) }),
+  ]);
+  await rebuildDailySales(shopDomain, [...previous, ...lines]);
+}
+
+/**
+ * orders/paid: writes the order's net units per variant into the ledger, on the order's creation
+ * day like the reconciliation refetch. Orders older than the history window are ignored.
+ * Returns the number of order lines written.
+ */
+export async function applyOrderPaid(shopDomain: string, payload: OrderWebhookPayload): Promise<number> {
+  const date = startOfUtcDay(new Date(payload.created_at));
+  if (date < addDays(startOfUtcDay(new Date()), -DEFAULT_HISTORY_DAYS)) return 0;
+
+  // Usually not fulfilled yet at payment; the refetch attributes the location once it is.
+  const fulfilled = payload.fulfillments?.find((fulfillment) => fulfillment.location_id);
+  const location = fulfilled?.location_id ?? payload.location_id;
+  const locationId = location ? locationGid(location) : UNATTRIBUTED_LOCATION;
+
+  const quantities = new Map<string, number>();
+  (payload.line_items ?? []).forEach((line) => {
+    if (!line.variant_id) return;
+    const quantity = line.current_quantity ?? line.quantity;
+    const variantId = variantGid(line.variant_id);
+    quantities.set(variantId, (quantities.get(variantId) ?? 0) + quantity);
+  });
+  const lines = [...quantities.entries()]
+    .filter(([, quantity]) => quantity > 0)
+    .map(([variantId, quantity]) => ({ variantId, locationId, date, quantity }));
+
+  await replaceOrderLines(shopDomain, payload.admin_graphql_api_id ?? orderGid(payload.id), lines);
+  return lines.length;
+}
+
+/** orders/cancelled: removes the order from the ledger. */
+export async function applyOrderCancelled(shopDomain: string, payload: OrderWebhookPayload) {
+  await replaceOrderLines(shopDomain, payload.admin_graphql_api_id ?? orderGid(payload.id), []);
+}
+
+/**
+ * refunds/create: takes the refunded units off the order's ledger lines. Returns the number of
+ * units removed; 0 when the order is not in the ledger (unpaid or outside the history window).
+ */
+export async function applyRefund(shopDomain: string, payload: RefundWebhookPayload): Promise<number> {
+  const orderId = orderGid(payload.order_id);
+  const lines = await prisma.orderSalesLine.findMany({ where: { shopDomain, orderId } });
+  if (lines.length === 0) return 0;
+
+  let removed = 0;
+  (payload.refund_line_items ?? []).forEach((refundLine) => {
+    const refundedVariant = refundLine.line_item?.variant_id;
+    const variantId = refundedVariant ? variantGid(refundedVariant) : undefined;
+    let remaining = refundLine.quantity;
+    lines
+      .filter((line) => line.variantId === variantId)
+      .forEach((line) => {
+        const taken = Math.min(line.quantity, remaining);
+        line.quantity -= taken;
+        remaining -= taken;
+        removed += taken;
+      });
+  });
+  if (removed === 0) return 0;
+
+  await replaceOrderLines(
+    shopDomain,
+    orderId,
+    lines
+      .filter((line) => line.quantity > 0)
+      .map((line) => ({
+        variantId: line.variantId,
+        locationId: line.locationId,
+        date: line.date,
+        quantity: line.quantity,
+      })),
+  );
+  return removed;
+}
+
+/**
+ * inventory_levels/update: stores the new available quantity for the location and re-totals the
+ * variant's cached available stock over the locations included in calculations, then that of
+ * the bundles it is a component of. Returns false when the inventory item is not a synced
+ * variant.
+ */
+export async function applyInventoryLevelUpdate(
+  shopDomain: string,
+  payload: InventoryLevelWebhookPayload,
+): Promise<boolean> {
+  const metric = await prisma.inventoryMetric.findFirst({
+    where: { shopDomain, inventoryItemId: `gid://shopify/InventoryItem/${payload.inventory_item_id}` },
+    select: { variantId: true, sku: true },
+  });
+  if (!metric) return false;
+
+  const { variantId } = metric;
+  const locationId = locationGid(payload.location_id);
+  const available = payload.available ?? 0;
+  const knownLocation = await prisma.inventoryLevel.findFirst({
+    where: { shopDomain, locationId },
+    select: { locationName: true },
+  });
+  await prisma.inventoryLevel.upsert({
+    where: { shopDomain_variantId_locationId: { shopDomain, variantId, locationId } },
+    create: {
+      shopDomain,
+      variantId,
+      locationId,
+      locationName: knownLocation?.locationName ?? locationId,
+      available,
+    },
+    update: { available },
+  });
+
+  const [levels, excluded] = await Promise.all([
+    prisma.inventoryLevel.findMany({
+      where: { shopDomain, variantId },
+      select: { locationId: true, available: true },
+    }),
+    readExcludedLocationIds(shopDomain),
+  ]);
+  await prisma.inventoryMetric.update({
+    where: { shopDomain_variantId: { shopDomain, variantId } },
+    data: {
+      available: levels
+        .filter((level) => !excluded.has(level.locationId))
+        .reduce((total, level) => total + level.available, 0),
+    },
+  });
+  await refreshBundleStock(shopDomain, metric.sku);
+  return true;
+}
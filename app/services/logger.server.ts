@@ -37,3 +37,12 @@ export async function logEvent(
     // Logging failures should never block main flows.
   }
 }
+
+/** Most recent logged event of `type` for the shop. */
+export async function getLastEvent(shop: string, type: EventType) {
+  return prisma.syncLog.findFirst({
+    where: { shopDomain: shop, scope: type },
+    orderBy: { createdAt: "desc" },
+    select: { status: true, message: true, createdAt: true },
+  });
+}
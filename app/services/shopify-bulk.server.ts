@@ -0,0 +1,173 @@
+import { BULK_OPERATION_POLL_MS, BULK_OPERATION_TIMEOUT_MINUTES } from "../config/inventory";
+import { logEvent } from "./logger.server";
+import type { AdminApiClient } from "./shopify-graphql.server";
+import { executeGraphql } from "./shopify-graphql.server";
+
+type BulkOperationStatus =
+  | "CREATED"
+  | "RUNNING"
+  | "COMPLETED"
+  | "CANCELING"
+  | "CANCELED"
+  | "FAILED"
+  | "EXPIRED";
+
+type BulkOperation = {
+  id: string;
+  status: BulkOperationStatus;
+  errorCode: string | null;
+  objectCount: string | null;
+  url: string | null;
+};
+
+/**
+ * One JSONL line of a bulk result. Objects of nested connections are written on their own line,
+ * after their parent, with the parent's id in `__parentId`.
+ */
+export type BulkRecord = Record<string, unknown> & { id?: string; __parentId?: string };
+
+const RUN_MUTATION = `#graphql
+  mutation RunBulkQuery($query: String!) {
+    bulkOperationRunQuery(query: $query) {
+      bulkOperation { id status }
+      userErrors { field message }
+    }
+  }
+`;
+
+const STATUS_QUERY = `#graphql
+  query BulkOperationStatus($id: ID!) {
+    node(id: $id) {
+      ... on BulkOperation { id status errorCode objectCount url }
+    }
+  }
+`;
+
+const CANCEL_MUTATION = `#graphql
+  mutation CancelBulkQuery($id: ID!) {
+    bulkOperationCancel(id: $id) {
+      bulkOperation { id status }
+      userErrors { field message }
+    }
+  }
+`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `query` as a bulk operation, waits for it to finish and streams the JSONL result into
+ * `onRecord` one line at a time, so large catalogs and order histories are never held as one
+ * response. `onPoll` runs on every status check, e.g. to keep a job's heartbeat fresh while
+ * Shopify works. Throws when the operation cannot start, fails or exceeds
+ * `BULK_OPERATION_TIMEOUT_MINUTES`. Returns the number of records read.
+ */
+export async function runBulkQuery(
+  admin: AdminApiClient,
+  shopDomain: string,
+  query: string,
+  onRecord: (record: BulkRecord) => Promise<void> | void,
+  logScope = "bulk",
+  onPoll?: () => Promise<void> | void,
+): Promise<number> {
+  const started = await executeGraphql<{
+    bulkOperationRunQuery: {
+      bulkOperation: { id: string; status: BulkOperationStatus } | null;
+      userErrors: { field: string[] | null; message: string }[];
+    };
+  }>(admin, shopDomain, RUN_MUTATION, { variables: { query } }, `${logScope}.start`);
+
+  const { bulkOperation, userErrors } = started.bulkOperationRunQuery;
+  if (!bulkOperation || userErrors.length > 0) {
+    const reason = userErrors.map((error) => error.message).join(" | ") || "no operation returned";
+    await logEvent(shopDomain, "sync", "failure", `Bulk ${logScope} could not start: ${reason}`);
+    throw new Error(`Bulk ${logScope} could not start`);
+  }
+
+  const operation = await waitForBulkOperation(admin, shopDomain, bulkOperation.id, logScope, onPoll);
+  // An operation that matched nothing completes without a result file.
+  if (!operation.url) return 0;
+  return streamJsonl(operation.url, onRecord);
+}
+
+async function waitForBulkOperation(
+  admin: AdminApiClient,
+  shopDomain: string,
+  id: string,
+  logScope: string,
+  onPoll?: () => Promise<void> | void,
+): Promise<BulkOperation> {
+  const deadline = Date.now() + BULK_OPERATION_TIMEOUT_MINUTES * 60 * 1000;
+
+  while (Date.now() < deadline) {
+    await sleep(BULK_OPERATION_POLL_MS);
+    await onPoll?.();
+    const data = await executeGraphql<{ node: BulkOperation | null }>(
+      admin,
+      shopDomain,
+      STATUS_QUERY,
+      { variables: { id } },
+      `${logScope}.status`,
+    );
+    const operation = data.node;
+    if (!operation) throw new Error(`Bulk ${logScope} operation ${id} not found`);
+    if (operation.status === "COMPLETED") {
+      await logEvent(
+        shopDomain,
+        "sync",
+        "success",
+        `Bulk ${logScope} completed: ${operation.objectCount ?? 0} objects`,
+      );
+      return operation;
+    }
+    if (["CANCELED", "FAILED", "EXPIRED"].includes(operation.status)) {
+      await logEvent(
+        shopDomain,
+        "sync",
+        "failure",
+        `Bulk ${logScope} ${operation.status.toLowerCase()}${operation.errorCode ? `: ${operation.errorCode}` : ""}`,
+      );
+      throw new Error(`Bulk ${logScope} ${operation.status.toLowerCase()}`);
+    }
+  }
+
+  await executeGraphql(admin, shopDomain, CANCEL_MUTATION, { variables: { id } }, `${logScope}.cancel`)
+    .catch(() => undefined);
+  await logEvent(
+    shopDomain,
+    "sync",
+    "failure",
+    `Bulk ${logScope} did not finish within ${BULK_OPERATION_TIMEOUT_MINUTES} minutes and was cancelled`,
+  );
+  throw new Error(`Bulk ${logScope} timed out`);
+}
+
+async function streamJsonl(url: string, onRecord: (record: BulkRecord) => Promise<void> | void) {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Bulk result download failed (${response.status})`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let count = 0;
+
+  const flushLine = async (line: string) => {
+    if (!line.trim()) return;
+    await onRecord(JSON.parse(line) as BulkRecord);
+    count += 1;
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const lines = (buffer + decoder.decode(value, { stream: true })).split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      await flushLine(line);
+    }
+  }
+  await flushLine(buffer + decoder.decode());
+
+  return count;
+}
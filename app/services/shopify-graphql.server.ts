@@ -88,6 +88,25 @@ export async function paginate<T>(
   variables?: Record<string, unknown>,
   limitPages = 10,
 ): Promise<T[]> {
+  const { records } = await paginateWithState<T>(
+    admin,
+    shopDomain,
+    query,
+    path,
+    variables,
+    limitPages,
+  );
+  return records;
+}
+
+export async function paginateWithState<T>(
+  admin: AdminApiClient,
+  shopDomain: string,
+  query: string,
+  path: string[],
+  variables?: Record<string, unknown>,
+  limitPages = 10,
+): Promise<{ records: T[]; complete: boolean }> {
   const records: T[] = [];
   let cursor: string | undefined;
   let hasNextPage = true;
@@ -109,7 +128,7 @@ export async function paginate<T>(
         "failure",
         `Missing path ${path.join(".")} in GraphQL response`,
       );
-      break;
+      return { records, complete: false };
     }
     const pageInfo = container?.pageInfo;
     const nodes = container?.nodes ?? container?.edges?.map((edge) => edge.node) ?? [];
@@ -129,5 +148,5 @@ export async function paginate<T>(
     );
   }
 
-  return records;
+  return { records, complete: !hasNextPage };
 }
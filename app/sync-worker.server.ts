@@ -0,0 +1,12 @@
+import { runSyncWorker } from "./services/inventory.jobs.server";
+import { unauthenticated } from "./shopify.server";
+
+// Background worker for queued syncs: `npm run worker`, alongside the web process.
+const controller = new AbortController();
+process.on("SIGINT", () => controller.abort());
+process.on("SIGTERM", () => controller.abort());
+
+await runSyncWorker(async (shopDomain) => {
+  const { admin } = await unauthenticated.admin(shopDomain);
+  return admin;
+}, controller.signal);
@@ -0,0 +1,49 @@
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and CRLF/LF line endings.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const pushRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim().length > 0)) {
+      rows.push(row.map((value) => value.trim()));
+    }
+    row = [];
+    field = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      pushRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+  pushRow();
+
+  return rows;
+}
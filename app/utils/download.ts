@@ -0,0 +1,18 @@
+/**
+ * Fetches `url` and saves the response as a file. Inside the embedded admin App Bridge adds the
+ * session token to `fetch`, which a native form post or link would lose by leaving the frame.
+ */
+export async function downloadFile(url: string) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`下载失败（${response.status}）`);
+  }
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? "download";
+  const href = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(href));
+}
@@ -0,0 +1,59 @@
+/** RFC 2047 encoded-word for header values that are not plain ASCII. */
+export function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/** Base64 body with lines of at most 76 characters, as MIME requires. */
+export function wrapBase64(buffer: Buffer) {
+  return (buffer.toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+}
+
+/** The bare address of `Name <user@host>` (or of a bare address). */
+export function mailAddress(value: string) {
+  return (value.match(/<([^>]+)>/)?.[1] ?? value).trim();
+}
+
+/** Splits a comma / semicolon / whitespace separated recipient list, dropping blanks and repeats. */
+export function splitRecipients(value: string) {
+  return [
+    ...new Set(
+      value
+        .split(/[,;\s]+/)
+        .map((item) => item.trim())
+        .filter(Boolean),
+    ),
+  ];
+}
+
+/** RFC 5322 message with a plain-text and an HTML alternative of the same content. */
+export function buildAlternativeMessage(message: {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}) {
+  const boundary = `alt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  const fromName = message.from.match(/^(.*?)\s*</)?.[1]?.replace(/^"|"$/g, "");
+  return [
+    `From: ${fromName ? `${encodeHeader(fromName)} <${mailAddress(message.from)}>` : mailAddress(message.from)}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(Buffer.from(message.text, "utf8")),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(Buffer.from(message.html, "utf8")),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
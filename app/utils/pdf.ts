@@ -0,0 +1,225 @@
+import { createHash } from "node:crypto";
+import { createRequire } from "node:module";
+import { deflateSync } from "node:zlib";
+import { openSync } from "fontkit";
+import type { Font } from "fontkit";
+
+/**
+ * Minimal PDF 1.4 writer for server-generated documents (no images).
+ *
+ * Text uses Noto Sans SC, embedded as a TrueType subset of the glyphs the document draws, so
+ * Chinese and Latin text render the same in every viewer. Strings are written as glyph ids
+ * (Identity-H) with a ToUnicode map so text stays searchable and copyable.
+ */
+
+const FONT_PATH = createRequire(import.meta.url).resolve(
+  "@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf",
+);
+
+let cachedFont: Font | undefined;
+
+function loadFont() {
+  cachedFont ??= openSync(FONT_PATH) as Font;
+  return cachedFont;
+}
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export type PdfOp =
+  | { kind: "text"; x: number; y: number; size: number; text: string; align?: "left" | "right" }
+  | { kind: "line"; x1: number; y1: number; x2: number; y2: number; width?: number }
+  | { kind: "rect"; x: number; y: number; width: number; height: number; gray: number };
+
+export type PdfPage = PdfOp[];
+
+/** Advance width of `text` in the embedded font (matches the /W array). */
+export function measureText(text: string, size: number) {
+  const font = loadFont();
+  let units = 0;
+  for (const char of text) {
+    units += font.glyphForCodePoint(char.codePointAt(0) ?? 0x3f).advanceWidth;
+  }
+  return (units / font.unitsPerEm) * size;
+}
+
+/** Cuts `text` so it fits `maxWidth`, marking the cut with an ellipsis. */
+export function fitText(text: string, size: number, maxWidth: number) {
+  if (measureText(text, size) <= maxWidth) return text;
+  let result = "";
+  for (const char of text) {
+    if (measureText(`${result}${char}…`, size) > maxWidth) break;
+    result += char;
+  }
+  return `${result}…`;
+}
+
+function toUtf16Hex(text: string) {
+  return toHex(Buffer.from(text, "utf16le").swap16());
+}
+
+function toHex(bytes: Uint8Array) {
+  return Buffer.from(bytes).toString("hex").toUpperCase();
+}
+
+function formatNumber(value: number) {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Collects the glyphs a document draws into a font subset. Subset glyph ids are handed out in
+ * inclusion order after .notdef, which is how fontkit numbers the subset it encodes.
+ */
+function createGlyphSubset(font: Font) {
+  const subset = font.createSubset();
+  const subsetIds = new Map<number, number>([[0, 0]]);
+  const glyphs = [font.getGlyph(0)];
+  const codePoints = new Map<number, number>();
+
+  const encode = (text: string) => {
+    let hex = "";
+    for (const char of text) {
+      const codePoint = char.codePointAt(0) ?? 0x3f;
+      const glyph = font.glyphForCodePoint(codePoint);
+      let subsetId = subsetIds.get(glyph.id);
+      if (subsetId === undefined) {
+        subset.includeGlyph(glyph);
+        subsetId = glyphs.length;
+        subsetIds.set(glyph.id, subsetId);
+        glyphs.push(glyph);
+      }
+      if (subsetId !== 0 && !codePoints.has(subsetId)) {
+        codePoints.set(subsetId, codePoint);
+      }
+      hex += subsetId.toString(16).padStart(4, "0");
+    }
+    return hex.toUpperCase();
+  };
+
+  return { subset, glyphs, codePoints, encode };
+}
+
+function toUnicodeCMap(codePoints: Map<number, number>) {
+  const entries = [...codePoints].map(
+    ([subsetId, codePoint]) =>
+      `<${subsetId.toString(16).padStart(4, "0").toUpperCase()}> <${toUtf16Hex(String.fromCodePoint(codePoint))}>`,
+  );
+  const blocks: string[] = [];
+  for (let index = 0; index < entries.length; index += 100) {
+    const block = entries.slice(index, index + 100);
+    blocks.push(`${block.length} beginbfchar\n${block.join("\n")}\nendbfchar`);
+  }
+  return [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange",
+    "<0000> <FFFF>",
+    "endcodespacerange",
+    ...blocks,
+    "endcmap",
+    "CMapName currentdict /CMap defineresource pop",
+    "end",
+    "end",
+  ].join("\n");
+}
+
+/** Stream object whose binary payload is deflated and hex-encoded to keep the file ASCII. */
+function binaryStream(bytes: Uint8Array, extraEntries = "") {
+  const hex = `${toHex(deflateSync(bytes))}>`;
+  return (
+    `<< /Length ${hex.length} /Filter [/ASCIIHexDecode /FlateDecode]${extraEntries} >>\n` +
+    `stream\n${hex}\nendstream`
+  );
+}
+
+function renderOp(op: PdfOp, encodeText: (text: string) => string) {
+  switch (op.kind) {
+    case "text": {
+      const x = op.align === "right" ? op.x - measureText(op.text, op.size) : op.x;
+      return `BT /F1 ${op.size} Tf 1 0 0 1 ${formatNumber(x)} ${formatNumber(op.y)} Tm <${encodeText(op.text)}> Tj ET`;
+    }
+    case "line":
+      return `${formatNumber(op.width ?? 0.5)} w ${formatNumber(op.x1)} ${formatNumber(op.y1)} m ${formatNumber(op.x2)} ${formatNumber(op.y2)} l S`;
+    case "rect":
+      return `${formatNumber(op.gray)} g ${formatNumber(op.x)} ${formatNumber(op.y)} ${formatNumber(op.width)} ${formatNumber(op.height)} re f 0 g`;
+  }
+}
+
+/**
+ * Serialises pages into a PDF document. The output is pure ASCII, so `Buffer.from(pdf, "latin1")`
+ * (or any byte-per-char encoding) yields the file bytes.
+ */
+export function buildPdf(pages: PdfPage[], title: string): string {
+  const font = loadFont();
+  const glyphSubset = createGlyphSubset(font);
+  const objects: string[] = [];
+  const fontId = 3;
+  const firstPageId = 6;
+  const pageIds = pages.map((_, index) => firstPageId + index * 2);
+  const fontFileId = firstPageId + pages.length * 2;
+  const toUnicodeId = fontFileId + 1;
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+
+  pages.forEach((ops, index) => {
+    const pageId = pageIds[index];
+    const content = ops.map((op) => renderOp(op, glyphSubset.encode)).join("\n");
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // The subset is only complete once every page has been encoded.
+  const fontFile = glyphSubset.subset.encode();
+  const scale = 1000 / font.unitsPerEm;
+  const scaled = (value: number) => Math.round(value * scale);
+  const tag = createHash("sha1")
+    .update(glyphSubset.glyphs.map((glyph) => glyph.id).join(","))
+    .digest()
+    .subarray(0, 6)
+    .reduce((result, byte) => result + String.fromCharCode(65 + (byte % 26)), "");
+  const fontName = `${tag}+${font.postscriptName}`;
+  const widths = glyphSubset.glyphs.map((glyph) => scaled(glyph.advanceWidth)).join(" ");
+  const { minX, minY, maxX, maxY } = font.bbox;
+
+  objects[fontId] =
+    `<< /Type /Font /Subtype /Type0 /BaseFont /${fontName} /Encoding /Identity-H ` +
+    `/DescendantFonts [4 0 R] /ToUnicode ${toUnicodeId} 0 R >>`;
+  objects[4] =
+    `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${fontName} ` +
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> " +
+    `/FontDescriptor 5 0 R /CIDToGIDMap /Identity /DW 1000 /W [0 [${widths}]] >>`;
+  objects[5] =
+    `<< /Type /FontDescriptor /FontName /${fontName} /Flags 4 ` +
+    `/FontBBox [${[minX, minY, maxX, maxY].map(scaled).join(" ")}] /ItalicAngle ${font.italicAngle} ` +
+    `/Ascent ${scaled(font.ascent)} /Descent ${scaled(font.descent)} /CapHeight ${scaled(font.capHeight)} ` +
+    `/StemV 80 /FontFile2 ${fontFileId} 0 R >>`;
+  objects[fontFileId] = binaryStream(fontFile, ` /Length1 ${fontFile.length}`);
+  const cmap = toUnicodeCMap(glyphSubset.codePoints);
+  objects[toUnicodeId] = `<< /Length ${cmap.length} >>\nstream\n${cmap}\nendstream`;
+
+  const infoId = objects.length;
+  objects[infoId] = `<< /Title <FEFF${toUtf16Hex(title)}> /Producer (Inventory Copilot) >>`;
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return output;
+}
@@ -0,0 +1,53 @@
+/**
+ * Posts messages to Slack incoming webhooks, retrying rate limits (429, honouring Retry-After),
+ * server errors and network failures with exponential backoff. Other 4xx replies (invalid
+ * payload, revoked webhook, archived channel) fail at once.
+ */
+import { SLACK_MAX_ATTEMPTS, SLACK_RETRY_BASE_MS, SLACK_TIMEOUT_MS } from "../config/inventory";
+
+/** Block Kit payload; `text` is the fallback shown in notifications. */
+export type SlackMessage = { text: string; blocks: Record<string, unknown>[] };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Escapes the characters Slack mrkdwn treats as control sequences. */
+export function escapeSlack(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** Webhook URL with its secret path cut, safe to log or show. */
+export function maskWebhook(url: string) {
+  try {
+    const { host, pathname } = new URL(url);
+    return `${host}/…${pathname.slice(-4)}`;
+  } catch {
+    return "invalid webhook";
+  }
+}
+
+/** Sends `message`, returning the number of attempts it took; throws with the last error. */
+export async function postSlackMessage(webhook: string, message: SlackMessage): Promise<number> {
+  let lastError = "";
+  for (let attempt = 1; attempt <= SLACK_MAX_ATTEMPTS; attempt += 1) {
+    let retryAfterMs = SLACK_RETRY_BASE_MS * 2 ** (attempt - 1);
+    try {
+      const response = await fetch(webhook, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(message),
+        signal: AbortSignal.timeout(SLACK_TIMEOUT_MS),
+      });
+      if (response.ok) return attempt;
+
+      const body = (await response.text()).slice(0, 200);
+      lastError = `Slack ${response.status}${body ? ` ${body}` : ""}`;
+      if (response.status !== 429 && response.status < 500) break;
+      const retryAfter = Number(response.headers.get("retry-after"));
+      if (retryAfter > 0) retryAfterMs = retryAfter * 1000;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : "Slack request failed";
+    }
+    if (attempt < SLACK_MAX_ATTEMPTS) await sleep(retryAfterMs);
+  }
+  throw new Error(lastError);
+}
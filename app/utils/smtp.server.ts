@@ -0,0 +1,61 @@
+/**
+ * Outgoing notification mail over SMTP, sent with nodemailer (STARTTLS when offered or implicit
+ * TLS, AUTH when credentials are set, one message per connection).
+ *
+ * Configured from the environment. Without `SMTP_HOST` it talks to a local stand-in such as
+ * Mailpit or MailHog on localhost:1025, which accepts everything and shows it in a web inbox.
+ */
+import { createTransport } from "nodemailer";
+
+import { SMTP_TIMEOUT_MS } from "../config/inventory";
+import { mailAddress } from "./mime";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (usually port 465); otherwise STARTTLS when offered. */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+};
+
+export function readSmtpConfig(): SmtpConfig {
+  const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, SMTP_FROM } = process.env;
+  const secure = SMTP_SECURE === "true";
+  return {
+    host: SMTP_HOST || "localhost",
+    port: Number(SMTP_PORT) || (SMTP_HOST ? (secure ? 465 : 587) : 1025),
+    secure,
+    user: SMTP_USER || undefined,
+    password: SMTP_PASSWORD || undefined,
+    from: SMTP_FROM || "Inventory Copilot <digest@localhost>",
+  };
+}
+
+/**
+ * Delivers one RFC 5322 `message` to `recipients`. Throws with the server's reply when a
+ * command is rejected or the connection fails; recipients the server refuses fail the send.
+ */
+export async function sendMail(config: SmtpConfig, recipients: string[], message: string) {
+  const transport = createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password ?? "" } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+  try {
+    const info = await transport.sendMail({
+      envelope: { from: mailAddress(config.from), to: recipients.map(mailAddress) },
+      raw: message,
+    });
+    if (info.rejected.length > 0) {
+      throw new Error(`SMTP RCPT rejected: ${info.rejected.map(String).join(", ")}`);
+    }
+  } finally {
+    transport.close();
+  }
+}
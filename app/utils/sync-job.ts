@@ -0,0 +1,48 @@
+import { useEffect } from "react";
+import { useFetcher, useRevalidator } from "react-router";
+
+import { SYNC_JOB_POLL_MS, SYNC_JOB_STATUS_LABELS } from "../config/inventory";
+import type { SyncJobRecord } from "../services/inventory.types";
+
+export function describeSyncJob(job: SyncJobRecord): string {
+  const label = SYNC_JOB_STATUS_LABELS[job.status];
+  switch (job.status) {
+    case "running":
+      return job.progress.total > 0
+        ? `${label} ${job.progress.done}/${job.progress.total} · ${job.progress.label}`
+        : label;
+    case "retrying":
+      return `${label}：第 ${job.attempts}/${job.maxAttempts} 次失败（${job.message ?? "未知错误"}），将于 ${new Date(job.runAfter).toLocaleTimeString()} 重试`;
+    case "failed":
+      return `${label}：${job.message ?? "未知错误"}`;
+    case "succeeded":
+      return job.message ? `${label} · ${job.message}` : label;
+    default:
+      return label;
+  }
+}
+
+/**
+ * Polls a queued sync job (as returned by a `sync` intent) until it finishes, and reloads the
+ * page data once it has succeeded.
+ */
+export function useSyncJob(queued: SyncJobRecord | undefined) {
+  const fetcher = useFetcher<SyncJobRecord>();
+  const { revalidate } = useRevalidator();
+  const { load } = fetcher;
+  const job = fetcher.data && fetcher.data.id === queued?.id ? fetcher.data : queued;
+  const active = job?.status === "queued" || job?.status === "running" || job?.status === "retrying";
+
+  useEffect(() => {
+    if (!job || !active) return;
+    const timer = setTimeout(() => load(`/app/sync-jobs/${job.id}`), SYNC_JOB_POLL_MS);
+    return () => clearTimeout(timer);
+  }, [job, active, load]);
+
+  const succeededId = job?.status === "succeeded" ? job.id : undefined;
+  useEffect(() => {
+    if (succeededId) revalidate();
+  }, [succeededId, revalidate]);
+
+  return { job, active, message: job ? describeSyncJob(job) : undefined };
+}
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+export type BundleComponentForm = {
+  bundleSku: string;
+  componentSku: string;
+  quantity: number;
+};
+
+const BundleComponentSchema = z
+  .object({
+    bundleSku: z.string().trim().min(1, "请选择套装 SKU"),
+    componentSku: z.string().trim().min(1, "请选择组件 SKU"),
+    quantity: z
+      .number({ invalid_type_error: "用量需为数字" })
+      .int("用量需为整数")
+      .min(1, "用量至少为 1"),
+  })
+  .refine((data) => data.bundleSku !== data.componentSku, "套装不能包含自身");
+
+export function parseBundleComponent(formData: FormData) {
+  const parsed = BundleComponentSchema.safeParse({
+    bundleSku: (formData.get("bundleSku") as string) ?? "",
+    componentSku: (formData.get("componentSku") as string) ?? "",
+    quantity: Number(formData.get("quantity") ?? ""),
+  });
+
+  if (!parsed.success) {
+    return {
+      success: false as const,
+      message: parsed.error.issues.map((issue) => issue.message).join(" · "),
+    };
+  }
+
+  const data: BundleComponentForm = parsed.data;
+  return { success: true as const, data };
+}
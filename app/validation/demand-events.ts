@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { MAX_EVENT_MULTIPLIER, MIN_EVENT_MULTIPLIER } from "../config/inventory";
+import type { FieldErrors } from "../types/errors";
+
+export type DemandEventField = "name" | "startDate" | "endDate" | "multiplier" | "scopeValues";
+
+export type DemandEventForm = {
+  id?: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  multiplier: number;
+  scope: "all" | "sku" | "category";
+  scopeValues: string[];
+};
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const dayField = (message: string) =>
+  z
+    .string()
+    .trim()
+    .refine((value) => DAY_PATTERN.test(value) && !Number.isNaN(Date.parse(value)), message)
+    .transform((value) => new Date(`${value}T00:00:00.000Z`));
+
+const DemandEventSchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string().trim().min(1, "请填写活动名称").max(80, "名称最多 80 字"),
+    startDate: dayField("开始日期无效"),
+    endDate: dayField("结束日期无效"),
+    multiplier: z
+      .number({ invalid_type_error: "需求倍数需为数字" })
+      .min(MIN_EVENT_MULTIPLIER, `需求倍数需在 ${MIN_EVENT_MULTIPLIER}-${MAX_EVENT_MULTIPLIER} 之间`)
+      .max(MAX_EVENT_MULTIPLIER, `需求倍数需在 ${MIN_EVENT_MULTIPLIER}-${MAX_EVENT_MULTIPLIER} 之间`),
+    scope: z.enum(["all", "sku", "category"]),
+    scopeValues: z.array(z.string()),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: "结束日期不能早于开始日期",
+    path: ["endDate"],
+  })
+  .refine((data) => data.scope === "all" || data.scopeValues.length > 0, {
+    message: "请填写适用的 SKU 或商品类型",
+    path: ["scopeValues"],
+  });
+
+/** SKUs are comma / newline separated; a product type is kept whole. */
+export function parseDemandEvent(formData: FormData) {
+  const scope = (formData.get("scope") as string) || "all";
+  const rawValues = ((formData.get("scopeValues") as string) ?? "").trim();
+  const scopeValues =
+    scope === "all"
+      ? []
+      : scope === "sku"
+        ? [...new Set(rawValues.split(/[,\n]/).map((value) => value.trim()).filter(Boolean))]
+        : rawValues
+          ? [rawValues]
+          : [];
+
+  const parsed = DemandEventSchema.safeParse({
+    id: (formData.get("id") as string) || undefined,
+    name: (formData.get("name") as string) ?? "",
+    startDate: (formData.get("startDate") as string) ?? "",
+    endDate: (formData.get("endDate") as string) ?? "",
+    multiplier: Number(formData.get("multiplier") ?? ""),
+    scope,
+    scopeValues,
+  });
+
+  if (!parsed.success) {
+    const errors: FieldErrors<DemandEventField> = {};
+    parsed.error.issues.forEach((issue) => {
+      const key = issue.path[0] as DemandEventField | undefined;
+      if (key && !errors[key]) {
+        errors[key] = issue.message;
+      }
+    });
+    return { success: false as const, errors };
+  }
+
+  const data: DemandEventForm = parsed.data;
+  return { success: true as const, data };
+}
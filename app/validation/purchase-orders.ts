@@ -0,0 +1,83 @@
+import { z } from "zod";
+import type { PurchaseOrderStatus } from "../services/inventory.types";
+
+const DraftSchema = z.object({
+  note: z.string().trim().max(1000, "备注最多 1000 字"),
+  expectedAt: z
+    .string()
+    .trim()
+    .refine((value) => value === "" || !Number.isNaN(Date.parse(value)), "预计到货日期无效")
+    .transform((value) => (value === "" ? null : new Date(value))),
+  lines: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        quantity: z.number().int("数量需为整数").min(0, "数量不能为负数"),
+        unitCost: z.number().min(0, "单价不能为负数"),
+      }),
+    )
+    .refine((lines) => lines.some((line) => line.quantity > 0), "至少保留一行数量大于 0"),
+});
+
+const ReceiveSchema = z.array(
+  z.object({
+    id: z.string().min(1),
+    receivedQuantity: z.number().int("到货数量需为整数").min(0, "到货数量不能为负数"),
+  }),
+);
+
+const PlanQuantitiesSchema = z.record(
+  z.number().int("数量需为整数").min(0, "数量不能为负数"),
+);
+
+const StatusSchema = z.enum(["draft", "sent", "partially_received", "received", "cancelled"]);
+
+function parseJson(value: FormDataEntryValue | null) {
+  try {
+    return JSON.parse(String(value ?? "[]"));
+  } catch {
+    return null;
+  }
+}
+
+function firstIssue(error: z.ZodError) {
+  return error.issues[0]?.message ?? "提交内容无效";
+}
+
+export function parseDraftUpdate(formData: FormData) {
+  const parsed = DraftSchema.safeParse({
+    note: (formData.get("note") as string) ?? "",
+    expectedAt: (formData.get("expectedAt") as string) ?? "",
+    lines: parseJson(formData.get("lines")),
+  });
+  if (!parsed.success) {
+    return { success: false as const, message: firstIssue(parsed.error) };
+  }
+  return { success: true as const, data: parsed.data };
+}
+
+export function parseReceivedLines(formData: FormData) {
+  const parsed = ReceiveSchema.safeParse(parseJson(formData.get("lines")));
+  if (!parsed.success) {
+    return { success: false as const, message: firstIssue(parsed.error) };
+  }
+  return { success: true as const, data: parsed.data };
+}
+
+export function parseStatus(formData: FormData) {
+  const parsed = StatusSchema.safeParse(formData.get("status"));
+  if (!parsed.success) {
+    return { success: false as const, message: "状态无效" };
+  }
+  const status: PurchaseOrderStatus = parsed.data;
+  return { success: true as const, data: status };
+}
+
+/** Per-SKU order quantities chosen by the budget planner; missing means none were sent. */
+export function parsePlanQuantities(formData: FormData) {
+  const parsed = PlanQuantitiesSchema.safeParse(parseJson(formData.get("quantities") ?? "{}"));
+  if (!parsed.success) {
+    return { success: false as const, message: firstIssue(parsed.error) };
+  }
+  return { success: true as const, data: new Map(Object.entries(parsed.data)) };
+}
@@ -1,16 +1,28 @@
 import { z } from "zod";
 import {
+  DEFAULT_ABC_BASIS,
   DEFAULT_DIGEST_DAILY_ENABLED,
   DEFAULT_DIGEST_SEND_HOUR,
+  DEFAULT_DIGEST_WEEKDAY,
   DEFAULT_DIGEST_WEEKLY_ENABLED,
+  DEFAULT_FORECAST_MODEL,
   DEFAULT_HISTORY_DAYS,
   DEFAULT_LEAD_TIME_DAYS,
   DEFAULT_MILD_OVERSTOCK_THRESHOLD_DAYS,
+  DEFAULT_NIGHTLY_SYNC_HOUR,
   DEFAULT_OVERSTOCK_THRESHOLD_DAYS,
+  DEFAULT_PURCHASE_BUDGET,
+  DEFAULT_LEAD_TIME_STD_DAYS,
   DEFAULT_SAFETY_DAYS,
+  DEFAULT_SAFETY_STOCK_METHOD,
+  DEFAULT_SERVICE_LEVEL,
   DEFAULT_SHORTAGE_THRESHOLD_DAYS,
+  MAX_SERVICE_LEVEL,
+  MIN_SERVICE_LEVEL,
+  SLACK_WEBHOOK_PREFIX,
 } from "../config/inventory";
 import type { FieldErrors } from "../types/errors";
+import { splitRecipients } from "../utils/mime";
 
 export type SettingsField =
   | "shortageThreshold"
@@ -19,6 +31,14 @@ export type SettingsField =
   | "safetyDays"
   | "leadTime"
   | "digestSendHour"
+  | "digestWeekday"
+  | "emailRecipients"
+  | "slackWebhook"
+  | "nightlySyncHour"
+  | "purchaseBudget"
+  | "serviceLevel"
+  | "leadTimeStdDays"
+  | "classPolicies"
   | "locations";
 
 export type SettingsForm = {
@@ -30,11 +50,26 @@ export type SettingsForm = {
   historyWindow: string;
   digestFrequency: string;
   digestSendHour: number;
+  digestWeekday: number;
   digestDailyEnabled: boolean;
   digestWeeklyEnabled: boolean;
   emailRecipients: string;
   slackWebhook: string;
   slackEnabled: boolean;
+  purchaseBudget: number;
+  budgetPeriod: "none" | "month" | "quarter";
+  forecastModel: "auto" | "moving-average" | "holt" | "holt-winters" | "croston";
+  safetyStockMethod: "days" | "statistical";
+  serviceLevel: number;
+  leadTimeStdDays: number;
+  abcBasis: "revenue" | "margin";
+  nightlySyncHour: number;
+  classPolicies: Partial<
+    Record<
+      "A" | "B" | "C",
+      { serviceLevel?: number; shortageThreshold?: number; overstockThreshold?: number }
+    >
+  >;
   locations: { id: string; selected: boolean }[];
 };
 
@@ -43,6 +78,21 @@ function parseNumber(value: FormDataEntryValue | null, fallback: number) {
   return Number.isFinite(parsed) ? parsed : fallback;
 }
 
+const ServiceLevelSchema = z.coerce
+  .number()
+  .min(MIN_SERVICE_LEVEL, `服务水平需在 ${MIN_SERVICE_LEVEL}% – ${MAX_SERVICE_LEVEL}% 之间`)
+  .max(MAX_SERVICE_LEVEL, `服务水平需在 ${MIN_SERVICE_LEVEL}% – ${MAX_SERVICE_LEVEL}% 之间`);
+
+const ClassPolicySchema = z.object({
+  serviceLevel: ServiceLevelSchema.optional(),
+  shortageThreshold: z.coerce.number().int("阈值需为整数").positive("阈值需大于 0").optional(),
+  overstockThreshold: z.coerce.number().int("阈值需为整数").positive("阈值需大于 0").optional(),
+});
+
+const EmailSchema = z.string().email();
+
+const SLACK_WEBHOOK_MESSAGE = `Slack Webhook 需以 ${SLACK_WEBHOOK_PREFIX} 开头`;
+
 const SettingsSchema = z.object({
   shortageThreshold: z.coerce.number().positive(),
   overstockThreshold: z.coerce.number().positive(),
@@ -52,12 +102,42 @@ const SettingsSchema = z.object({
   historyWindow: z.string(),
   digestFrequency: z.enum(["daily", "weekly", "off"]),
   digestSendHour: z.coerce.number().int().min(0).max(23),
+  digestWeekday: z.coerce.number().int().min(0).max(6),
   digestDailyEnabled: z.coerce.boolean(),
   digestWeeklyEnabled: z.coerce.boolean(),
   emailRecipients: z.string().optional().default(""),
   slackWebhook: z.string().optional().default(""),
   slackEnabled: z.coerce.boolean(),
+  purchaseBudget: z.coerce.number().min(0, "预算不能为负数"),
+  budgetPeriod: z.enum(["none", "month", "quarter"]),
+  forecastModel: z.enum(["auto", "moving-average", "holt", "holt-winters", "croston"]),
+  safetyStockMethod: z.enum(["days", "statistical"]),
+  serviceLevel: ServiceLevelSchema,
+  leadTimeStdDays: z.coerce.number().min(0, "交期波动不能为负数"),
+  abcBasis: z.enum(["revenue", "margin"]),
+  nightlySyncHour: z.coerce.number().int().min(0).max(23),
+  classPolicies: z
+    .object({
+      A: ClassPolicySchema.optional(),
+      B: ClassPolicySchema.optional(),
+      C: ClassPolicySchema.optional(),
+    })
+    .default({}),
   locations: z.array(z.object({ id: z.string(), selected: z.boolean() })).default([]),
+}).superRefine((settings, ctx) => {
+  const invalidRecipients = splitRecipients(settings.emailRecipients).filter(
+    (recipient) => !EmailSchema.safeParse(recipient).success,
+  );
+  if (invalidRecipients.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["emailRecipients"],
+      message: `邮箱格式不正确：${invalidRecipients.join(", ")}`,
+    });
+  }
+  if (settings.slackEnabled && !settings.slackWebhook.startsWith(SLACK_WEBHOOK_PREFIX)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["slackWebhook"], message: SLACK_WEBHOOK_MESSAGE });
+  }
 });
 
 export function parseSettings(formData: FormData) {
@@ -78,12 +158,23 @@ export function parseSettings(formData: FormData) {
   const historyWindow = (formData.get("historyWindow") as string) || `${DEFAULT_HISTORY_DAYS} 天`;
   const digestFrequency = (formData.get("digestFrequency") as string) || "weekly";
   const digestSendHour = parseNumber(formData.get("digestSendHour"), DEFAULT_DIGEST_SEND_HOUR);
+  const digestWeekday = parseNumber(formData.get("digestWeekday"), DEFAULT_DIGEST_WEEKDAY);
   const digestDailyEnabled = formData.get("digestDailyEnabled") === "true";
   const digestWeeklyEnabled = formData.get("digestWeeklyEnabled") !== "false";
   const emailRecipients = (formData.get("emailRecipients") as string) || "";
   const slackWebhook = (formData.get("slackWebhook") as string) || "";
   const slackEnabled = formData.get("slackEnabled") === "true";
+  const purchaseBudget = parseNumber(formData.get("purchaseBudget"), DEFAULT_PURCHASE_BUDGET);
+  const budgetPeriod = (formData.get("budgetPeriod") as string) || "month";
+  const forecastModel = (formData.get("forecastModel") as string) || DEFAULT_FORECAST_MODEL;
+  const safetyStockMethod =
+    (formData.get("safetyStockMethod") as string) || DEFAULT_SAFETY_STOCK_METHOD;
+  const serviceLevel = parseNumber(formData.get("serviceLevel"), DEFAULT_SERVICE_LEVEL);
+  const leadTimeStdDays = parseNumber(formData.get("leadTimeStdDays"), DEFAULT_LEAD_TIME_STD_DAYS);
   const locationsRaw = (formData.get("locations") as string) || "[]";
+  const abcBasis = (formData.get("abcBasis") as string) || DEFAULT_ABC_BASIS;
+  const nightlySyncHour = parseNumber(formData.get("nightlySyncHour"), DEFAULT_NIGHTLY_SYNC_HOUR);
+  const classPoliciesRaw = (formData.get("classPolicies") as string) || "{}";
 
   let locations: { id: string; selected: boolean }[] = [];
   try {
@@ -91,6 +182,12 @@ export function parseSettings(formData: FormData) {
   } catch {
     // handled by schema validation below
   }
+  let classPolicies: unknown = {};
+  try {
+    classPolicies = JSON.parse(classPoliciesRaw);
+  } catch {
+    // handled by schema validation below
+  }
 
   const parsed = SettingsSchema.safeParse({
     shortageThreshold,
@@ -101,11 +198,21 @@ export function parseSettings(formData: FormData) {
     historyWindow,
     digestFrequency,
     digestSendHour,
+    digestWeekday,
     digestDailyEnabled,
     digestWeeklyEnabled,
     emailRecipients,
     slackWebhook,
     slackEnabled,
+    purchaseBudget,
+    budgetPeriod,
+    forecastModel,
+    safetyStockMethod,
+    serviceLevel,
+    leadTimeStdDays,
+    abcBasis,
+    nightlySyncHour,
+    classPolicies,
     locations,
   });
 
@@ -123,3 +230,25 @@ export function parseSettings(formData: FormData) {
   const data: SettingsForm = parsed.data;
   return { success: true, data };
 }
+
+const BudgetSchema = z.coerce
+  .number({ invalid_type_error: "预算需为数字" })
+  .min(0, "预算不能为负数");
+
+export function parsePurchaseBudget(formData: FormData) {
+  const raw = String(formData.get("budget") ?? "").trim();
+  const parsed = BudgetSchema.safeParse(raw.length > 0 ? raw : undefined);
+  if (!parsed.success) {
+    return { success: false as const, message: parsed.error.issues[0]?.message ?? "预算无效" };
+  }
+  return { success: true as const, data: parsed.data };
+}
+
+/** Webhook typed in settings for a test post; it does not have to be saved first. */
+export function parseSlackWebhook(formData: FormData) {
+  const webhook = String(formData.get("slackWebhook") ?? "").trim();
+  if (!webhook.startsWith(SLACK_WEBHOOK_PREFIX)) {
+    return { success: false as const, message: SLACK_WEBHOOK_MESSAGE };
+  }
+  return { success: true as const, data: webhook };
+}
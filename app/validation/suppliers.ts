@@ -0,0 +1,226 @@
+import { z } from "zod";
+import type { FieldErrors } from "../types/errors";
+import { parseCsv } from "../utils/csv";
+
+export type SupplierField =
+  | "name"
+  | "contactName"
+  | "email"
+  | "phone"
+  | "currency"
+  | "leadTimeDays"
+  | "safetyDays"
+  | "moq"
+  | "budget";
+
+export type SupplierForm = {
+  id?: string;
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  currency: string;
+  leadTimeDays: number | null;
+  safetyDays: number | null;
+  moq: number | null;
+  budget: number | null;
+};
+
+export type SkuPlanningForm = {
+  sku: string;
+  leadTimeDays: number | null;
+  safetyDays: number | null;
+  moq: number | null;
+  casePack: number | null;
+};
+
+export type SupplierCsvRow = {
+  line: number;
+  sku: string;
+  supplier: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  currency?: string;
+  leadTimeDays?: number;
+  safetyDays?: number;
+  moq?: number;
+};
+
+function parseOptionalNumber(value: FormDataEntryValue | string | null | undefined) {
+  const raw = String(value ?? "").trim();
+  if (raw.length === 0) return null;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+}
+
+const SupplierSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1, "请填写供应商名称"),
+  contactName: z.string().trim(),
+  email: z.union([z.literal(""), z.string().trim().email("邮箱格式不正确")]),
+  phone: z.string().trim(),
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, "币种需为 3 位代码，例如 USD"),
+  leadTimeDays: z
+    .number({ invalid_type_error: "交期需为数字" })
+    .int("交期需为整数")
+    .min(0, "交期不能为负数")
+    .nullable(),
+  safetyDays: z
+    .number({ invalid_type_error: "安全库存天数需为数字" })
+    .int("安全库存天数需为整数")
+    .min(0, "安全库存天数不能为负数")
+    .nullable(),
+  moq: z.number({ invalid_type_error: "MOQ 需为数字" }).int("MOQ 需为整数").min(1, "MOQ 至少为 1").nullable(),
+  budget: z.number({ invalid_type_error: "预算需为数字" }).min(0, "预算不能为负数").nullable(),
+});
+
+/** The supplier fields a CSV row may carry, checked with the same rules as the supplier form. */
+const SupplierCsvRowSchema = SupplierSchema.pick({
+  email: true,
+  currency: true,
+  leadTimeDays: true,
+  safetyDays: true,
+  moq: true,
+}).partial();
+
+export function parseSupplier(formData: FormData) {
+  const id = (formData.get("id") as string) || undefined;
+  const parsed = SupplierSchema.safeParse({
+    id,
+    name: (formData.get("name") as string) ?? "",
+    contactName: (formData.get("contactName") as string) ?? "",
+    email: ((formData.get("email") as string) ?? "").trim(),
+    phone: (formData.get("phone") as string) ?? "",
+    currency: (formData.get("currency") as string) || "USD",
+    leadTimeDays: parseOptionalNumber(formData.get("leadTimeDays")),
+    safetyDays: parseOptionalNumber(formData.get("safetyDays")),
+    moq: parseOptionalNumber(formData.get("moq")),
+    budget: parseOptionalNumber(formData.get("budget")),
+  });
+
+  if (!parsed.success) {
+    const errors: FieldErrors<SupplierField> = {};
+    parsed.error.issues.forEach((issue) => {
+      const key = issue.path[0] as SupplierField | undefined;
+      if (key) {
+        errors[key] = issue.message;
+      }
+    });
+    return { success: false as const, errors };
+  }
+
+  const data: SupplierForm = parsed.data;
+  return { success: true as const, data };
+}
+
+const SkuPlanningSchema = z.object({
+  sku: z.string().trim().min(1, "缺少 SKU"),
+  leadTimeDays: z.number({ invalid_type_error: "交期需为数字" }).int().min(0).nullable(),
+  safetyDays: z.number({ invalid_type_error: "安全库存天数需为数字" }).int().min(0).nullable(),
+  moq: z.number({ invalid_type_error: "MOQ 需为数字" }).int().min(1).nullable(),
+  casePack: z.number({ invalid_type_error: "箱规需为数字" }).int().min(1, "箱规至少为 1").nullable(),
+});
+
+/** Empty inputs clear the SKU override so the supplier / shop value applies again. */
+export function parseSkuPlanning(formData: FormData) {
+  const parsed = SkuPlanningSchema.safeParse({
+    sku: (formData.get("sku") as string) ?? "",
+    leadTimeDays: parseOptionalNumber(formData.get("leadTimeDays")),
+    safetyDays: parseOptionalNumber(formData.get("safetyDays")),
+    moq: parseOptionalNumber(formData.get("moq")),
+    casePack: parseOptionalNumber(formData.get("casePack")),
+  });
+
+  if (!parsed.success) {
+    return {
+      success: false as const,
+      message: parsed.error.issues.map((issue) => issue.message).join(" · "),
+    };
+  }
+
+  const data: SkuPlanningForm = parsed.data;
+  return { success: true as const, data };
+}
+
+const CSV_COLUMNS: Record<string, keyof Omit<SupplierCsvRow, "line">> = {
+  sku: "sku",
+  supplier: "supplier",
+  "供应商": "supplier",
+  contact: "contactName",
+  "联系人": "contactName",
+  email: "email",
+  "邮箱": "email",
+  phone: "phone",
+  "电话": "phone",
+  currency: "currency",
+  "币种": "currency",
+  lead_time_days: "leadTimeDays",
+  "交期": "leadTimeDays",
+  safety_days: "safetyDays",
+  "安全库存天数": "safetyDays",
+  moq: "moq",
+};
+
+/**
+ * Parses a SKU → supplier CSV. Requires a header row with at least `sku` and `supplier`
+ * columns; optional columns fill in supplier details when the supplier is created.
+ */
+export function parseSupplierCsv(text: string): { rows: SupplierCsvRow[]; errors: string[] } {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    return { rows: [], errors: ["CSV 为空"] };
+  }
+
+  const columns = header.map((name) => CSV_COLUMNS[name.toLowerCase()]);
+  if (!columns.includes("sku") || !columns.includes("supplier")) {
+    return { rows: [], errors: ["表头需包含 sku 与 supplier 列"] };
+  }
+
+  const rows: SupplierCsvRow[] = [];
+  const errors: string[] = [];
+
+  lines.forEach((values, index) => {
+    const line = index + 2;
+    const record: Record<string, string> = {};
+    columns.forEach((column, columnIndex) => {
+      if (column) record[column] = values[columnIndex] ?? "";
+    });
+
+    if (!record.sku || !record.supplier) {
+      errors.push(`第 ${line} 行缺少 SKU 或供应商`);
+      return;
+    }
+
+    const parsed = SupplierCsvRowSchema.safeParse({
+      email: record.email?.trim() || undefined,
+      currency: record.currency?.trim() || undefined,
+      leadTimeDays: parseOptionalNumber(record.leadTimeDays) ?? undefined,
+      safetyDays: parseOptionalNumber(record.safetyDays) ?? undefined,
+      moq: parseOptionalNumber(record.moq) ?? undefined,
+    });
+    if (!parsed.success) {
+      errors.push(`第 ${line} 行：${parsed.error.issues.map((issue) => issue.message).join("；")}`);
+      return;
+    }
+
+    rows.push({
+      line,
+      sku: record.sku,
+      supplier: record.supplier,
+      contactName: record.contactName || undefined,
+      email: parsed.data.email || undefined,
+      phone: record.phone || undefined,
+      currency: parsed.data.currency,
+      leadTimeDays: parsed.data.leadTimeDays ?? undefined,
+      safetyDays: parsed.data.safetyDays ?? undefined,
+      moq: parsed.data.moq ?? undefined,
+    });
+  });
+
+  return { rows, errors };
+}
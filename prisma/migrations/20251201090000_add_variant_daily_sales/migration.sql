@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "VariantDailySales" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "SyncState" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "salesCursor" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_InventoryMetric" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "sku" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "variantTitle" TEXT NOT NULL,
+    "available" INTEGER NOT NULL,
+    "unitCost" REAL,
+    "lastCalculated" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_InventoryMetric" ("id", "shopDomain", "variantId", "sku", "name", "variantTitle", "available", "unitCost", "lastCalculated", "createdAt", "updatedAt") SELECT "id", "shopDomain", "variantId", "sku", "name", "variantTitle", "available", "unitCost", "lastCalculated", "createdAt", "updatedAt" FROM "InventoryMetric";
+DROP TABLE "InventoryMetric";
+ALTER TABLE "new_InventoryMetric" RENAME TO "InventoryMetric";
+CREATE UNIQUE INDEX "InventoryMetric_shopDomain_variantId_key" ON "InventoryMetric"("shopDomain", "variantId");
+CREATE INDEX "InventoryMetric_shopDomain_lastCalculated_idx" ON "InventoryMetric"("shopDomain", "lastCalculated");
+CREATE INDEX "InventoryMetric_shopDomain_sku_idx" ON "InventoryMetric"("shopDomain", "sku");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VariantDailySales_shopDomain_variantId_date_key" ON "VariantDailySales"("shopDomain", "variantId", "date");
+
+-- CreateIndex
+CREATE INDEX "VariantDailySales_shopDomain_date_idx" ON "VariantDailySales"("shopDomain", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncState_shopDomain_key" ON "SyncState"("shopDomain");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "InventorySnapshot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "available" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventorySnapshot_shopDomain_variantId_date_key" ON "InventorySnapshot"("shopDomain", "variantId", "date");
+
+-- CreateIndex
+CREATE INDEX "InventorySnapshot_shopDomain_date_idx" ON "InventorySnapshot"("shopDomain", "date");
@@ -0,0 +1,26 @@
+-- DropIndex
+DROP INDEX "VariantDailySales_shopDomain_variantId_date_key";
+
+-- AlterTable
+ALTER TABLE "VariantDailySales" ADD COLUMN "locationId" TEXT NOT NULL DEFAULT '';
+
+-- CreateTable
+CREATE TABLE "InventoryLevel" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "locationName" TEXT NOT NULL,
+    "available" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryLevel_shopDomain_variantId_locationId_key" ON "InventoryLevel"("shopDomain", "variantId", "locationId");
+
+-- CreateIndex
+CREATE INDEX "InventoryLevel_shopDomain_locationId_idx" ON "InventoryLevel"("shopDomain", "locationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VariantDailySales_shopDomain_variantId_locationId_date_key" ON "VariantDailySales"("shopDomain", "variantId", "locationId", "date");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "ShopLocation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "selected" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopLocation_shopDomain_locationId_key" ON "ShopLocation"("shopDomain", "locationId");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "Supplier" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "contactName" TEXT NOT NULL DEFAULT '',
+    "email" TEXT NOT NULL DEFAULT '',
+    "phone" TEXT NOT NULL DEFAULT '',
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "leadTimeDays" INTEGER,
+    "moq" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "SkuSetting" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "sku" TEXT NOT NULL,
+    "supplierId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SkuSetting_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Supplier_shopDomain_name_key" ON "Supplier"("shopDomain", "name");
+
+-- CreateIndex
+CREATE INDEX "SkuSetting_supplierId_idx" ON "SkuSetting"("supplierId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SkuSetting_shopDomain_sku_key" ON "SkuSetting"("shopDomain", "sku");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Supplier" ADD COLUMN "safetyDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "SkuSetting" ADD COLUMN "leadTimeDays" INTEGER;
+ALTER TABLE "SkuSetting" ADD COLUMN "safetyDays" INTEGER;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "InventoryLevel" ADD COLUMN "incoming" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "InventoryMetric" ADD COLUMN "incoming" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,34 @@
+-- CreateTable
+-- ShopSetting was introduced without a migration; create it for databases built from migrations alone.
+CREATE TABLE IF NOT EXISTS "ShopSetting" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "shortageThreshold" INTEGER NOT NULL,
+    "overstockThreshold" INTEGER NOT NULL,
+    "mildOverstockThreshold" INTEGER NOT NULL,
+    "safetyDays" INTEGER NOT NULL,
+    "leadTime" INTEGER NOT NULL,
+    "historyWindow" TEXT NOT NULL,
+    "digestFrequency" TEXT NOT NULL,
+    "digestDailyEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "digestWeeklyEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "digestSendHour" INTEGER NOT NULL DEFAULT 9,
+    "emailRecipients" TEXT NOT NULL,
+    "slackWebhook" TEXT NOT NULL,
+    "slackEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "ShopSetting_shopDomain_key" ON "ShopSetting"("shopDomain");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ShopSetting_shopDomain_idx" ON "ShopSetting"("shopDomain");
+
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "purchaseBudget" REAL NOT NULL DEFAULT 18000;
+ALTER TABLE "ShopSetting" ADD COLUMN "budgetPeriod" TEXT NOT NULL DEFAULT 'month';
+
+-- AlterTable
+ALTER TABLE "Supplier" ADD COLUMN "budget" REAL;
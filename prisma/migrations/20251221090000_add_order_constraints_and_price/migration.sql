@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "SkuSetting" ADD COLUMN "moq" INTEGER;
+ALTER TABLE "SkuSetting" ADD COLUMN "casePack" INTEGER;
+
+-- AlterTable
+ALTER TABLE "InventoryMetric" ADD COLUMN "price" REAL;
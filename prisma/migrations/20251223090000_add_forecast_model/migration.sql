@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "forecastModel" TEXT NOT NULL DEFAULT 'auto';
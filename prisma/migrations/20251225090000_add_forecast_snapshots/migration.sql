@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "InventoryMetric" ADD COLUMN "category" TEXT;
+
+-- CreateTable
+CREATE TABLE "ForecastSnapshot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "sku" TEXT NOT NULL,
+    "category" TEXT NOT NULL DEFAULT '',
+    "supplierId" TEXT,
+    "model" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "horizonDays" INTEGER NOT NULL,
+    "forecastQty" REAL NOT NULL,
+    "actualQty" INTEGER,
+    "evaluatedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ForecastSnapshot_shopDomain_variantId_date_key" ON "ForecastSnapshot"("shopDomain", "variantId", "date");
+
+-- CreateIndex
+CREATE INDEX "ForecastSnapshot_shopDomain_evaluatedAt_idx" ON "ForecastSnapshot"("shopDomain", "evaluatedAt");
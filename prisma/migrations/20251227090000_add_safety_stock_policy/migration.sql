@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "safetyStockMethod" TEXT NOT NULL DEFAULT 'days';
+ALTER TABLE "ShopSetting" ADD COLUMN "serviceLevel" REAL NOT NULL DEFAULT 95;
+ALTER TABLE "ShopSetting" ADD COLUMN "leadTimeStdDays" REAL NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ClassPolicy" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "abcClass" TEXT NOT NULL,
+    "serviceLevel" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClassPolicy_shopDomain_abcClass_key" ON "ClassPolicy"("shopDomain", "abcClass");
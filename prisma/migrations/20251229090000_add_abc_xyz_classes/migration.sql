@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "InventoryMetric" ADD COLUMN "abcClass" TEXT;
+ALTER TABLE "InventoryMetric" ADD COLUMN "xyzClass" TEXT;
+
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "abcBasis" TEXT NOT NULL DEFAULT 'revenue';
+
+-- AlterTable
+ALTER TABLE "ClassPolicy" ADD COLUMN "shortageThreshold" INTEGER;
+ALTER TABLE "ClassPolicy" ADD COLUMN "overstockThreshold" INTEGER;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "BundleComponent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "bundleSku" TEXT NOT NULL,
+    "componentSku" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BundleComponent_shopDomain_bundleSku_componentSku_key" ON "BundleComponent"("shopDomain", "bundleSku", "componentSku");
+
+-- CreateIndex
+CREATE INDEX "BundleComponent_shopDomain_componentSku_idx" ON "BundleComponent"("shopDomain", "componentSku");
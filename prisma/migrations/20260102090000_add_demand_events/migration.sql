@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "DemandEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "multiplier" REAL NOT NULL,
+    "scope" TEXT NOT NULL DEFAULT 'all',
+    "scopeValues" TEXT NOT NULL DEFAULT '',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "DemandEvent_shopDomain_endDate_idx" ON "DemandEvent"("shopDomain", "endDate");
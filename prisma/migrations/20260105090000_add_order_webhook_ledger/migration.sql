@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "SyncState" ADD COLUMN "salesReconciledAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "InventoryMetric" ADD COLUMN "inventoryItemId" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrderSalesLine" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL DEFAULT '',
+    "date" DATETIME NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "WebhookReceipt" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "webhookId" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryMetric_shopDomain_inventoryItemId_idx" ON "InventoryMetric"("shopDomain", "inventoryItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderSalesLine_shopDomain_orderId_variantId_locationId_key" ON "OrderSalesLine"("shopDomain", "orderId", "variantId", "locationId");
+
+-- CreateIndex
+CREATE INDEX "OrderSalesLine_shopDomain_date_idx" ON "OrderSalesLine"("shopDomain", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookReceipt_shopDomain_webhookId_key" ON "WebhookReceipt"("shopDomain", "webhookId");
+
+-- CreateIndex
+CREATE INDEX "WebhookReceipt_createdAt_idx" ON "WebhookReceipt"("createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SyncState" ADD COLUMN "bulkCatalog" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "SyncJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "scope" TEXT NOT NULL DEFAULT 'inventory',
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "progressDone" INTEGER NOT NULL DEFAULT 0,
+    "progressTotal" INTEGER NOT NULL DEFAULT 0,
+    "progressLabel" TEXT,
+    "message" TEXT,
+    "runAfter" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" DATETIME,
+    "lockedBy" TEXT,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "SyncJob_status_runAfter_idx" ON "SyncJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "SyncJob_shopDomain_status_idx" ON "SyncJob"("shopDomain", "status");
+
+-- CreateIndex
+CREATE INDEX "SyncJob_shopDomain_createdAt_idx" ON "SyncJob"("shopDomain", "createdAt");
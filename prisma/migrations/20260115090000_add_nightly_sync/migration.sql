@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "nightlySyncHour" INTEGER NOT NULL DEFAULT 2;
+
+-- AlterTable
+ALTER TABLE "SyncState" ADD COLUMN "timezone" TEXT;
+ALTER TABLE "SyncState" ADD COLUMN "nightlyRunDate" TEXT;
+
+-- AlterTable
+ALTER TABLE "SyncJob" ADD COLUMN "trigger" TEXT NOT NULL DEFAULT 'manual';
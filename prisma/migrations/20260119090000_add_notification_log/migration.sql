@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "NotificationLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "channel" TEXT NOT NULL DEFAULT 'email',
+    "kind" TEXT NOT NULL DEFAULT 'digest',
+    "recipients" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_shopDomain_channel_createdAt_idx" ON "NotificationLog"("shopDomain", "channel", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_shopDomain_status_createdAt_idx" ON "NotificationLog"("shopDomain", "status", "createdAt");
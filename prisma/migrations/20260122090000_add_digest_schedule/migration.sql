@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "digestWeekday" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "SyncState" ADD COLUMN "digestDailyPeriod" TEXT;
+ALTER TABLE "SyncState" ADD COLUMN "digestWeeklyPeriod" TEXT;